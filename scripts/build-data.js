@@ -6,6 +6,7 @@
 
 import { createReadStream, writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { parse } from 'csv-parse';
+import { createHash } from 'crypto';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -415,6 +416,7 @@ async function processItems() {
     const dyeCount = parseInt(item['DyeCount'] || '0');
     const isUnique = item['IsUnique'] === 'True' || item['IsUnique'] === '1';
     const isAdvancedMeldingPermitted = item['IsAdvancedMeldingPermitted'] === 'True' || item['IsAdvancedMeldingPermitted'] === '1';
+    const equipSlotCategory = parseInt(item['EquipSlotCategory'] || '0');
 
     // Collect base stats
     const stats = [];
@@ -486,6 +488,7 @@ async function processItems() {
       if (isAdvancedMeldingPermitted) equipStats.isAdvancedMeldingPermitted = true;
       if (dyeCount > 0) equipStats.dyeCount = dyeCount;
       if (isUnique) equipStats.isUnique = true;
+      if (equipSlotCategory > 0) equipStats.equipSlotCategory = equipSlotCategory;
 
       itemData.equipStats = equipStats;
       equipCount++;
@@ -1756,6 +1759,107 @@ async function processSources() {
   console.log(`Saved ${Object.keys(gcSupplyOutput).length} GC supply entries`);
 }
 
+/**
+ * Process materia and the stat caps that limit melding
+ * Output: materia.json with { materia: { itemId: { paramId, paramName, value, grade } },
+ *   statCaps: { levels: { itemLevel: { paramId: value } }, slotModifiers: { paramId: { equipSlotCategory: per-mille } } } }
+ * A stat's cap on an item is round(levels[itemLevel][paramId] * slotModifiers[paramId][equipSlotCategory] / 1000)
+ */
+async function processMateria() {
+  console.log('Processing materia...');
+
+  const materiaRows = await parseCSV(join(CSV_BASE, 'Materia.csv'));
+  const baseParams = await parseCSV(join(CSV_BASE, 'BaseParam.csv'));
+  const itemLevels = await parseCSV(join(CSV_BASE, 'ItemLevel.csv'));
+
+  const baseParamById = new Map();
+  baseParams.forEach((bp) => {
+    const id = parseInt(bp['#'] || '0');
+    if (id > 0) baseParamById.set(id, bp);
+  });
+
+  // Materia columns: Item[0-15], BaseParam, Value[0-15] (index = grade)
+  const materia = {};
+  const paramIds = new Set();
+  for (const row of materiaRows) {
+    const paramId = parseInt(row['BaseParam'] || '0');
+    if (paramId <= 0) continue;
+    const paramName = (baseParamById.get(paramId)?.['Name'] || '').replace(/<hex:[^>]+>/g, '').trim();
+    for (let grade = 0; grade < 16; grade++) {
+      const itemId = parseInt(row[`Item[${grade}]`] || '0');
+      const value = parseInt(row[`Value[${grade}]`] || '0');
+      if (itemId > 0 && value > 0) {
+        materia[itemId] = { paramId, paramName, value, grade };
+        paramIds.add(paramId);
+      }
+    }
+  }
+
+  // BaseParam has one "...%" column per EquipSlotCategory, in category order starting at 1
+  const slotModifiers = {};
+  for (const paramId of paramIds) {
+    const bp = baseParamById.get(paramId);
+    if (!bp) continue;
+    const slotColumns = Object.keys(bp).filter(key => key.endsWith('%'));
+    slotModifiers[paramId] = {};
+    slotColumns.forEach((key, index) => {
+      const modifier = parseInt(bp[key] || '0');
+      if (modifier > 0) slotModifiers[paramId][index + 1] = modifier;
+    });
+  }
+
+  // ItemLevel has one column per BaseParam, in BaseParam order after the "#" column
+  const levels = {};
+  for (const row of itemLevels) {
+    const itemLevel = parseInt(row['#'] || '0');
+    if (itemLevel <= 0) continue;
+    const columns = Object.keys(row);
+    levels[itemLevel] = {};
+    for (const paramId of paramIds) {
+      const value = parseInt(row[columns[paramId]] || '0');
+      if (value > 0) levels[itemLevel][paramId] = value;
+    }
+  }
+
+  writeFileSync(join(OUTPUT_PATH, 'materia.json'), JSON.stringify({ materia, statCaps: { levels, slotModifiers } }));
+  console.log(`Saved ${Object.keys(materia).length} materia, stat caps for ${Object.keys(levels).length} item levels`);
+}
+
+/**
+ * Process worlds and data centers from Universalis
+ * Output: worlds.json with { dataCenters: [{ name, region, worlds: [{ id, name }] }] }
+ * Keeps the previous file when Universalis can't be reached
+ */
+async function processWorlds() {
+  console.log('Processing worlds and data centers...');
+
+  const [dataCenters, worlds] = await Promise.all([
+    fetchJSON('https://universalis.app/api/v2/data-centers'),
+    fetchJSON('https://universalis.app/api/v2/worlds'),
+  ]);
+  if (!dataCenters || !worlds) {
+    console.warn('Skipping worlds.json: Universalis unavailable');
+    return;
+  }
+
+  const worldNames = new Map(worlds.map(world => [world.id, world.name]));
+  // Our own region first, then the order Universalis lists them in
+  const regionOrder = ['繁中服', ...new Set(dataCenters.map(dc => dc.region))];
+  const output = dataCenters
+    .map(dc => ({
+      name: dc.name,
+      region: dc.region,
+      worlds: dc.worlds
+        .filter(id => worldNames.has(id))
+        .map(id => ({ id, name: worldNames.get(id) })),
+    }))
+    .filter(dc => dc.worlds.length > 0)
+    .sort((a, b) => regionOrder.indexOf(a.region) - regionOrder.indexOf(b.region));
+
+  writeFileSync(join(OUTPUT_PATH, 'worlds.json'), JSON.stringify({ dataCenters: output }));
+  console.log(`Saved ${output.length} data centers`);
+}
+
 /**
  * Process map data - build zone name to map path mapping with sizeFactor and offset
  * Reference: https://github.com/xivapi/ffxiv-datamining/blob/master/docs/MapCoordinates.md
@@ -2323,6 +2427,23 @@ async function processMobPositions() {
   console.log(`Processed ${Object.keys(mobPositions).length} mobs with ${totalPositions} positions (${fileSizeMB}MB)`);
 }
 
+/**
+ * Write data-version.json with a content hash of the item data files
+ * The client uses it to key its IndexedDB cache of items and the search index
+ */
+function writeDataVersion() {
+  const hash = createHash('sha256');
+  for (const file of ['items-index.json', 'items.json']) {
+    const path = join(OUTPUT_PATH, file);
+    if (existsSync(path)) {
+      hash.update(readFileSync(path));
+    }
+  }
+  const version = hash.digest('hex').slice(0, 16);
+  writeFileSync(join(OUTPUT_PATH, 'data-version.json'), JSON.stringify({ version }));
+  console.log(`Data version: ${version}`);
+}
+
 /**
  * Main function
  */
@@ -2343,6 +2464,7 @@ async function main() {
 
   try {
     await processItems();
+    await processMateria();
     await processRecipes();
     await processGathering();
     await processSources();
@@ -2351,6 +2473,7 @@ async function main() {
     await processInstanceCNNames();
     await processMultilingualNames();
     await processMobPositions();
+    await processWorlds();
     // Finalize items-index.json with merged multilingual names
     {
       const multiPath = join(OUTPUT_PATH, 'item-names-multi.json');
@@ -2366,6 +2489,7 @@ async function main() {
       console.log(`Generated items-index.json: ${(JSON.stringify(indexOutput).length / 1024 / 1024).toFixed(1)}MB (compact, with multilingual names)`);
     }
     await processRecipeLevels();
+    writeDataVersion();
     console.log('');
     console.log('Data processing complete!');
   } catch (error) {
@@ -7,8 +7,12 @@ import { ItemList } from './components/ItemList';
 import { SettingsModal } from './components/SettingsModal';
 import { useItemData } from './hooks/useItemData';
 import { useSearch } from './hooks/useSearch';
+import { useResultsView } from './hooks/useResultsView';
 import { PriceCheckListProvider, usePriceCheckList } from './contexts/PriceCheckListContext';
 import { AlarmProvider, useAlarms } from './contexts/AlarmContext';
+import { MarketAlertProvider, useMarketAlerts } from './contexts/MarketAlertContext';
+import { SearchHistoryProvider, useSearchHistory } from './contexts/SearchHistoryContext';
+import { CompareProvider, useCompare } from './contexts/CompareContext';
 import { EorzeanClock } from './components/EorzeanClock';
 import { DetailNavigationContext } from './contexts/DetailNavigationContext';
 import { ItemDetailContent, ItemDetail } from './components/ItemDetail';
@@ -17,18 +21,28 @@ import { ItemDetailContent, ItemDetail } from './components/ItemDetail';
 const CraftingSimulator = lazy(() => import('./components/crafting').then(m => ({ default: m.CraftingSimulator })));
 const PriceCheckListPage = lazy(() => import('./components/PriceCheckListPage').then(m => ({ default: m.PriceCheckListPage })));
 const AlarmsPage = lazy(() => import('./components/AlarmsPage').then(m => ({ default: m.AlarmsPage })));
+const MarketAlertsPage = lazy(() => import('./components/MarketAlertsPage').then(m => ({ default: m.MarketAlertsPage })));
+const RetainersPage = lazy(() => import('./components/RetainersPage').then(m => ({ default: m.RetainersPage })));
+const GearSetPage = lazy(() => import('./components/gearset').then(m => ({ default: m.GearSetPage })));
+const ComparePage = lazy(() => import('./components/ComparePage').then(m => ({ default: m.ComparePage })));
+const ProfitScannerPage = lazy(() => import('./components/ProfitScannerPage').then(m => ({ default: m.ProfitScannerPage })));
+const ConsumablesPage = lazy(() => import('./components/ConsumablesPage').then(m => ({ default: m.ConsumablesPage })));
 
 
 function HomePage() {
   const { categories, loading, error } = useItemData();
-  const { filters, results, totalResults, isSearching, hasSearched, hasMore, updateQuery, updateFilters, resetFilters, loadMore } = useSearch();
+  const { filters, queryString, searchText, sort, results, totalResults, isSearching, hasSearched, hasMore, updateQuery, updateFilters, updateSort, resetFilters, loadMore } = useSearch();
+  const { viewMode, columns, setViewMode, setColumns, showHealth, maxDataAge, setShowHealth, setMaxDataAge } = useResultsView();
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
+  const { addRecentSearch } = useSearchHistory();
   const isFirstSelect = useRef(true);
 
   const selectedItemId = searchParams.get('selected') ? parseInt(searchParams.get('selected')!) : null;
 
   const handleItemSelect = useCallback((id: number) => {
+    // Opening a result means the query was useful; keep it in recent searches
+    addRecentSearch(queryString);
     const newParams = new URLSearchParams(searchParams);
     newParams.set('selected', String(id));
     if (isFirstSelect.current || !selectedItemId) {
@@ -39,7 +53,7 @@ function HomePage() {
       // Replace for subsequent selections (avoid history spam)
       setSearchParams(newParams, { replace: true });
     }
-  }, [searchParams, selectedItemId, navigate, setSearchParams]);
+  }, [searchParams, selectedItemId, navigate, setSearchParams, addRecentSearch, queryString]);
 
   const handleCloseDetail = useCallback(() => {
     const newParams = new URLSearchParams(searchParams);
@@ -74,9 +88,10 @@ function HomePage() {
           {/* Search bar */}
           <div className="mb-4">
             <SearchBar
-              value={filters.query}
+              value={queryString}
               onChange={updateQuery}
-              placeholder="搜尋物品名稱..."
+              onItemSelect={handleItemSelect}
+              placeholder="搜尋物品名稱... (例: ilvl:>=690 job:WHM hq)"
             />
           </div>
 
@@ -98,9 +113,19 @@ function HomePage() {
             hasSearched={hasSearched}
             hasMore={hasMore}
             onLoadMore={loadMore}
-            query={filters.query}
+            query={searchText}
             onItemSelect={handleItemSelect}
             selectedItemId={selectedItemId}
+            sort={sort}
+            onSortChange={updateSort}
+            viewMode={viewMode}
+            onViewModeChange={setViewMode}
+            columns={columns}
+            onColumnsChange={setColumns}
+            showHealth={showHealth}
+            onShowHealthChange={setShowHealth}
+            maxDataAge={maxDataAge}
+            onMaxDataAgeChange={setMaxDataAge}
           />
         </div>
 
@@ -141,6 +166,8 @@ function HomePage() {
 function Header({ onSettingsOpen }: { onSettingsOpen: () => void }) {
   const { itemCount } = usePriceCheckList();
   const { alarmCount } = useAlarms();
+  const { alertCount, triggeredCount } = useMarketAlerts();
+  const { compareIds } = useCompare();
 
   return (
     <header className="bg-[var(--ffxiv-bg-secondary)] border-b border-[var(--ffxiv-border)] sticky top-0 z-10">
@@ -189,6 +216,70 @@ function Header({ onSettingsOpen }: { onSettingsOpen: () => void }) {
                 </span>
               )}
             </Link>
+            <Link
+              to="/market-alerts"
+              className="relative p-2 text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent)]/10 rounded transition-colors"
+              title="市場提醒"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.25 6L9 12.75l4.286-4.286a11.948 11.948 0 014.306 6.43l.776 2.898m0 0l3.182-5.511m-3.182 5.51l-5.511-3.181" />
+              </svg>
+              {alertCount > 0 && (
+                <span className={`absolute -top-1 -right-1 ${triggeredCount > 0 ? 'bg-yellow-500' : 'bg-[var(--ffxiv-accent)]'} text-white text-xs w-5 h-5 flex items-center justify-center rounded-full`}>
+                  {triggeredCount > 0 ? triggeredCount : alertCount > 99 ? '99+' : alertCount}
+                </span>
+              )}
+            </Link>
+            <Link
+              to="/retainers"
+              className="p-2 text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent)]/10 rounded transition-colors"
+              title="雇員銷售"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.75 6a3.75 3.75 0 11-7.5 0 3.75 3.75 0 017.5 0zM4.501 20.118a7.5 7.5 0 0114.998 0A17.933 17.933 0 0112 21.75c-2.676 0-5.216-.584-7.499-1.632z" />
+              </svg>
+            </Link>
+            <Link
+              to="/gearset"
+              className="p-2 text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent)]/10 rounded transition-colors"
+              title="配裝規劃"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12.75L11.25 15 15 9.75m-3-7.036A11.959 11.959 0 013.598 6 11.99 11.99 0 003 9.749c0 5.592 3.824 10.29 9 11.623 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.571-.598-3.751h-.152c-3.196 0-6.1-1.248-8.25-3.285z" />
+              </svg>
+            </Link>
+            <Link
+              to="/consumables"
+              className="p-2 text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent)]/10 rounded transition-colors"
+              title="食物與藥品比較"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 3.104v5.714a2.25 2.25 0 01-.659 1.591L5 14.5M9.75 3.104c-.251.023-.501.05-.75.082m.75-.082a24.301 24.301 0 014.5 0m0 0v5.714c0 .597.237 1.17.659 1.591L19.8 15.3M14.25 3.104c.251.023.501.05.75.082M19.8 15.3l-1.57.393A9.065 9.065 0 0112 15a9.065 9.065 0 00-6.23-.693L5 14.5m14.8.8l1.402 1.402c1.232 1.232.65 3.318-1.067 3.611A48.309 48.309 0 0112 21c-2.773 0-5.491-.235-8.135-.687-1.718-.293-2.3-2.379-1.067-3.61L5 14.5" />
+              </svg>
+            </Link>
+            <Link
+              to="/profit"
+              className="p-2 text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent)]/10 rounded transition-colors"
+              title="製作獲利掃描"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v12m-3-2.818l.879.659c1.171.879 3.07.879 4.242 0 1.172-.879 1.172-2.303 0-3.182C13.536 12.219 12.768 12 12 12c-.725 0-1.45-.22-2.003-.659-1.106-.879-1.106-2.303 0-3.182s2.9-.879 4.006 0l.415.33M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </Link>
+            <Link
+              to="/compare"
+              className="relative p-2 text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent)]/10 rounded transition-colors"
+              title="裝備比較"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+              </svg>
+              {compareIds.length > 0 && (
+                <span className="absolute -top-1 -right-1 bg-[var(--ffxiv-accent)] text-white text-xs w-5 h-5 flex items-center justify-center rounded-full">
+                  {compareIds.length}
+                </span>
+              )}
+            </Link>
             <Link
               to="/pricelist"
               className="relative p-2 text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent)]/10 rounded transition-colors"
@@ -251,6 +342,12 @@ function AppContent() {
               <Route path="/craft/:itemId" element={<div className="max-w-6xl mx-auto"><CraftingSimulator /></div>} />
               <Route path="/pricelist" element={<div className="max-w-6xl mx-auto"><PriceCheckListPage /></div>} />
               <Route path="/alarms" element={<div className="max-w-6xl mx-auto"><AlarmsPage /></div>} />
+              <Route path="/market-alerts" element={<div className="max-w-6xl mx-auto"><MarketAlertsPage /></div>} />
+              <Route path="/retainers" element={<div className="max-w-6xl mx-auto"><RetainersPage /></div>} />
+              <Route path="/compare" element={<ComparePage />} />
+              <Route path="/gearset" element={<GearSetPage />} />
+              <Route path="/consumables" element={<ConsumablesPage />} />
+              <Route path="/profit" element={<ProfitScannerPage />} />
             </Routes>
           </Suspense>
         )}
@@ -310,9 +407,15 @@ function App() {
   return (
     <BrowserRouter basename="/ffxiv-item-search-tc">
       <AlarmProvider>
-        <PriceCheckListProvider>
-          <AppContent />
-        </PriceCheckListProvider>
+        <MarketAlertProvider>
+          <PriceCheckListProvider>
+            <SearchHistoryProvider>
+              <CompareProvider>
+                <AppContent />
+              </CompareProvider>
+            </SearchHistoryProvider>
+          </PriceCheckListProvider>
+        </MarketAlertProvider>
       </AlarmProvider>
     </BrowserRouter>
   );
@@ -0,0 +1,37 @@
+// Add to equipment compare button component
+import { useCompare, MAX_COMPARE_ITEMS } from '../contexts/CompareContext';
+
+interface CompareButtonProps {
+  itemId: number;
+  className?: string;
+}
+
+export function CompareButton({ itemId, className = '' }: CompareButtonProps) {
+  const { isComparing, isFull, toggleCompare } = useCompare();
+  const comparing = isComparing(itemId);
+  const disabled = !comparing && isFull;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    toggleCompare(itemId);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={disabled}
+      className={`inline-flex items-center gap-2 px-3 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        comparing
+          ? 'text-[var(--ffxiv-accent)] bg-[var(--ffxiv-accent)]/20 hover:bg-[var(--ffxiv-accent)]/30 border border-[var(--ffxiv-accent)]'
+          : 'text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent)]/10 border border-[var(--ffxiv-border)]'
+      } ${className}`}
+      title={disabled ? `最多比較 ${MAX_COMPARE_ITEMS} 件裝備` : undefined}
+    >
+      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+      </svg>
+      {comparing ? '已加入比較' : '加入比較'}
+    </button>
+  );
+}
@@ -0,0 +1,159 @@
+// Side-by-side equipment compare page
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useCompare, MAX_COMPARE_ITEMS } from '../contexts/CompareContext';
+import { EquipmentStatsView } from './EquipmentStatsView';
+import { getItemById } from '../services/searchService';
+import { getItemIconUrl } from '../services/xivapiService';
+import { ensureFullItemData } from '../hooks/useItemData';
+import { getEquipValues } from '../utils/equipCompare';
+import type { Item } from '../types';
+import { getRarityClass } from '../utils/rarity';
+
+export function ComparePage() {
+  const navigate = useNavigate();
+  const { compareIds, removeCompare, setBaseline, clearCompare } = useCompare();
+  const [fullDataReady, setFullDataReady] = useState(false);
+  const [hq, setHq] = useState(true);
+
+  // Equipment stats are only in the full item data
+  useEffect(() => {
+    ensureFullItemData().then(() => setFullDataReady(true));
+  }, []);
+
+  const items = fullDataReady
+    ? compareIds.map(id => getItemById(id)).filter((item): item is Item => item !== undefined)
+    : [];
+  const baseline = items[0];
+  const baselineValues = baseline?.equipStats
+    ? getEquipValues(baseline.equipStats, hq && !!baseline.canBeHq)
+    : undefined;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back button */}
+      <button
+        onClick={() => navigate(-1)}
+        className="inline-flex items-center gap-1 text-sm text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] mb-4 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        返回搜尋
+      </button>
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+        <h1 className="text-xl font-bold text-[var(--ffxiv-text)]">
+          裝備比較 ({compareIds.length}/{MAX_COMPARE_ITEMS})
+        </h1>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 cursor-pointer px-3 py-1.5 rounded bg-[var(--ffxiv-bg-tertiary)] hover:bg-[var(--ffxiv-card-hover)] transition-colors">
+            <input
+              type="checkbox"
+              checked={hq}
+              onChange={(e) => setHq(e.target.checked)}
+              className="w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-bg-tertiary)] accent-[var(--ffxiv-accent)]"
+            />
+            <span className="text-sm text-[var(--ffxiv-text-secondary)]">以 HQ 數值比較</span>
+          </label>
+          {compareIds.length > 0 && (
+            <button
+              onClick={clearCompare}
+              className="px-3 py-1.5 text-sm text-[var(--ffxiv-error)] hover:bg-[var(--ffxiv-error)]/10 rounded transition-colors"
+            >
+              清空比較
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Empty state */}
+      {compareIds.length === 0 && (
+        <div className="text-center py-16 bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+          <div className="text-lg text-[var(--ffxiv-muted)] mb-2">尚未選擇裝備</div>
+          <div className="text-sm text-[var(--ffxiv-muted)] mb-4">
+            在裝備的物品詳情頁點擊「加入比較」，最多可同時比較 {MAX_COMPARE_ITEMS} 件
+          </div>
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent-hover)] text-white rounded-lg transition-colors"
+          >
+            開始搜尋物品
+          </Link>
+        </div>
+      )}
+
+      {compareIds.length > 0 && !fullDataReady && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-[var(--ffxiv-border)] border-t-[var(--ffxiv-accent)]"></div>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          {items.length > 1 && (
+            <p className="text-xs text-[var(--ffxiv-muted)] mb-3">
+              差異以第一件裝備為基準：綠色為較佳，紅色為較差
+            </p>
+          )}
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {items.map((item, index) => (
+              <div key={item.id} className="min-w-0 space-y-3">
+                {/* Item header */}
+                <div className="flex items-start gap-2 p-3 bg-[var(--ffxiv-card)] rounded-lg border border-[var(--ffxiv-border)]">
+                  <img
+                    src={getItemIconUrl(item.icon)}
+                    alt=""
+                    className="w-10 h-10 flex-shrink-0 object-contain"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/item/${item.id}`}
+                      className={`block font-medium truncate hover:underline ${getRarityClass(item.rarity)}`}
+                    >
+                      {item.name}
+                    </Link>
+                    <div className="text-xs text-[var(--ffxiv-muted)] truncate">{item.categoryName}</div>
+                    {index === 0 ? (
+                      <span className="text-xs text-[var(--ffxiv-highlight)]">基準</span>
+                    ) : (
+                      <button
+                        onClick={() => setBaseline(item.id)}
+                        className="text-xs text-[var(--ffxiv-accent)] hover:underline"
+                      >
+                        設為基準
+                      </button>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => removeCompare(item.id)}
+                    className="text-[var(--ffxiv-muted)] hover:text-red-400 px-1"
+                    title="移出比較"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                {item.equipStats ? (
+                  <EquipmentStatsView
+                    equipStats={item.equipStats}
+                    canBeHq={item.canBeHq}
+                    equipLevel={item.equipLevel}
+                    itemLevel={item.itemLevel}
+                    hq={hq}
+                    compareTo={baselineValues}
+                  />
+                ) : (
+                  <div className="p-4 text-sm text-[var(--ffxiv-muted)] bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+                    此物品沒有裝備屬性
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
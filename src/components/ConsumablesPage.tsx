@@ -0,0 +1,252 @@
+// Food and medicine browser for combat jobs: rank consumables by stat gain or gil per point
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useItemData, ensureFullItemData } from '../hooks/useItemData';
+import { useSettings, DEFAULT_COMBAT_STATS } from '../hooks/useSettings';
+import { useResultPrices } from '../hooks/useResultPrices';
+import { getItemIconUrl } from '../services/xivapiService';
+import { formatPrice } from '../services/universalisApi';
+import { getMarketServerLabel } from '../services/worldData';
+import {
+  COMBAT_PARAMS,
+  FOOD_CATEGORY_ID,
+  MEDICINE_CATEGORY_ID,
+  getConsumableGains,
+  isCombatConsumable,
+  type ConsumableGain,
+} from '../utils/foodEffects';
+import type { Item } from '../types';
+import { getRarityClass } from '../utils/rarity';
+
+type ConsumableKind = 'all' | 'food' | 'medicine';
+type RankBy = 'gain' | 'price';
+
+// 0 ranks by the sum of all combat stat gains
+const TOTAL_TARGET = 0;
+const MAX_ROWS = 100;
+
+interface RankedConsumable {
+  item: Item;
+  gains: ConsumableGain[];
+  points: number;                  // Gain on the ranked stat (or all stats)
+  price: number | null;
+  pricePerPoint: number | null;
+}
+
+export function ConsumablesPage() {
+  const navigate = useNavigate();
+  const { items } = useItemData();
+  const { combatStats, setCombatStats, marketServer } = useSettings();
+  const [fullDataReady, setFullDataReady] = useState(false);
+  const [kind, setKind] = useState<ConsumableKind>('food');
+  const [hq, setHq] = useState(true);
+  const [target, setTarget] = useState(TOTAL_TARGET);
+  const [rankBy, setRankBy] = useState<RankBy>('gain');
+
+  // Food effects are only in the full item data
+  useEffect(() => {
+    ensureFullItemData().then(() => setFullDataReady(true));
+  }, []);
+
+  // Consumables that raise the ranked stat; independent of base stats so prices aren't refetched while typing
+  const candidates = useMemo(() => {
+    if (!fullDataReady) return [];
+    return Object.values(items).filter(item => {
+      if (!isCombatConsumable(item)) return false;
+      if (kind === 'food' && item.categoryId !== FOOD_CATEGORY_ID) return false;
+      if (kind === 'medicine' && item.categoryId !== MEDICINE_CATEGORY_ID) return false;
+      return target === TOTAL_TARGET || item.foodEffects!.bonuses.some(bonus => bonus.paramId === target);
+    });
+  }, [items, fullDataReady, kind, target]);
+
+  const { nqPrices, hqPrices, loading: pricesLoading } = useResultPrices(candidates, true);
+
+  const ranked = useMemo(() => {
+    const rows: RankedConsumable[] = candidates.map(item => {
+      const gains = getConsumableGains(item, combatStats, hq);
+      const points = gains
+        .filter(gain => target === TOTAL_TARGET || gain.paramId === target)
+        .reduce((sum, gain) => sum + gain.gain, 0);
+      const price = (hq && item.canBeHq ? hqPrices[item.id] : nqPrices[item.id]) ?? null;
+      return {
+        item,
+        gains,
+        points,
+        price,
+        pricePerPoint: price !== null && points > 0 ? price / points : null,
+      };
+    });
+
+    if (rankBy === 'price') {
+      // Cheapest per point first; unpriced consumables go last, by gain
+      return rows.sort((a, b) => {
+        if (a.pricePerPoint === null || b.pricePerPoint === null) {
+          if (a.pricePerPoint !== b.pricePerPoint) return a.pricePerPoint === null ? 1 : -1;
+          return b.points - a.points;
+        }
+        return a.pricePerPoint - b.pricePerPoint;
+      });
+    }
+    return rows.sort((a, b) => b.points - a.points || b.item.itemLevel - a.item.itemLevel);
+  }, [candidates, combatStats, hq, target, rankBy, nqPrices, hqPrices]);
+
+  const setBaseStat = (paramId: number, value: number) => {
+    setCombatStats({ ...combatStats, [paramId]: Math.max(0, Math.min(99999, value)) });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back button */}
+      <button
+        onClick={() => navigate(-1)}
+        className="inline-flex items-center gap-1 text-sm text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] mb-4 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        返回搜尋
+      </button>
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+        <h1 className="text-xl font-bold text-[var(--ffxiv-text)]">食物與藥品比較</h1>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ConsumableKind)}
+            className="bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer"
+          >
+            <option value="food">食物</option>
+            <option value="medicine">藥品</option>
+            <option value="all">全部</option>
+          </select>
+          <select
+            value={target}
+            onChange={(e) => setTarget(parseInt(e.target.value))}
+            className="bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer"
+          >
+            <option value={TOTAL_TARGET}>所有屬性合計</option>
+            {COMBAT_PARAMS.map(param => (
+              <option key={param.id} value={param.id}>{param.name}</option>
+            ))}
+          </select>
+          <select
+            value={rankBy}
+            onChange={(e) => setRankBy(e.target.value as RankBy)}
+            className="bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer"
+          >
+            <option value="gain">依提升點數排序</option>
+            <option value="price">依每點價格排序</option>
+          </select>
+          <label className="flex items-center gap-2 cursor-pointer px-3 py-1.5 rounded bg-[var(--ffxiv-bg-tertiary)] hover:bg-[var(--ffxiv-card-hover)] transition-colors">
+            <input
+              type="checkbox"
+              checked={hq}
+              onChange={(e) => setHq(e.target.checked)}
+              className="w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-bg-tertiary)] accent-[var(--ffxiv-accent)]"
+            />
+            <span className="text-sm text-[var(--ffxiv-text-secondary)]">HQ</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Base stats */}
+      <div className="mb-4 p-4 bg-[var(--ffxiv-card)] rounded-lg border border-[var(--ffxiv-border)]">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-[var(--ffxiv-highlight)]">基礎屬性</h3>
+          <button
+            onClick={() => setCombatStats(DEFAULT_COMBAT_STATS)}
+            className="text-xs text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] transition-colors"
+          >
+            重設
+          </button>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+          {COMBAT_PARAMS.map(param => (
+            <label key={param.id} className="flex items-center gap-2 text-xs text-[var(--ffxiv-muted)]">
+              <span className="w-14 flex-shrink-0">{param.name}</span>
+              <input
+                type="number"
+                min={0}
+                value={combatStats[param.id] ?? 0}
+                onChange={(e) => setBaseStat(param.id, parseInt(e.target.value) || 0)}
+                className="w-full min-w-0 bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-2 py-1 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)]"
+              />
+            </label>
+          ))}
+        </div>
+        <p className="mt-2 text-xs text-[var(--ffxiv-muted)]">
+          百分比加成以基礎屬性計算並受上限限制，達上限的屬性以 <span className="text-[var(--ffxiv-warning)]">橘色</span> 標示
+        </p>
+      </div>
+
+      {!fullDataReady ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-[var(--ffxiv-border)] border-t-[var(--ffxiv-accent)]"></div>
+        </div>
+      ) : ranked.length === 0 ? (
+        <div className="text-center py-16 bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+          <div className="text-lg text-[var(--ffxiv-muted)] mb-4">沒有提升此屬性的消耗品</div>
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 px-4 py-2 bg-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent-hover)] text-white rounded-lg transition-colors"
+          >
+            開始搜尋物品
+          </Link>
+        </div>
+      ) : (
+        <div className="bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)] overflow-hidden">
+          <div className="px-4 py-2 bg-[var(--ffxiv-card)] border-b border-[var(--ffxiv-border)] flex items-center justify-between text-xs text-[var(--ffxiv-muted)]">
+            <span>
+              共 {ranked.length} 項{ranked.length > MAX_ROWS && `，顯示前 ${MAX_ROWS} 項`}
+            </span>
+            <span>{pricesLoading ? '正在載入市場價格...' : getMarketServerLabel(marketServer)}</span>
+          </div>
+          <div className="divide-y divide-[var(--ffxiv-border)]">
+            {ranked.slice(0, MAX_ROWS).map(({ item, gains, points, price, pricePerPoint }, index) => (
+              <div key={item.id} className="flex items-center gap-3 px-4 py-2 hover:bg-[var(--ffxiv-card-hover)] transition-colors">
+                <span className="w-6 text-xs text-right text-[var(--ffxiv-muted)] tabular-nums">{index + 1}</span>
+                <img src={getItemIconUrl(item.icon)} alt="" className="w-8 h-8 flex-shrink-0 object-contain" loading="lazy" />
+                <div className="flex-1 min-w-0">
+                  <Link
+                    to={`/item/${item.id}`}
+                    className={`block text-sm truncate hover:underline ${getRarityClass(item.rarity)}`}
+                  >
+                    {item.name}
+                    {hq && item.canBeHq && <span className="ml-1 text-xs text-[var(--ffxiv-highlight)]">HQ</span>}
+                  </Link>
+                  <div className="flex flex-wrap gap-x-2 text-xs">
+                    {gains.map(gain => (
+                      <span
+                        key={gain.paramId}
+                        className={
+                          gain.paramId === target
+                            ? 'text-[var(--ffxiv-accent)]'
+                            : gain.capped ? 'text-[var(--ffxiv-warning)]' : 'text-[var(--ffxiv-text-secondary)]'
+                        }
+                      >
+                        {gain.paramName} +{gain.gain}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="text-right text-xs tabular-nums flex-shrink-0">
+                  <div className="text-sm text-[var(--ffxiv-text)]">+{points}</div>
+                  <div className="text-[var(--ffxiv-muted)]">品級 {item.itemLevel}</div>
+                </div>
+                <div className="w-28 text-right text-xs tabular-nums flex-shrink-0">
+                  <div className="text-sm text-[var(--ffxiv-highlight)]">
+                    {price !== null ? `${formatPrice(price)} gil` : pricesLoading ? '…' : item.isUntradable ? '不可交易' : '無掛單'}
+                  </div>
+                  {pricePerPoint !== null && (
+                    <div className="text-[var(--ffxiv-muted)]">{formatPrice(Math.round(pricePerPoint))} / 點</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+// Craft queue for a price check list: intermediate crafts in order, grouped by job, checked off into owned stock
+import { useState, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import type { CraftingTreeNode } from '../types';
+import type { QualityFilter } from '../utils/craftingTree';
+import { useGatheringData, useSourcesData } from '../hooks/useItemData';
+import { getItemById } from '../services/searchService';
+import { getItemIconUrl } from '../services/xivapiService';
+import { buildMaterialList } from '../utils/materialList';
+import {
+  buildCraftQueue,
+  completeCraftStep,
+  getCraftStepDeltas,
+  getStockBeforeSteps,
+  type CompletedCraftStep,
+  type CraftStep,
+} from '../utils/craftQueue';
+
+const STORAGE_PREFIX = 'ffxiv-craft-queue-done-';
+
+function loadCompleted(storageKey: string): CompletedCraftStep[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + storageKey);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCompleted(storageKey: string, completed: CompletedCraftStep[]) {
+  localStorage.setItem(STORAGE_PREFIX + storageKey, JSON.stringify(completed));
+}
+
+function getItemName(itemId: number): string {
+  return getItemById(itemId)?.name ?? `#${itemId}`;
+}
+
+interface CraftQueuePanelProps {
+  trees: CraftingTreeNode[];
+  ownedMaterials: Record<number, number>;
+  onOwnedAdjust: (deltas: Record<number, number>) => void;
+  customPrices: Record<number, number>;
+  qualityFilter: QualityFilter;
+  showCrystals: boolean;
+  storageKey: string;
+}
+
+export function CraftQueuePanel({
+  trees,
+  ownedMaterials,
+  onOwnedAdjust,
+  customPrices,
+  qualityFilter,
+  showCrystals,
+  storageKey,
+}: CraftQueuePanelProps) {
+  const { points } = useGatheringData();
+  const { sources } = useSourcesData();
+  const [completed, setCompleted] = useState(() => loadCompleted(storageKey));
+
+  // Planned against the stock from before any step was checked off, so done steps stay in the queue
+  const plannedStock = useMemo(() => getStockBeforeSteps(ownedMaterials, completed), [ownedMaterials, completed]);
+
+  const steps = useMemo(() => {
+    const lines = buildMaterialList(
+      trees,
+      plannedStock,
+      customPrices,
+      {
+        getSources: (itemId) => sources[itemId] ?? [],
+        getGatheringPoints: (itemId) => points[itemId] ?? [],
+      },
+      { qualityFilter, gatherWhenPossible: false, showCrystals: true }
+    );
+    return buildCraftQueue(lines, showCrystals);
+  }, [trees, plannedStock, customPrices, qualityFilter, showCrystals, points, sources]);
+
+  const stages = useMemo(() => {
+    const byStage = new Map<number, Map<string, CraftStep[]>>();
+    for (const step of steps) {
+      const jobs = byStage.get(step.stage) ?? new Map<string, CraftStep[]>();
+      jobs.set(step.craftTypeName, [...(jobs.get(step.craftTypeName) ?? []), step]);
+      byStage.set(step.stage, jobs);
+    }
+    return Array.from(byStage.entries());
+  }, [steps]);
+
+  const doneKeys = useMemo(() => new Set(completed.map(c => c.key)), [completed]);
+  const doneCount = steps.filter(step => doneKeys.has(step.key)).length;
+
+  const toggleStep = useCallback((step: CraftStep) => {
+    const existing = completed.find(c => c.key === step.key);
+    let next: CompletedCraftStep[];
+    if (existing) {
+      onOwnedAdjust(getCraftStepDeltas(existing, -1));
+      next = completed.filter(c => c.key !== step.key);
+    } else {
+      const done = completeCraftStep(step, ownedMaterials);
+      onOwnedAdjust(getCraftStepDeltas(done, 1));
+      next = [...completed, done];
+    }
+    saveCompleted(storageKey, next);
+    setCompleted(next);
+  }, [completed, ownedMaterials, onOwnedAdjust, storageKey]);
+
+  // Forget the checks but keep the owned stock as it is now
+  const resetProgress = useCallback(() => {
+    saveCompleted(storageKey, []);
+    setCompleted([]);
+  }, [storageKey]);
+
+  return (
+    <div className="p-4 mb-4 bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
+        <h2 className="text-base font-bold text-[var(--ffxiv-text)]">製作順序</h2>
+        <div className="flex items-center gap-4 flex-wrap text-sm">
+          {steps.length > 0 && (
+            <span className="text-[var(--ffxiv-muted)]">完成 {doneCount}/{steps.length}</span>
+          )}
+          {completed.length > 0 && (
+            <button
+              onClick={resetProgress}
+              className="text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-text)] hover:underline"
+              title="清除勾選，擁有數量維持不變"
+            >
+              重設進度
+            </button>
+          )}
+        </div>
+      </div>
+
+      {steps.length === 0 ? (
+        <div className="text-sm text-[var(--ffxiv-muted)]">沒有需要製作的物品</div>
+      ) : (
+        <>
+          <div className="text-xs text-[var(--ffxiv-muted)] mb-3">
+            勾選步驟會從擁有數量扣除材料並加入成品；取消勾選會還原
+          </div>
+          <div className="space-y-3">
+            {stages.map(([stage, jobs]) => (
+              <div key={stage} className="bg-[var(--ffxiv-card)] rounded-lg border border-[var(--ffxiv-border)]">
+                <div className="px-3 py-2 border-b border-[var(--ffxiv-border)] text-sm font-medium text-[var(--ffxiv-text)]">
+                  第 {stage + 1} 階段
+                </div>
+                {Array.from(jobs.entries()).map(([job, jobSteps]) => (
+                  <div key={job} className="px-3 py-2 border-b border-[var(--ffxiv-border)] last:border-b-0">
+                    <div className="text-xs text-[var(--ffxiv-highlight)] mb-1">{job}</div>
+                    <div className="space-y-2">
+                      {jobSteps.map(step => {
+                        const done = doneKeys.has(step.key);
+                        const item = getItemById(step.itemId);
+                        return (
+                          <div key={step.key} className={`flex items-start gap-3 text-sm ${done ? 'opacity-50' : ''}`}>
+                            <input
+                              type="checkbox"
+                              checked={done}
+                              onChange={() => toggleStep(step)}
+                              className="mt-1 w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-card)] text-[var(--ffxiv-highlight)] focus:ring-[var(--ffxiv-highlight)]"
+                            />
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 flex-wrap">
+                                <Link to={`/item/${step.itemId}`} className="flex items-center gap-2 hover:text-[var(--ffxiv-highlight)]">
+                                  <img
+                                    src={getItemIconUrl(item?.icon ?? 0)}
+                                    alt={item?.name ?? ''}
+                                    className="w-6 h-6 object-contain"
+                                    onError={(e) => {
+                                      (e.target as HTMLImageElement).src = getItemIconUrl(0);
+                                    }}
+                                  />
+                                  <span className={done ? 'line-through' : ''}>{getItemName(step.itemId)}</span>
+                                </Link>
+                                <span className="text-[var(--ffxiv-muted)]">
+                                  製作 {step.crafts} 次
+                                  {step.recipe.resultAmount > 1 && ` (每次 ${step.recipe.resultAmount} 個，共 ${step.produced} 個)`}
+                                </span>
+                              </div>
+                              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-xs">
+                                {step.ingredients.map(ingredient => {
+                                  const owned = ownedMaterials[ingredient.itemId] ?? 0;
+                                  const ready = done || owned >= ingredient.amount;
+                                  return (
+                                    <span
+                                      key={ingredient.itemId}
+                                      className={ready ? 'text-[var(--ffxiv-text-secondary)]' : 'text-[var(--ffxiv-warning)]'}
+                                      title={ingredient.crafted ? '由前面的步驟製作' : undefined}
+                                    >
+                                      {getItemName(ingredient.itemId)} ×{ingredient.amount}
+                                      {!done && <span className="text-[var(--ffxiv-muted)]"> (有 {owned})</span>}
+                                      {ingredient.crafted && ' ⚒'}
+                                    </span>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,17 @@
 // Material tree view for a single crafting item - matches PriceCheckTreeView style
 import { useMemo, useRef, useCallback } from 'react';
-import type { CraftingTreeNode, Item, ListingInfo } from '../types';
+import type { CraftingTreeNode, Item, ListingInfo, Recipe } from '../types';
 import type { QualityFilter } from '../hooks/useCraftingTree';
 import { getItemIconUrl } from '../services/xivapiService';
 import { formatPrice } from '../services/universalisApi';
+import { CRYSTAL_IDS } from '../utils/craftingTree';
+import { quoteBuy } from '../utils/listingCost';
+import { summarizePlanByItem, CRAFT_CHOICE_LABELS, CRAFT_CHOICE_CLASSES, type CraftChoice, type CraftPlanNode } from '../utils/craftPlan';
 import { ListingsTooltip } from './ListingsTooltip';
 import { CopyButton } from './CopyButton';
 import { ItemLink } from './ItemLink';
+import { RecipeSelect } from './RecipeSelect';
+import { getRarityClass } from '../utils/rarity';
 
 interface CraftingMaterialTreeViewProps {
   tree: CraftingTreeNode;
@@ -15,6 +20,10 @@ interface CraftingMaterialTreeViewProps {
   showOwned?: boolean;
   ownedMaterials?: Record<number, number>;
   onOwnedChange?: (itemId: number, quantity: number) => void;
+  plan?: CraftPlanNode | null;  // Optimised choices, merged per material
+  recipeChoices?: Record<number, number>;
+  onRecipeChange?: (itemId: number, recipeId: number | null) => void;
+  flashIds?: Set<number>;      // Items just updated by live market events
 }
 
 interface AggregatedMaterial {
@@ -28,14 +37,12 @@ interface AggregatedMaterial {
   craftCost: number | null;
   depth: number;
   hasRecipe: boolean;
+  recipe: Recipe | null;
   listings?: ListingInfo[];
   lastUploadTime?: number;
   directParents: { parentId: number }[];
 }
 
-// Crystal item IDs (2-19)
-const CRYSTAL_IDS = new Set([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
-
 // Material status types for owned quantity tracking
 type MaterialStatus = 'green' | 'yellow' | 'red' | 'gray';
 
@@ -104,6 +111,7 @@ function collectMaterials(
         craftCost: child.craftCost,
         depth,
         hasRecipe: child.recipe !== null && child.children.length > 0,
+        recipe: child.recipe,
         listings: child.listings,
         lastUploadTime: child.lastUploadTime,
         directParents: [{ parentId: directParentId }],
@@ -140,18 +148,7 @@ function getBestPrice(
   }
 }
 
-function getRarityClass(rarity: number): string {
-  switch (rarity) {
-    case 1: return 'rarity-common';
-    case 2: return 'rarity-uncommon';
-    case 3: return 'rarity-rare';
-    case 4: return 'rarity-relic';
-    case 7: return 'rarity-aetherial';
-    default: return 'rarity-common';
-  }
-}
-
-export function CraftingMaterialTreeView({ tree, qualityFilter, showCrystals, showOwned = false, ownedMaterials = {}, onOwnedChange }: CraftingMaterialTreeViewProps) {
+export function CraftingMaterialTreeView({ tree, qualityFilter, showCrystals, showOwned = false, ownedMaterials = {}, onOwnedChange, plan, recipeChoices = {}, onRecipeChange, flashIds }: CraftingMaterialTreeViewProps) {
   const materialRefs = useRef<Map<number, HTMLDivElement>>(new Map());
 
   // Set ref for material item
@@ -314,6 +311,8 @@ export function CraftingMaterialTreeView({ tree, qualityFilter, showCrystals, sh
     return statusMap;
   }, [showOwned, allMaterials, materialChildren, materialParents, ownedMaterials]);
 
+  const planByItem = useMemo(() => (plan ? summarizePlanByItem(plan) : null), [plan]);
+
   if (maxDepth === 0) {
     return (
       <div className="text-center py-4 text-[var(--ffxiv-muted)]">
@@ -378,8 +377,10 @@ export function CraftingMaterialTreeView({ tree, qualityFilter, showCrystals, sh
               {mats?.map((mat) => {
                 const iconUrl = getItemIconUrl(mat.item.icon);
                 const bestPrice = getBestPrice(mat, qualityFilter);
-                const totalCost = bestPrice.price !== null ? bestPrice.price * mat.totalQuantity : null;
+                const quote = bestPrice.price !== null ? quoteBuy(mat, mat.totalQuantity, bestPrice.isHQ) : null;
+                const totalCost = quote?.cost ?? null;
                 const status = materialStatuses.get(mat.item.id) ?? 'red';
+                const planSummary = planByItem?.get(mat.item.id);
                 const statusStyle = showOwned ? STATUS_COLORS[status] : null;
                 // Highlight border if used by multiple parents
                 const defaultBorder = mat.usedBy.length > 1 ? 'border-[var(--ffxiv-highlight)]' : 'border-[var(--ffxiv-border)]';
@@ -388,7 +389,7 @@ export function CraftingMaterialTreeView({ tree, qualityFilter, showCrystals, sh
                   <div
                     key={mat.item.id}
                     ref={(el) => setMaterialRef(mat.item.id, el)}
-                    className={`bg-[var(--ffxiv-card)] border rounded-lg min-w-[180px] max-w-[220px] flex overflow-hidden ${statusStyle ? `${statusStyle.border} ${statusStyle.opacity ?? ''}` : defaultBorder}`}
+                    className={`bg-[var(--ffxiv-card)] border rounded-lg min-w-[180px] max-w-[220px] flex overflow-hidden ${statusStyle ? `${statusStyle.border} ${statusStyle.opacity ?? ''}` : defaultBorder} ${flashIds?.has(mat.item.id) ? 'market-flash' : ''}`}
                   >
                     {/* Left color bar */}
                     {statusStyle && <div className={`w-1 flex-shrink-0 ${statusStyle.bar}`} />}
@@ -427,6 +428,18 @@ export function CraftingMaterialTreeView({ tree, qualityFilter, showCrystals, sh
                         </div>
                       </div>
 
+                      {/* Recipe choice */}
+                      {onRecipeChange && (
+                        <div className="mb-2 empty:hidden">
+                          <RecipeSelect
+                            itemId={mat.item.id}
+                            recipe={mat.recipe}
+                            manual={recipeChoices[mat.item.id] !== undefined}
+                            onChange={onRecipeChange}
+                          />
+                        </div>
+                      )}
+
                       {/* Owned input */}
                       {showOwned && onOwnedChange && (
                         <div className="flex items-center gap-1.5 mb-2">
@@ -455,6 +468,12 @@ export function CraftingMaterialTreeView({ tree, qualityFilter, showCrystals, sh
                         {totalCost !== null && (
                           <div className="text-[var(--ffxiv-muted)]">
                             小計: {formatPrice(totalCost)} gil
+                            {quote && quote.shortfall > 0 && (
+                              <span className="text-[var(--ffxiv-warning)] ml-1" title="市場上架數量不足">缺 {quote.shortfall}</span>
+                            )}
+                            {quote && quote.surplus > 0 && (
+                              <span className="ml-1" title="整組購買多出的數量">多 {quote.surplus}</span>
+                            )}
                           </div>
                         )}
                         {mat.hasRecipe && mat.craftCost !== null && (
@@ -464,6 +483,29 @@ export function CraftingMaterialTreeView({ tree, qualityFilter, showCrystals, sh
                         )}
                       </div>
 
+                      {/* Optimised choice */}
+                      {planSummary && (
+                        <div className="flex flex-wrap gap-1 mb-2" title={planSummary.reasons.join('\n')}>
+                          {planSummary.ownedUsed > 0 && (
+                            <span className={`px-1.5 py-0.5 rounded text-xs ${CRAFT_CHOICE_CLASSES.owned}`}>
+                              {CRAFT_CHOICE_LABELS.owned} {planSummary.ownedUsed}
+                            </span>
+                          )}
+                          {(Object.entries(planSummary.choices) as [CraftChoice, number][])
+                            .filter(([choice, units]) => units > 0 && choice !== 'owned')
+                            .map(([choice, units]) => (
+                              <span key={choice} className={`px-1.5 py-0.5 rounded text-xs ${CRAFT_CHOICE_CLASSES[choice]}`}>
+                                {CRAFT_CHOICE_LABELS[choice]} {units}
+                              </span>
+                            ))}
+                          {planSummary.need === 0 && (
+                            <span className={`px-1.5 py-0.5 rounded text-xs ${CRAFT_CHOICE_CLASSES.skip}`}>
+                              {CRAFT_CHOICE_LABELS.skip}
+                            </span>
+                          )}
+                        </div>
+                      )}
+
                       {/* Used by which parent materials */}
                       <div className="flex flex-wrap gap-1">
                         {mat.usedBy.map((usage) => (
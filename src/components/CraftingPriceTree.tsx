@@ -1,13 +1,18 @@
 // Main crafting price tree component
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useCraftingTree, type QualityFilter } from '../hooks/useCraftingTree';
+import { collectAllItemIds } from '../utils/craftingTree';
+import { useOwnedMaterials } from '../hooks/useOwnedMaterials';
+import { useCustomPrices } from '../hooks/useCustomPrices';
+import { useRecipeChoices } from '../hooks/useRecipeChoices';
+import { solveCraftPlan } from '../utils/craftPlan';
 import { CraftingTreeNodeComponent } from './CraftingTreeNode';
 import { CraftingMaterialTreeView } from './CraftingMaterialTreeView';
+import { LiveMarketToggle } from './LiveMarketToggle';
+import { RecipeSelect } from './RecipeSelect';
+import { MaterialListPanel } from './MaterialListPanel';
 import { formatPrice, formatRelativeTime } from '../services/universalisApi';
 
-// Local storage key for owned materials (per item)
-const OWNED_STORAGE_KEY_PREFIX = 'crafting-owned-';
-
 interface CraftingPriceTreeProps {
   itemId: number;
 }
@@ -20,61 +25,45 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
   const [qualityFilter, setQualityFilter] = useState<QualityFilter>('both');
   const [viewMode, setViewMode] = useState<ViewMode>('flat');
   const [showOwned, setShowOwned] = useState(false);
-  const [ownedMaterials, setOwnedMaterials] = useState<Record<number, number>>(() => {
-    // Load from localStorage on mount
-    const storageKey = `${OWNED_STORAGE_KEY_PREFIX}${itemId}`;
-    try {
-      const stored = localStorage.getItem(storageKey);
-      return stored ? JSON.parse(stored) : {};
-    } catch {
-      return {};
-    }
-  });
-
-  // Save owned materials to localStorage when they change
-  const handleOwnedChange = useCallback((matItemId: number, quantity: number) => {
-    setOwnedMaterials(prev => {
-      const next = { ...prev };
-      if (quantity === 0) {
-        delete next[matItemId];
-      } else {
-        next[matItemId] = quantity;
-      }
-      // Save to localStorage
-      const storageKey = `${OWNED_STORAGE_KEY_PREFIX}${itemId}`;
-      try {
-        if (Object.keys(next).length === 0) {
-          localStorage.removeItem(storageKey);
-        } else {
-          localStorage.setItem(storageKey, JSON.stringify(next));
-        }
-      } catch {
-        // Ignore storage errors
-      }
-      return next;
-    });
-  }, [itemId]);
-
-  const handleOwnedClear = useCallback(() => {
-    setOwnedMaterials({});
-    const storageKey = `${OWNED_STORAGE_KEY_PREFIX}${itemId}`;
-    try {
-      localStorage.removeItem(storageKey);
-    } catch {
-      // Ignore storage errors
-    }
-  }, [itemId]);
+  const [showMaterialList, setShowMaterialList] = useState(false);
+  // Owned stock and custom prices are shared with the price check list
+  const { ownedMaterials, setOwned } = useOwnedMaterials();
+  const { customPrices } = useCustomPrices();
+  const { recipeChoices, setRecipeChoice, selectRecipe } = useRecipeChoices();
 
   // Always build tree with crystals included; each view filters independently
-  const { tree, loading, error, totalCraftCost, totalBuyCostHQ, refresh } = useCraftingTree(
+  const { tree, loading, error, totalBuyCostHQ, refresh, live, setLive, liveStatus, flashIds } = useCraftingTree(
     itemId,
     true,
     qualityFilter,
-    quantity
+    quantity,
+    customPrices,
+    selectRecipe
   );
 
-  // Calculate savings (HQ buy vs cheapest craft)
-  const craftSavings = totalBuyCostHQ - totalCraftCost;
+  // Cheapest mix of buying, crafting and owned stock for every material
+  const plan = useMemo(
+    () => (tree ? solveCraftPlan(tree, ownedMaterials, customPrices, qualityFilter) : null),
+    [tree, ownedMaterials, customPrices, qualityFilter]
+  );
+  const totalCraftCost = plan?.cost ?? null;
+  const listTrees = useMemo(() => (tree ? [tree] : []), [tree]);
+
+  // Only clear stock for this tree's materials; the rest of the store belongs to other items
+  const handleOwnedClear = useCallback(() => {
+    if (!tree) return;
+    for (const id of collectAllItemIds(tree)) {
+      if (ownedMaterials[id]) setOwned(id, 0);
+    }
+  }, [tree, ownedMaterials, setOwned]);
+
+  const hasOwnedInTree = useMemo(
+    () => (tree ? Array.from(collectAllItemIds(tree)).some(id => (ownedMaterials[id] ?? 0) > 0) : false),
+    [tree, ownedMaterials]
+  );
+
+  // Calculate savings (HQ buy vs optimised craft)
+  const craftSavings = totalBuyCostHQ - (totalCraftCost ?? 0);
 
   return (
     <div className="bg-[var(--ffxiv-bg)] rounded-lg p-4 border border-[var(--ffxiv-accent)]">
@@ -89,6 +78,14 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
           onFocus={(e) => e.target.select()}
           className="w-20 bg-[var(--ffxiv-card)] border border-[var(--ffxiv-accent)] rounded px-2 py-1 text-sm text-right focus:outline-none focus:border-[var(--ffxiv-highlight)]"
         />
+        {tree && (
+          <RecipeSelect
+            itemId={itemId}
+            recipe={tree.recipe}
+            manual={recipeChoices[itemId] !== undefined}
+            onChange={setRecipeChoice}
+          />
+        )}
       </div>
 
       {/* Header controls */}
@@ -157,7 +154,7 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
 
         {/* Refresh and clear buttons */}
         <div className="flex items-center gap-4">
-          {showOwned && Object.keys(ownedMaterials).length > 0 && (
+          {showOwned && hasOwnedInTree && (
             <button
               onClick={handleOwnedClear}
               className="text-sm text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-error)] transition-colors"
@@ -165,6 +162,15 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
               清除擁有數量
             </button>
           )}
+          {tree && tree.children.length > 0 && (
+            <button
+              onClick={() => setShowMaterialList(!showMaterialList)}
+              className={`text-sm hover:underline ${showMaterialList ? 'text-[var(--ffxiv-accent)]' : 'text-[var(--ffxiv-highlight)]'}`}
+            >
+              素材清單
+            </button>
+          )}
+          <LiveMarketToggle live={live} status={liveStatus} onChange={setLive} />
           <button
             onClick={refresh}
             disabled={loading}
@@ -191,17 +197,20 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
       {tree && !loading && (
         <div className="space-y-4">
           {/* Cost summary */}
-          <div className="bg-[var(--ffxiv-card)] rounded-lg p-4 border border-[var(--ffxiv-accent)]">
+          <div className={`bg-[var(--ffxiv-card)] rounded-lg p-4 border border-[var(--ffxiv-accent)] ${flashIds.has(tree.item.id) ? 'market-flash' : ''}`}>
             <div className="text-sm text-[var(--ffxiv-muted)] mb-3">
-              比較：直購HQ成品 vs 用最便宜素材製作（含NQ）
+              比較：直購HQ成品 vs 最佳方案製作（每個材料取買、製作或庫存中最便宜的）
             </div>
 
             <div className="grid grid-cols-2 gap-4 mb-3">
               <div className="text-center">
                 <div className="text-xs text-[var(--ffxiv-muted)] mb-1">自製成本</div>
                 <div className="text-lg font-medium text-blue-400">
-                  {totalCraftCost > 0 ? `${formatPrice(totalCraftCost)} gil` : '-'}
+                  {totalCraftCost !== null ? `${formatPrice(totalCraftCost)} gil` : '-'}
                 </div>
+                {plan && plan.shortfall > 0 && (
+                  <div className="text-xs text-[var(--ffxiv-warning)]" title="市場上架數量不足">缺 {plan.shortfall} 個材料</div>
+                )}
               </div>
               <div className="text-center">
                 <div className="text-xs text-[var(--ffxiv-muted)] mb-1">直購HQ成品</div>
@@ -212,7 +221,7 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
             </div>
 
             {/* Savings comparison */}
-            {totalCraftCost > 0 && totalBuyCostHQ > 0 && (
+            {totalCraftCost !== null && totalBuyCostHQ > 0 && (
               <div className="flex justify-center gap-6 text-sm">
                 {craftSavings > 0 ? (
                   <span className="text-blue-400">
@@ -229,12 +238,12 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
                 )}
               </div>
             )}
-            {totalCraftCost > 0 && totalBuyCostHQ === 0 && (
+            {totalCraftCost !== null && totalBuyCostHQ === 0 && (
               <div className="text-center text-sm text-[var(--ffxiv-muted)]">
                 市場無HQ上架
               </div>
             )}
-            {totalCraftCost === 0 && totalBuyCostHQ > 0 && (
+            {totalCraftCost === null && totalBuyCostHQ > 0 && (
               <div className="text-center text-sm text-[var(--ffxiv-muted)]">
                 無法計算製作成本
               </div>
@@ -248,6 +257,19 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
             )}
           </div>
 
+          {/* Shopping and gathering list */}
+          {showMaterialList && tree.children.length > 0 && (
+            <MaterialListPanel
+              key={itemId}
+              trees={listTrees}
+              ownedMaterials={ownedMaterials}
+              customPrices={customPrices}
+              qualityFilter={qualityFilter}
+              showCrystals={showCrystals}
+              storageKey={`item-${itemId}`}
+            />
+          )}
+
           {/* Materials view - based on view mode */}
           {tree.children.length > 0 && (
             <div>
@@ -261,8 +283,12 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
                     <CraftingTreeNodeComponent
                       key={`${child.item.id}-${index}`}
                       node={child}
+                      plan={plan?.children[index]}
                       showCrystals={showCrystals}
                       qualityFilter={qualityFilter}
+                      recipeChoices={recipeChoices}
+                      onRecipeChange={setRecipeChoice}
+                      flashIds={flashIds}
                     />
                   ))}
                 </div>
@@ -273,7 +299,11 @@ export function CraftingPriceTree({ itemId }: CraftingPriceTreeProps) {
                   showCrystals={showCrystals}
                   showOwned={showOwned}
                   ownedMaterials={ownedMaterials}
-                  onOwnedChange={handleOwnedChange}
+                  onOwnedChange={setOwned}
+                  plan={plan}
+                  recipeChoices={recipeChoices}
+                  onRecipeChange={setRecipeChoice}
+                  flashIds={flashIds}
                 />
               )}
             </div>
@@ -2,19 +2,25 @@
 import { useState, useMemo } from 'react';
 import type { CraftingTreeNode as TreeNodeType } from '../types';
 import type { QualityFilter } from '../hooks/useCraftingTree';
+import { getRecipesForItem } from '../hooks/useItemData';
 import { getItemIconUrl } from '../services/xivapiService';
 import { formatPrice } from '../services/universalisApi';
+import { CRYSTAL_IDS } from '../utils/craftingTree';
+import { quoteBuy, type BuyQuote } from '../utils/listingCost';
+import { CRAFT_CHOICE_LABELS, CRAFT_CHOICE_CLASSES, type CraftPlanNode } from '../utils/craftPlan';
 import { CopyButton } from './CopyButton';
 import { ListingsTooltip } from './ListingsTooltip';
 import { ItemLink } from './ItemLink';
-
-// Crystal item IDs (2-19)
-const CRYSTAL_IDS = new Set([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+import { RecipeSelect } from './RecipeSelect';
 
 interface CraftingTreeNodeProps {
   node: TreeNodeType;
   showCrystals: boolean;
   qualityFilter: QualityFilter;
+  plan?: CraftPlanNode;        // Optimised choice for this node, parallel to the tree
+  recipeChoices?: Record<number, number>;
+  onRecipeChange?: (itemId: number, recipeId: number | null) => void;
+  flashIds?: Set<number>;      // Items just updated by live market events
 }
 
 /**
@@ -46,7 +52,34 @@ function getBestPrice(
   }
 }
 
-export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }: CraftingTreeNodeProps) {
+/**
+ * The optimiser's pick for this node and why
+ */
+function PlanChoice({ plan }: { plan: CraftPlanNode }) {
+  return (
+    <div className="flex items-center gap-2 mt-2 text-xs">
+      <span className={`px-1.5 py-0.5 rounded font-medium ${CRAFT_CHOICE_CLASSES[plan.choice]}`}>
+        {plan.ownedUsed > 0 && plan.choice !== 'owned' ? `庫存+${CRAFT_CHOICE_LABELS[plan.choice]}` : CRAFT_CHOICE_LABELS[plan.choice]}
+      </span>
+      <span className="text-[var(--ffxiv-muted)]">{plan.reason}</span>
+    </div>
+  );
+}
+
+/**
+ * Units the listings can't supply, or units left over from buying whole stacks
+ */
+function ShortfallBadge({ quote }: { quote: BuyQuote | null }) {
+  if (quote && quote.shortfall > 0) {
+    return <span className="text-[var(--ffxiv-warning)] ml-1" title="市場上架數量不足">缺 {quote.shortfall}</span>;
+  }
+  if (quote && quote.surplus > 0) {
+    return <span className="text-[var(--ffxiv-muted)] ml-1" title="整組購買多出的數量">多 {quote.surplus}</span>;
+  }
+  return null;
+}
+
+export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter, plan, recipeChoices, onRecipeChange, flashIds }: CraftingTreeNodeProps) {
   const [isCollapsed, setIsCollapsed] = useState(node.depth > 2);
 
   // Filter children based on showCrystals
@@ -60,7 +93,11 @@ export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }:
 
   // Get best price based on filter
   const bestPrice = getBestPrice(node, qualityFilter);
-  const buyCost = bestPrice.price !== null ? bestPrice.price * node.quantity : null;
+  // Quantities are priced by walking the listings, not at the cheapest unit price
+  const nqQuote = quoteBuy(node, node.quantity, false);
+  const hqQuote = quoteBuy(node, node.quantity, true);
+  const bestQuote = bestPrice.price !== null ? (bestPrice.isHQ ? hqQuote : nqQuote) : null;
+  const buyCost = bestQuote?.cost ?? null;
   const craftCost = node.craftCost;
 
   return (
@@ -71,6 +108,7 @@ export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }:
         bg-[var(--ffxiv-card)] border border-[var(--ffxiv-accent)]
         hover:border-[var(--ffxiv-highlight)] transition-colors
         ${node.depth > 0 ? 'ml-10' : ''}
+        ${flashIds?.has(node.item.id) ? 'market-flash' : ''}
       `}>
         {/* Item icon with tooltip */}
         <ListingsTooltip listings={node.listings} lastUploadTime={node.lastUploadTime}>
@@ -105,7 +143,14 @@ export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }:
               {node.item.name}
             </ItemLink>
             <CopyButton text={node.item.name} />
-            {node.recipe && (
+            {node.recipe && onRecipeChange && getRecipesForItem(node.item.id).length > 1 ? (
+              <RecipeSelect
+                itemId={node.item.id}
+                recipe={node.recipe}
+                manual={recipeChoices?.[node.item.id] !== undefined}
+                onChange={onRecipeChange}
+              />
+            ) : node.recipe && (
               <span className="text-xs text-[var(--ffxiv-muted)]">
                 ({node.recipe.craftTypeName})
               </span>
@@ -121,12 +166,13 @@ export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }:
                   <div className="text-green-400">
                     NQ: {formatPrice(node.marketPriceNQ)}
                     {node.quantity > 1 && (
-                      <span className="text-[var(--ffxiv-muted)]"> x{node.quantity} = {formatPrice(node.marketPriceNQ * node.quantity)}</span>
+                      <span className="text-[var(--ffxiv-muted)]"> x{node.quantity} = {formatPrice(nqQuote!.cost)}</span>
                     )}
                     <span className="text-[var(--ffxiv-muted)]"> gil</span>
                     {node.serverNQ && (
                       <span className="text-[var(--ffxiv-muted)] ml-1">@ {node.serverNQ}</span>
                     )}
+                    <ShortfallBadge quote={nqQuote} />
                   </div>
                 )}
                 {/* HQ Price */}
@@ -134,12 +180,13 @@ export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }:
                   <div className="text-yellow-400">
                     HQ: {formatPrice(node.marketPriceHQ)}
                     {node.quantity > 1 && (
-                      <span className="text-[var(--ffxiv-muted)]"> x{node.quantity} = {formatPrice(node.marketPriceHQ * node.quantity)}</span>
+                      <span className="text-[var(--ffxiv-muted)]"> x{node.quantity} = {formatPrice(hqQuote!.cost)}</span>
                     )}
                     <span className="text-[var(--ffxiv-muted)]"> gil</span>
                     {node.serverHQ && (
                       <span className="text-[var(--ffxiv-muted)] ml-1">@ {node.serverHQ}</span>
                     )}
+                    <ShortfallBadge quote={hqQuote} />
                   </div>
                 )}
               </>
@@ -155,6 +202,7 @@ export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }:
                   {bestPrice.server && (
                     <span className="text-[var(--ffxiv-muted)] ml-1">@ {bestPrice.server}</span>
                   )}
+                  <ShortfallBadge quote={bestQuote} />
                 </div>
               )
             )}
@@ -185,6 +233,8 @@ export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }:
               )}
             </div>
           )}
+
+          {plan && <PlanChoice plan={plan} />}
         </div>
 
         {/* Collapse toggle for nodes with children - right side */}
@@ -214,6 +264,10 @@ export function CraftingTreeNodeComponent({ node, showCrystals, qualityFilter }:
               node={child}
               showCrystals={showCrystals}
               qualityFilter={qualityFilter}
+              plan={plan?.children[node.children.indexOf(child)]}
+              recipeChoices={recipeChoices}
+              onRecipeChange={onRecipeChange}
+              flashIds={flashIds}
             />
           ))}
         </div>
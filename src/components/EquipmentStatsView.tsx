@@ -1,13 +1,45 @@
 // Equipment stats view component - displays weapon/armor stats like Teamcraft
 import type { EquipmentStats, ItemStat } from '../types';
+import {
+  getBaseHqBonus,
+  getEquipValues,
+  getHqBonusMap,
+  LOWER_IS_BETTER,
+  type EquipBaseKey,
+  type EquipValues,
+} from '../utils/equipCompare';
 
 interface EquipmentStatsViewProps {
   equipStats: EquipmentStats;
   canBeHq?: boolean;
   equipLevel?: number;
   itemLevel?: number;
+  // Whether HQ bonuses are shown and counted (defaults to canBeHq)
+  hq?: boolean;
+  // Values of another item to show differences against (compare view)
+  compareTo?: EquipValues;
 }
 
+interface StatCard {
+  key: EquipBaseKey;
+  label: string;
+  format?: (value: number) => string;
+}
+
+const WEAPON_CARDS: StatCard[] = [
+  { key: 'physicalDamage', label: '物理基本性能' },
+  { key: 'magicDamage', label: '魔法基本性能' },
+  { key: 'autoAttack', label: '自動攻擊', format: value => value.toFixed(2) },
+  { key: 'delay', label: '攻擊間隔', format: value => (value / 1000).toFixed(2) },
+];
+
+const DEFENSE_CARDS: StatCard[] = [
+  { key: 'physicalDefense', label: '物理防禦力' },
+  { key: 'magicDefense', label: '魔法防禦力' },
+  { key: 'blockRate', label: '格擋發動力' },
+  { key: 'blockStrength', label: '格擋性能' },
+];
+
 // Stat name translations
 const STAT_NAMES: Record<number, string> = {
   1: '力量',
@@ -154,6 +186,18 @@ function formatStatValue(value: number, hqBonus?: number): React.ReactNode {
   return value;
 }
 
+// Difference against the compared item; green when better, red when worse
+function StatDelta({ delta, lowerIsBetter, format }: { delta: number; lowerIsBetter?: boolean; format?: (value: number) => string }) {
+  if (Math.abs(delta) < 0.005) return null;
+  const better = lowerIsBetter ? delta < 0 : delta > 0;
+  const text = format ? format(Math.abs(delta)) : Math.abs(delta);
+  return (
+    <span className={`text-xs font-medium ${better ? 'text-[var(--ffxiv-success)]' : 'text-[var(--ffxiv-error)]'}`}>
+      {delta > 0 ? '+' : '−'}{text}
+    </span>
+  );
+}
+
 // Get stat name (prefer data name, fallback to our translations)
 function getStatName(stat: ItemStat): string {
   return stat.name || STAT_NAMES[stat.id] || `屬性 ${stat.id}`;
@@ -180,24 +224,54 @@ function JobIcon({ abbr, size = 20 }: { abbr: string; size?: number }) {
   );
 }
 
-export function EquipmentStatsView({ equipStats, canBeHq, equipLevel, itemLevel }: EquipmentStatsViewProps) {
-  const hasWeaponStats = equipStats.physicalDamage || equipStats.magicDamage;
-  const hasDefenseStats = equipStats.physicalDefense || equipStats.magicDefense;
-  const hasStats = equipStats.stats && equipStats.stats.length > 0;
+export function EquipmentStatsView({ equipStats, canBeHq, equipLevel, itemLevel, hq, compareTo }: EquipmentStatsViewProps) {
+  const showHq = !!canBeHq && (hq ?? true);
+  const values = compareTo ? getEquipValues(equipStats, showHq) : null;
 
   // Build HQ bonus lookup
-  const hqBonusMap = new Map<number, number>();
-  if (canBeHq && equipStats.hqStats) {
-    equipStats.hqStats.forEach(stat => {
-      hqBonusMap.set(stat.id, stat.value);
-    });
-  }
+  const hqBonusMap = getHqBonusMap(equipStats, showHq);
+
+  // When comparing, fields only the other item has are shown too (as zero)
+  const isCardShown = (key: EquipBaseKey) =>
+    (equipStats[key] ?? 0) > 0 || (compareTo !== undefined && compareTo.base[key] > 0);
+  const weaponCards = WEAPON_CARDS.filter(card => isCardShown(card.key));
+  const defenseCards = DEFENSE_CARDS.filter(card => isCardShown(card.key));
+  const missingStats = compareTo
+    ? Array.from(compareTo.stats.entries()).filter(([id]) => !equipStats.stats.some(stat => stat.id === id))
+    : [];
+  const hasStats = (equipStats.stats && equipStats.stats.length > 0) || missingStats.length > 0;
 
   // Parse job abbreviations for icons
   const jobAbbrs = equipStats.classJobCategoryName
     ? parseJobAbbreviations(equipStats.classJobCategoryName)
     : [];
 
+  const renderCard = (card: StatCard) => {
+    const value = equipStats[card.key] ?? 0;
+    const hqBonus = card.key === 'autoAttack' || card.key === 'delay' ? undefined : getBaseHqBonus(card.key, hqBonusMap);
+    const format = card.format ?? String;
+    return (
+      <div key={card.key} className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
+        <div className="text-xs text-[var(--ffxiv-muted)]">{card.label}</div>
+        <div className="flex items-baseline gap-2 flex-wrap">
+          <span className="text-lg font-bold text-[var(--ffxiv-text)]">
+            {value > 0 ? format(value) : '-'}
+          </span>
+          {hqBonus !== undefined && value > 0 && (
+            <span className="text-sm text-[var(--ffxiv-highlight)]">(+{hqBonus})</span>
+          )}
+          {values && compareTo && (
+            <StatDelta
+              delta={values.base[card.key] - compareTo.base[card.key]}
+              lowerIsBetter={LOWER_IS_BETTER.has(card.key)}
+              format={card.format}
+            />
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)] overflow-hidden">
       {/* Header */}
@@ -240,62 +314,16 @@ export function EquipmentStatsView({ equipStats, canBeHq, equipLevel, itemLevel
         )}
 
         {/* Weapon stats (Damage, Delay, Auto-attack) */}
-        {hasWeaponStats && (
-          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-            {equipStats.physicalDamage && equipStats.physicalDamage > 0 && (
-              <div className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
-                <div className="text-xs text-[var(--ffxiv-muted)]">物理基本性能</div>
-                <div className="text-lg font-bold text-[var(--ffxiv-text)]">{equipStats.physicalDamage}</div>
-              </div>
-            )}
-            {equipStats.magicDamage && equipStats.magicDamage > 0 && (
-              <div className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
-                <div className="text-xs text-[var(--ffxiv-muted)]">魔法基本性能</div>
-                <div className="text-lg font-bold text-[var(--ffxiv-text)]">{equipStats.magicDamage}</div>
-              </div>
-            )}
-            {equipStats.autoAttack && equipStats.autoAttack > 0 && (
-              <div className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
-                <div className="text-xs text-[var(--ffxiv-muted)]">自動攻擊</div>
-                <div className="text-lg font-bold text-[var(--ffxiv-text)]">{equipStats.autoAttack.toFixed(2)}</div>
-              </div>
-            )}
-            {equipStats.delay && equipStats.delay > 0 && (
-              <div className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
-                <div className="text-xs text-[var(--ffxiv-muted)]">攻擊間隔</div>
-                <div className="text-lg font-bold text-[var(--ffxiv-text)]">{(equipStats.delay / 1000).toFixed(2)}</div>
-              </div>
-            )}
+        {weaponCards.length > 0 && (
+          <div className={`grid grid-cols-2 ${compareTo ? '' : 'sm:grid-cols-4'} gap-3`}>
+            {weaponCards.map(renderCard)}
           </div>
         )}
 
         {/* Defense stats */}
-        {hasDefenseStats && (
-          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-            {equipStats.physicalDefense && equipStats.physicalDefense > 0 && (
-              <div className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
-                <div className="text-xs text-[var(--ffxiv-muted)]">物理防禦力</div>
-                <div className="text-lg font-bold text-[var(--ffxiv-text)]">{equipStats.physicalDefense}</div>
-              </div>
-            )}
-            {equipStats.magicDefense && equipStats.magicDefense > 0 && (
-              <div className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
-                <div className="text-xs text-[var(--ffxiv-muted)]">魔法防禦力</div>
-                <div className="text-lg font-bold text-[var(--ffxiv-text)]">{equipStats.magicDefense}</div>
-              </div>
-            )}
-            {equipStats.blockRate && equipStats.blockRate > 0 && (
-              <div className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
-                <div className="text-xs text-[var(--ffxiv-muted)]">格擋發動力</div>
-                <div className="text-lg font-bold text-[var(--ffxiv-text)]">{equipStats.blockRate}</div>
-              </div>
-            )}
-            {equipStats.blockStrength && equipStats.blockStrength > 0 && (
-              <div className="bg-[var(--ffxiv-bg-tertiary)] rounded p-2">
-                <div className="text-xs text-[var(--ffxiv-muted)]">格擋性能</div>
-                <div className="text-lg font-bold text-[var(--ffxiv-text)]">{equipStats.blockStrength}</div>
-              </div>
-            )}
+        {defenseCards.length > 0 && (
+          <div className={`grid grid-cols-2 ${compareTo ? '' : 'sm:grid-cols-4'} gap-3`}>
+            {defenseCards.map(renderCard)}
           </div>
         )}
 
@@ -303,7 +331,7 @@ export function EquipmentStatsView({ equipStats, canBeHq, equipLevel, itemLevel
         {hasStats && (
           <div className="space-y-2">
             <div className="text-xs text-[var(--ffxiv-muted)] uppercase tracking-wide">屬性</div>
-            <div className="grid grid-cols-2 gap-2">
+            <div className={`grid ${compareTo ? 'grid-cols-1' : 'grid-cols-2'} gap-2`}>
               {equipStats.stats.map((stat) => {
                 const hqBonus = hqBonusMap.get(stat.id);
                 return (
@@ -312,12 +340,31 @@ export function EquipmentStatsView({ equipStats, canBeHq, equipLevel, itemLevel
                     className="flex items-center justify-between px-3 py-2 bg-[var(--ffxiv-bg-tertiary)] rounded"
                   >
                     <span className="text-sm text-[var(--ffxiv-text)]">{getStatName(stat)}</span>
-                    <span className="text-sm font-medium text-[var(--ffxiv-highlight)]">
-                      {formatStatValue(stat.value, hqBonus)}
+                    <span className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-[var(--ffxiv-highlight)]">
+                        {formatStatValue(stat.value, hqBonus)}
+                      </span>
+                      {values && compareTo && (
+                        <StatDelta
+                          delta={(values.stats.get(stat.id)?.value ?? 0) - (compareTo.stats.get(stat.id)?.value ?? 0)}
+                        />
+                      )}
                     </span>
                   </div>
                 );
               })}
+              {missingStats.map(([id, stat]) => (
+                <div
+                  key={id}
+                  className="flex items-center justify-between px-3 py-2 bg-[var(--ffxiv-bg-tertiary)] rounded opacity-70"
+                >
+                  <span className="text-sm text-[var(--ffxiv-muted)]">{stat.name || STAT_NAMES[id] || `屬性 ${id}`}</span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-sm text-[var(--ffxiv-muted)]">-</span>
+                    <StatDelta delta={-stat.value} />
+                  </span>
+                </div>
+              ))}
             </div>
           </div>
         )}
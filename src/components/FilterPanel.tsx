@@ -1,7 +1,8 @@
 // Advanced filter panel component - similar to Teamcraft
 import { useState, useEffect } from 'react';
-import type { SearchFilters, ItemCategory } from '../types';
-import { getAllPatches } from '../services/searchService';
+import type { SearchFilters, ItemCategory, StatFilter } from '../types';
+import { getAllPatches, getEquipStatNames } from '../services/searchService';
+import { ensureFullItemData } from '../hooks/useItemData';
 
 interface FilterPanelProps {
   filters: SearchFilters;
@@ -19,6 +20,13 @@ const RARITY_OPTIONS = [
   { value: 7, label: '粉色' },
 ];
 
+const MATERIA_SLOT_OPTIONS = [1, 2, 3, 4, 5];
+
+const DYE_OPTIONS = [
+  { value: 1, label: '可染色' },
+  { value: 2, label: '2 部位' },
+];
+
 // Category groups for organized dropdown
 const CATEGORY_GROUPS: { name: string; ids: number[] }[] = [
   {
@@ -143,12 +151,19 @@ function getJobIconUrl(abbr: string): string {
 export function FilterPanel({ filters, categories, onFilterChange, onReset }: FilterPanelProps) {
   const [collapsed, setCollapsed] = useState(true);
   const [patches, setPatches] = useState<string[]>([]);
+  const [statNames, setStatNames] = useState<string[]>([]);
 
   // Load available patches
   useEffect(() => {
     setPatches(getAllPatches());
   }, []);
 
+  // Stat names come from the full item data; load it once the panel is opened
+  useEffect(() => {
+    if (collapsed) return;
+    ensureFullItemData().then(() => setStatNames(getEquipStatNames()));
+  }, [collapsed]);
+
   const hasActiveFilters =
     filters.categoryId !== null ||
     filters.minLevel !== 1 ||
@@ -161,7 +176,29 @@ export function FilterPanel({ filters, categories, onFilterChange, onReset }: Fi
     filters.canBeHq !== null ||
     filters.tradeable !== null ||
     filters.rarity !== null ||
-    filters.patch !== null;
+    filters.patch !== null ||
+    filters.statFilters.length > 0 ||
+    filters.minMateriaSlots > 0 ||
+    filters.minDyeCount > 0 ||
+    filters.advancedMelding ||
+    filters.unique !== null;
+
+  const updateStatFilter = (index: number, updates: Partial<StatFilter>) => {
+    onFilterChange({
+      statFilters: filters.statFilters.map((f, i) => (i === index ? { ...f, ...updates } : f)),
+    });
+  };
+
+  const addStatFilter = () => {
+    // Start with the most common stat not already filtered on
+    const stat = statNames.find(name => !filters.statFilters.some(f => f.stat === name));
+    if (!stat) return;
+    onFilterChange({ statFilters: [...filters.statFilters, { stat, min: 0 }] });
+  };
+
+  const removeStatFilter = (index: number) => {
+    onFilterChange({ statFilters: filters.statFilters.filter((_, i) => i !== index) });
+  };
 
   // Toggle job selection
   const toggleJob = (abbr: string) => {
@@ -492,6 +529,117 @@ export function FilterPanel({ filters, categories, onFilterChange, onReset }: Fi
             })}
           </div>
         </div>
+
+        {/* Row 5: Equipment stats */}
+        <div>
+          <label className="block text-xs text-[var(--ffxiv-muted)] mb-1.5">裝備屬性</label>
+          <div className="space-y-2">
+            {filters.statFilters.map((statFilter, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  value={statFilter.stat}
+                  onChange={(e) => updateStatFilter(index, { stat: e.target.value })}
+                  className="flex-1 bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer"
+                >
+                  {/* Keep the current value selectable even before stat names load */}
+                  {!statNames.includes(statFilter.stat) && (
+                    <option value={statFilter.stat}>{statFilter.stat}</option>
+                  )}
+                  {statNames.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-[var(--ffxiv-muted)]">≥</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={statFilter.min}
+                  onChange={(e) => updateStatFilter(index, { min: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-24 bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)]"
+                />
+                <button
+                  onClick={() => removeStatFilter(index)}
+                  className="text-[var(--ffxiv-muted)] hover:text-red-400 px-1"
+                  title="移除條件"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addStatFilter}
+              disabled={statNames.length === 0}
+              className="text-xs text-[var(--ffxiv-accent)] hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              {statNames.length === 0 ? '載入屬性中...' : '+ 新增屬性條件'}
+            </button>
+            <p className="text-xs text-[var(--ffxiv-muted)]">可製作 HQ 的裝備以 HQ 數值比較</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 mt-3">
+            <div>
+              <label className="block text-xs text-[var(--ffxiv-muted)] mb-1.5">魔晶石孔數</label>
+              <select
+                value={filters.minMateriaSlots || ''}
+                onChange={(e) => onFilterChange({ minMateriaSlots: parseInt(e.target.value) || 0 })}
+                className="w-full bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer"
+              >
+                <option value="">不限</option>
+                {MATERIA_SLOT_OPTIONS.map((slots) => (
+                  <option key={slots} value={slots}>
+                    ≥ {slots}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-[var(--ffxiv-muted)] mb-1.5">染色</label>
+              <select
+                value={filters.minDyeCount || ''}
+                onChange={(e) => onFilterChange({ minDyeCount: parseInt(e.target.value) || 0 })}
+                className="w-full bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer"
+              >
+                <option value="">不限</option>
+                {DYE_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {opt.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            <label className="flex items-center gap-2 cursor-pointer px-3 py-1.5 rounded bg-[var(--ffxiv-bg-tertiary)] hover:bg-[var(--ffxiv-card-hover)] transition-colors">
+              <input
+                type="checkbox"
+                checked={filters.advancedMelding}
+                onChange={(e) => onFilterChange({ advancedMelding: e.target.checked })}
+                className="w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-bg-tertiary)] accent-[var(--ffxiv-accent)]"
+              />
+              <span className="text-sm text-[var(--ffxiv-text-secondary)]">可禁斷</span>
+            </label>
+
+            {/* Unique Toggle */}
+            <button
+              onClick={() => {
+                const newValue = filters.unique === null ? true : filters.unique === true ? false : null;
+                onFilterChange({ unique: newValue });
+              }}
+              className={`px-3 py-1.5 text-sm rounded transition-colors ${
+                filters.unique === true
+                  ? 'bg-[var(--ffxiv-accent)] text-white'
+                  : filters.unique === false
+                  ? 'bg-red-900/30 text-red-400'
+                  : 'bg-[var(--ffxiv-bg-tertiary)] text-[var(--ffxiv-text-secondary)]'
+              }`}
+            >
+              {filters.unique === null ? '稀有' : filters.unique ? '稀有' : '非稀有'}
+            </button>
+          </div>
+        </div>
       </div>}
     </div>
   );
@@ -1,59 +1,61 @@
 // Item card component for search results
 import { memo } from 'react';
 import { Link } from 'react-router-dom';
-import type { Item } from '../types';
+import type { Item, SearchMatch, SearchMatchKind } from '../types';
 import { getItemIconUrl } from '../services/xivapiService';
-import { getMultilingualNames } from '../services/searchService';
 import { prefetchItemDetail } from '../prefetch';
 import { CopyButton } from './CopyButton';
 import { AddToPriceListButton } from './AddToPriceListButton';
 import { AlarmButton } from './AlarmButton';
+import { MarketHealthBadge } from './MarketHealth';
 import { getGatheringPointsForItem } from '../hooks/useItemData';
+import type { MarketHealth } from '../utils/marketHealth';
+import { getRarityClass } from '../utils/rarity';
 
 const LANG_FLAGS: Record<string, string> = { en: '🇺🇸', ja: '🇯🇵', cn: '🇨🇳' };
 
+// Short labels explaining how the item matched the query
+const MATCH_LABELS: Record<SearchMatchKind, string> = {
+  exact: '完全符合',
+  prefix: '開頭符合',
+  word: '詞首符合',
+  substring: '部分符合',
+  phonetic: '讀音符合',
+  fuzzy: '近似拼寫',
+  index: '相關',
+};
+
 interface ItemCardProps {
   item: Item;
   query?: string;
+  match?: SearchMatch;
   onSelect?: (id: number) => void;
   isSelected?: boolean;
+  health?: MarketHealth;         // Shown under the tags when the results list has market data
 }
 
-function getRarityClass(rarity: number): string {
-  switch (rarity) {
-    case 1:
-      return 'rarity-common';
-    case 2:
-      return 'rarity-uncommon';
-    case 3:
-      return 'rarity-rare';
-    case 4:
-      return 'rarity-relic';
-    case 7:
-      return 'rarity-aetherial';
-    default:
-      return 'rarity-common';
-  }
+/**
+ * Highlight the first occurrence of the query in a name
+ */
+function highlightQuery(name: string, query?: string) {
+  const q = query?.trim().toLowerCase();
+  if (!q) return name;
+  const index = name.toLowerCase().indexOf(q);
+  if (index === -1) return name;
+  return (
+    <>
+      {name.slice(0, index)}
+      <span className="text-[var(--ffxiv-highlight)]">{name.slice(index, index + q.length)}</span>
+      {name.slice(index + q.length)}
+    </>
+  );
 }
 
-export const ItemCard = memo(function ItemCard({ item, query, onSelect, isSelected }: ItemCardProps) {
+export const ItemCard = memo(function ItemCard({ item, query, match, onSelect, isSelected, health }: ItemCardProps) {
   const iconUrl = getItemIconUrl(item.icon);
 
-  // Find matched non-TC language name
-  const matchedLang = (() => {
-    if (!query || !query.trim()) return null;
-    const q = query.trim().toLowerCase();
-    if (item.name.toLowerCase().includes(q)) return null;
-    const names = getMultilingualNames(item.id);
-    if (!names) return null;
-    for (const lang of ['en', 'ja', 'cn'] as const) {
-      const name = names[lang];
-      if (name && name.toLowerCase().includes(q)) {
-        return { lang, name };
-      }
-    }
-    return null;
-  })();
+  // Show the other-language name when that's what matched
+  const matchedLang = match && match.lang !== 'tc' ? { lang: match.lang, name: match.name } : null;
 
   const baseClassName = `block bg-[var(--ffxiv-card)] border rounded-lg p-3 hover:border-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-card-hover)] transition-all shadow-[var(--ffxiv-shadow-sm)] ${
     isSelected ? 'border-[var(--ffxiv-highlight)] bg-[var(--ffxiv-highlight)]/10' : 'border-[var(--ffxiv-border)]'
@@ -78,8 +80,11 @@ export const ItemCard = memo(function ItemCard({ item, query, onSelect, isSelect
         <div className="flex-1 min-w-0">
           <div className="flex items-center justify-between gap-2">
             <div className="flex items-center gap-1 min-w-0">
-              <h3 className={`font-medium truncate ${getRarityClass(item.rarity)}`}>
-                {item.name}
+              <h3
+                className={`font-medium truncate ${getRarityClass(item.rarity)}`}
+                title={match ? MATCH_LABELS[match.kind] : undefined}
+              >
+                {match?.lang === 'tc' ? highlightQuery(item.name, query) : item.name}
               </h3>
               <CopyButton text={item.name} />
             </div>
@@ -90,7 +95,8 @@ export const ItemCard = memo(function ItemCard({ item, query, onSelect, isSelect
           {matchedLang && (
             <div className="text-xs text-[var(--ffxiv-muted)] truncate">
               <span className="text-sm">{LANG_FLAGS[matchedLang.lang]}</span>{' '}
-              {matchedLang.name}
+              {highlightQuery(matchedLang.name, query)}
+              {match && <span className="ml-1 opacity-70">· {MATCH_LABELS[match.kind]}</span>}
             </div>
           )}
           <div className="mt-1 flex items-center gap-2 text-xs text-[var(--ffxiv-muted)]">
@@ -124,6 +130,7 @@ export const ItemCard = memo(function ItemCard({ item, query, onSelect, isSelect
               ));
             })()}
           </div>
+          {health && <MarketHealthBadge health={health} />}
         </div>
       </div>
   );
@@ -13,26 +13,12 @@ import { CopyButton } from './CopyButton';
 import { EquipmentStatsView } from './EquipmentStatsView';
 import { FoodEffectsView } from './FoodEffectsView';
 import { AddToPriceListButton } from './AddToPriceListButton';
+import { CompareButton } from './CompareButton';
 import { useState, useEffect } from 'react';
 import { useSettings, type TabType } from '../hooks/useSettings';
+import { useSearchHistory } from '../contexts/SearchHistoryContext';
 import type { Item, Recipe, GatheringPoint, ItemSource } from '../types';
-
-function getRarityClass(rarity: number): string {
-  switch (rarity) {
-    case 1:
-      return 'rarity-common';
-    case 2:
-      return 'rarity-uncommon';
-    case 3:
-      return 'rarity-rare';
-    case 4:
-      return 'rarity-relic';
-    case 7:
-      return 'rarity-aetherial';
-    default:
-      return 'rarity-common';
-  }
-}
+import { getRarityClass } from '../utils/rarity';
 
 /**
  * Clean FFXIV client formatting codes from text
@@ -67,6 +53,7 @@ export function ItemDetailContent({ itemId, onClose, isPanel }: ItemDetailConten
   const { points: gatheringData } = useGatheringData();
   const { sources: sourcesData } = useSourcesData();
   const { tabOrder, getDefaultTab } = useSettings();
+  const { addRecentItem } = useSearchHistory();
 
   const [item, setItem] = useState<Item | null>(null);
   const [recipes, setRecipes] = useState<Recipe[]>([]);
@@ -81,6 +68,11 @@ export function ItemDetailContent({ itemId, onClose, isPanel }: ItemDetailConten
     ensureFullItemData().then(() => setFullDataReady(true));
   }, []);
 
+  // Remember viewed items for the search bar's suggestions
+  useEffect(() => {
+    if (itemId) addRecentItem(itemId);
+  }, [itemId, addRecentItem]);
+
   useEffect(() => {
     if (!itemsLoading && itemId) {
       const foundItem = getItemById(itemId);
@@ -203,8 +195,11 @@ export function ItemDetailContent({ itemId, onClose, isPanel }: ItemDetailConten
               })()}
             </div>
 
-            {/* Add to price list button */}
-            <AddToPriceListButton itemId={item.id} variant="button" />
+            {/* Add to price list / compare buttons */}
+            <div className="flex flex-col gap-2">
+              <AddToPriceListButton itemId={item.id} variant="button" />
+              {item.equipStats && <CompareButton itemId={item.id} />}
+            </div>
           </div>
         </div>
 
@@ -1,6 +1,11 @@
 // Item list component for search results
-import type { SearchResult } from '../types';
+import { useMemo, useState } from 'react';
+import type { ResultColumnId, ResultsViewMode, SearchResult, SearchSort } from '../types';
 import { ItemCard } from './ItemCard';
+import { ResultsTable } from './ResultsTable';
+import { useResultPrices } from '../hooks/useResultPrices';
+import { SORT_OPTIONS, DEFAULT_SORT, DEFAULT_SORT_DESC, comparePrices, isSortKey } from '../services/searchSort';
+import { RESULT_COLUMNS, RESULT_COLUMN_GROUPS } from '../utils/resultColumns';
 
 interface ItemListProps {
   results: SearchResult[];
@@ -12,8 +17,29 @@ interface ItemListProps {
   query?: string;
   onItemSelect?: (id: number) => void;
   selectedItemId?: number | null;
+  sort?: SearchSort;
+  onSortChange?: (sort: SearchSort) => void;
+  viewMode?: ResultsViewMode;
+  onViewModeChange?: (mode: ResultsViewMode) => void;
+  columns?: ResultColumnId[];
+  onColumnsChange?: (columns: ResultColumnId[]) => void;
+  showHealth?: boolean;
+  onShowHealthChange?: (show: boolean) => void;
+  maxDataAge?: number | null;
+  onMaxDataAgeChange?: (hours: number | null) => void;
 }
 
+// Market data age limits offered by the staleness filter, in hours
+const DATA_AGE_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 12, label: '12 小時內' },
+  { hours: 24, label: '1 天內' },
+  { hours: 72, label: '3 天內' },
+  { hours: 168, label: '7 天內' },
+];
+
+const selectClassName = 'bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-2 py-1 text-xs text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer';
+const toolbarButtonClassName = 'px-2 py-1 text-xs rounded border border-[var(--ffxiv-border)] bg-[var(--ffxiv-bg-tertiary)] text-[var(--ffxiv-text)] hover:border-[var(--ffxiv-accent)] transition-colors';
+
 export function ItemList({
   results,
   totalResults,
@@ -24,7 +50,42 @@ export function ItemList({
   query,
   onItemSelect,
   selectedItemId,
+  sort = DEFAULT_SORT,
+  onSortChange,
+  viewMode = 'cards',
+  onViewModeChange,
+  columns = [],
+  onColumnsChange,
+  showHealth = false,
+  onShowHealthChange,
+  maxDataAge = null,
+  onMaxDataAgeChange,
 }: ItemListProps) {
+  const [showColumnPicker, setShowColumnPicker] = useState(false);
+
+  // Market data is only fetched when shown, sorted or filtered on
+  const showCardHealth = showHealth && viewMode === 'cards';
+  const needsPrices = hasSearched && (
+    sort.key === 'price' ||
+    (viewMode === 'table' && columns.includes('price')) ||
+    showCardHealth ||
+    maxDataAge !== null
+  );
+  const items = useMemo(() => results.map(result => result.item), [results]);
+  const { prices, health, loading: pricesLoading } = useResultPrices(items, needsPrices);
+
+  // Price and data age aren't known to the search worker, so they order and filter the loaded results only
+  const sortedResults = useMemo(() => {
+    let visible = results;
+    if (maxDataAge !== null && !pricesLoading) {
+      visible = visible.filter(result => {
+        const age = health[result.item.id]?.uploadAgeHours;
+        return age != null && age <= maxDataAge;
+      });
+    }
+    if (sort.key !== 'price') return visible;
+    return [...visible].sort((a, b) => comparePrices(prices[a.item.id], prices[b.item.id], sort.desc));
+  }, [results, sort, prices, health, maxDataAge, pricesLoading]);
   // Initial state - no search performed yet
   if (!hasSearched) {
     return (
@@ -54,7 +115,14 @@ export function ItemList({
           支援繁中、簡中、日文、英文搜尋
         </p>
         <p className="mt-2 text-xs text-[var(--ffxiv-muted)]">
-          💡 可使用追蹤清單比價、採集鬧鐘提醒、製作模擬器
+          進階語法：<code>ilvl:&gt;=690 job:WHM hq craftable patch:7.1 "精金"</code>，
+          <code>-關鍵字</code> 排除，<code>A OR B</code> 任一符合
+        </p>
+        <p className="mt-1 text-xs text-[var(--ffxiv-muted)]">
+          裝備屬性：<code>stat:暴擊&gt;=200 slots:&gt;=2 dye:&gt;=1 overmeld is:unique</code>
+        </p>
+        <p className="mt-2 text-xs text-[var(--ffxiv-muted)]">
+          💡 可使用追蹤清單比價、採集鬧鐘提醒、製作模擬器、裝備比較
         </p>
       </div>
     );
@@ -92,21 +160,150 @@ export function ItemList({
   const total = totalResults ?? results.length;
   const displayCount = results.length;
 
+  const toggleColumn = (id: ResultColumnId) => {
+    if (!onColumnsChange) return;
+    const next = columns.includes(id) ? columns.filter(c => c !== id) : [...columns, id];
+    // Keep the picker's order so the table layout is predictable
+    onColumnsChange(RESULT_COLUMNS.map(column => column.id).filter(c => next.includes(c)));
+  };
+
   return (
     <div className={`space-y-2 transition-opacity duration-150 ${loading ? 'opacity-50' : ''}`}>
-      <div className="text-sm text-[var(--ffxiv-muted)] mb-3 flex items-center gap-2">
+      <div className="text-sm text-[var(--ffxiv-muted)] mb-3 flex flex-wrap items-center gap-2">
         {loading && <div className="animate-spin rounded-full h-4 w-4 border-2 border-[var(--ffxiv-border)] border-t-[var(--ffxiv-accent)]"></div>}
         {hasMore ? (
           <>顯示 {displayCount} / {total} 個物品</>
         ) : (
           <>找到 {total} 個物品</>
         )}
+
+        <div className="ml-auto flex items-center gap-1.5">
+          {onSortChange && (
+            <>
+              <select
+                value={sort.key}
+                onChange={(e) => {
+                  const key = e.target.value;
+                  if (isSortKey(key)) onSortChange({ key, desc: DEFAULT_SORT_DESC[key] });
+                }}
+                className={selectClassName}
+                aria-label="排序方式"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.key} value={option.key}>{option.label}</option>
+                ))}
+              </select>
+              {sort.key !== 'relevance' && (
+                <button
+                  onClick={() => onSortChange({ ...sort, desc: !sort.desc })}
+                  className={toolbarButtonClassName}
+                  title={sort.desc ? '由高到低' : '由低到高'}
+                >
+                  {sort.desc ? '▼' : '▲'}
+                </button>
+              )}
+            </>
+          )}
+          {onMaxDataAgeChange && (
+            <select
+              value={maxDataAge ?? ''}
+              onChange={(e) => onMaxDataAgeChange(e.target.value ? Number(e.target.value) : null)}
+              className={selectClassName}
+              aria-label="市場資料新鮮度"
+            >
+              <option value="">資料不限時間</option>
+              {DATA_AGE_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>資料更新於 {option.label}</option>
+              ))}
+            </select>
+          )}
+          {onShowHealthChange && viewMode === 'cards' && (
+            <button
+              onClick={() => onShowHealthChange(!showHealth)}
+              className={`${toolbarButtonClassName} ${showHealth ? 'border-[var(--ffxiv-accent)] text-[var(--ffxiv-accent)]' : ''}`}
+              title="在卡片上顯示銷量、庫存天數與資料新鮮度"
+            >
+              市場概況
+            </button>
+          )}
+          {onViewModeChange && (
+            <button
+              onClick={() => onViewModeChange(viewMode === 'table' ? 'cards' : 'table')}
+              className={toolbarButtonClassName}
+              title={viewMode === 'table' ? '切換為卡片檢視' : '切換為表格檢視'}
+            >
+              {viewMode === 'table' ? '卡片' : '表格'}
+            </button>
+          )}
+          {viewMode === 'table' && onColumnsChange && (
+            <div className="relative">
+              <button
+                onClick={() => setShowColumnPicker(open => !open)}
+                className={toolbarButtonClassName}
+              >
+                欄位
+              </button>
+              {showColumnPicker && (
+                <div className="absolute right-0 z-20 mt-1 w-56 p-2 bg-[var(--ffxiv-card)] border border-[var(--ffxiv-border)] rounded-lg shadow-[var(--ffxiv-shadow-lg)]">
+                  {RESULT_COLUMN_GROUPS.map(group => (
+                    <div key={group.id} className="mb-2 last:mb-0">
+                      <div className="text-xs text-[var(--ffxiv-muted)] mb-1">{group.label}</div>
+                      {RESULT_COLUMNS.filter(column => column.group === group.id).map(column => (
+                        <label key={column.id} className="flex items-center gap-2 text-xs text-[var(--ffxiv-text)] py-0.5 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={columns.includes(column.id)}
+                            onChange={() => toggleColumn(column.id)}
+                          />
+                          {column.label}
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
       </div>
-      <div className="grid gap-2">
-        {results.map((result) => (
-          <ItemCard key={result.item.id} item={result.item} query={query} onSelect={onItemSelect} isSelected={selectedItemId === result.item.id} />
-        ))}
-      </div>
+      {(sort.key === 'price' || maxDataAge !== null) && hasMore && (
+        <div className="text-xs text-[var(--ffxiv-muted)]">
+          {pricesLoading
+            ? '載入市場價格中...'
+            : sort.key === 'price' ? '價格排序僅套用於已載入的物品' : '資料新鮮度篩選僅套用於已載入的物品'}
+        </div>
+      )}
+      {maxDataAge !== null && !pricesLoading && sortedResults.length < results.length && (
+        <div className="text-xs text-[var(--ffxiv-muted)]">
+          已隱藏 {results.length - sortedResults.length} 個市場資料過舊或沒有市場資料的物品
+        </div>
+      )}
+      {viewMode === 'table' ? (
+        <ResultsTable
+          results={sortedResults}
+          columns={columns}
+          prices={prices}
+          pricesLoading={pricesLoading}
+          sort={sort}
+          onSortChange={onSortChange ?? (() => {})}
+          onItemSelect={onItemSelect}
+          selectedItemId={selectedItemId}
+        />
+      ) : (
+        <div className="grid gap-2">
+          {sortedResults.map((result) => (
+            <ItemCard
+              key={result.item.id}
+              item={result.item}
+              query={query}
+              match={result.match}
+              onSelect={onItemSelect}
+              isSelected={selectedItemId === result.item.id}
+              health={showCardHealth ? health[result.item.id] : undefined}
+            />
+          ))}
+        </div>
+      )}
       {hasMore && onLoadMore && (
         <div className="pt-4 text-center">
           <button
@@ -2,7 +2,10 @@
 import { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import type { ListingInfo } from '../types';
-import { formatPrice } from '../services/universalisApi';
+import { formatPrice, toMillis } from '../services/universalisApi';
+
+// Listings shown; callers pass them all, sorted by price
+const MAX_ROWS = 8;
 
 interface ListingsTooltipProps {
   listings?: ListingInfo[];
@@ -15,7 +18,7 @@ interface ListingsTooltipProps {
  */
 function formatRelativeTime(timestamp: number): string {
   const now = Date.now();
-  const diff = now - timestamp * 1000;
+  const diff = now - toMillis(timestamp);
 
   const minutes = Math.floor(diff / 60000);
   const hours = Math.floor(diff / 3600000);
@@ -26,7 +29,7 @@ function formatRelativeTime(timestamp: number): string {
   if (hours < 24) return `${hours}小時前`;
   if (days < 7) return `${days}天前`;
 
-  return new Date(timestamp * 1000).toLocaleDateString('zh-TW');
+  return new Date(toMillis(timestamp)).toLocaleDateString('zh-TW');
 }
 
 export function ListingsTooltip({ listings, lastUploadTime, children }: ListingsTooltipProps) {
@@ -100,7 +103,7 @@ export function ListingsTooltip({ listings, lastUploadTime, children }: Listings
               </tr>
             </thead>
             <tbody>
-              {listings.map((listing, index) => (
+              {listings.slice(0, MAX_ROWS).map((listing, index) => (
                 <tr
                   key={index}
                   className={`border-b border-[var(--ffxiv-border)]/50 ${
@@ -0,0 +1,40 @@
+// Toggle for live market updates, with the connection state
+import type { LiveStatus } from '../services/marketSocket';
+
+interface LiveMarketToggleProps {
+  live: boolean;
+  status: LiveStatus;
+  onChange: (live: boolean) => void;
+}
+
+const STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: '連線中',
+  open: '即時更新中',
+  closed: '未連線',
+};
+
+const STATUS_COLORS: Record<LiveStatus, string> = {
+  connecting: 'bg-[var(--ffxiv-warning)]',
+  open: 'bg-[var(--ffxiv-success)]',
+  closed: 'bg-[var(--ffxiv-muted)]',
+};
+
+export function LiveMarketToggle({ live, status, onChange }: LiveMarketToggleProps) {
+  return (
+    <label
+      className="flex items-center gap-1.5 text-sm text-[var(--ffxiv-muted)] cursor-pointer select-none"
+      title={live ? STATUS_LABELS[status] : '透過 Universalis WebSocket 即時更新價格'}
+    >
+      <input
+        type="checkbox"
+        checked={live}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-bg-tertiary)] accent-[var(--ffxiv-highlight)]"
+      />
+      即時
+      {live && (
+        <span className={`inline-block w-2 h-2 rounded-full ${STATUS_COLORS[status]} ${status === 'connecting' ? 'animate-pulse' : ''}`} />
+      )}
+    </label>
+  );
+}
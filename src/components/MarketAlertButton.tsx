@@ -0,0 +1,46 @@
+import { Link } from 'react-router-dom';
+import { useMarketAlerts } from '../contexts/MarketAlertContext';
+import type { MarketData } from '../types';
+
+interface MarketAlertButtonProps {
+  itemId: number;
+  server: string;
+  marketData: MarketData | null;
+}
+
+export function MarketAlertButton({ itemId, server, marketData }: MarketAlertButtonProps) {
+  const { rules, addRule } = useMarketAlerts();
+  const count = rules.filter(r => r.itemId === itemId).length;
+
+  // Start from the current cheapest price; the threshold can be tuned on the alerts page
+  const handleAdd = () => {
+    const hq = (marketData?.minPriceHQ ?? 0) > 0;
+    addRule({
+      itemId,
+      kind: 'below',
+      server,
+      quality: hq ? 'hq' : 'any',
+      threshold: (hq ? marketData?.minPriceHQ : marketData?.minPrice) ?? 0,
+      retainerName: '',
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={handleAdd}
+        className="p-1 rounded text-[var(--ffxiv-muted)] hover:text-yellow-400 transition-colors"
+        title="加入價格提醒"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
+        </svg>
+      </button>
+      {count > 0 && (
+        <Link to="/market-alerts" className="text-xs text-yellow-400 hover:underline">
+          {count} 個提醒
+        </Link>
+      )}
+    </div>
+  );
+}
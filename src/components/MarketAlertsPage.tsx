@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMarketAlerts } from '../contexts/MarketAlertContext';
+import { MarketServerSelect } from './MarketServerSelect';
+import { getItemById } from '../services/searchService';
+import { getItemIconUrl } from '../services/xivapiService';
+import { formatPrice, formatRelativeTime } from '../services/universalisApi';
+import type { MarketAlertKind, MarketAlertQuality } from '../utils/marketAlerts';
+
+const inputClass = 'text-xs bg-[var(--ffxiv-card)] border border-[var(--ffxiv-border)] rounded px-1 py-0.5 outline-none focus:border-[var(--ffxiv-accent)]';
+
+export function MarketAlertsPage() {
+  const { rules, statuses, updateRule, removeRule, checkNow, triggeredCount } = useMarketAlerts();
+  const [permission, setPermission] = useState(() => Notification.permission);
+
+  const requestPermission = () => {
+    Notification.requestPermission().then(setPermission);
+  };
+
+  const lastChecked = Object.values(statuses).reduce((latest, s) => Math.max(latest, s.checkedAt), 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-bold">市場提醒</h2>
+          {triggeredCount > 0 && (
+            <span className="text-sm text-yellow-400">● {triggeredCount} 個已觸發</span>
+          )}
+        </div>
+        <div className="flex items-center gap-3 text-sm text-[var(--ffxiv-muted)]">
+          {lastChecked > 0 && <span>上次檢查: {formatRelativeTime(lastChecked)}</span>}
+          <span>共 {rules.length} 個提醒</span>
+          <button
+            onClick={checkNow}
+            disabled={rules.length === 0}
+            className="px-3 py-1 text-sm bg-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent-hover)] text-white rounded transition-colors disabled:opacity-50"
+          >
+            立即檢查
+          </button>
+        </div>
+      </div>
+
+      {/* Notification permission */}
+      {permission !== 'granted' && rules.length > 0 && (
+        <div className="flex items-center justify-between gap-3 p-3 rounded border border-[var(--ffxiv-warning)]/50 text-sm text-[var(--ffxiv-warning)]">
+          <span>
+            {permission === 'denied' ? '瀏覽器已封鎖通知，提醒只會顯示在此頁面' : '尚未允許通知，觸發時無法跳出提醒'}
+          </span>
+          {permission === 'default' && (
+            <button onClick={requestPermission} className="flex-shrink-0 hover:underline">
+              允許通知
+            </button>
+          )}
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <div className="text-center py-12 text-[var(--ffxiv-muted)]">
+          <div className="text-4xl mb-3">💰</div>
+          <p>尚未設定任何市場提醒</p>
+          <p className="text-sm mt-1">在物品的市場價格中點擊鈴鐺圖示即可加入</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => {
+            const item = getItemById(rule.itemId);
+            const status = rule.enabled ? statuses[rule.id] : undefined;
+
+            return (
+              <div
+                key={rule.id}
+                className={`flex items-center gap-3 p-3 rounded-lg border transition-colors ${
+                  status?.met
+                    ? 'border-yellow-500/60 bg-yellow-900/10'
+                    : 'bg-[var(--ffxiv-card)] border-[var(--ffxiv-border)]'
+                } ${rule.enabled ? '' : 'opacity-50'}`}
+              >
+                {/* Enable toggle */}
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-bg-tertiary)] accent-[var(--ffxiv-accent)] flex-shrink-0"
+                  title={rule.enabled ? '停用' : '啟用'}
+                />
+
+                {/* Item icon */}
+                {item && (
+                  <Link to={`/item/${item.id}`} className="flex-shrink-0">
+                    <img src={getItemIconUrl(item.icon)} alt={item.name} className="w-10 h-10 rounded" />
+                  </Link>
+                )}
+
+                {/* Rule */}
+                <div className="flex-1 min-w-0">
+                  {item ? (
+                    <Link
+                      to={`/item/${item.id}`}
+                      className="font-medium truncate hover:text-[var(--ffxiv-accent)] transition-colors"
+                    >
+                      {item.name}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">物品 #{rule.itemId}</span>
+                  )}
+                  <div className="flex items-center gap-2 mt-1 flex-wrap">
+                    <MarketServerSelect
+                      value={rule.server}
+                      onChange={server => updateRule(rule.id, { server })}
+                      className={inputClass}
+                    />
+                    <select
+                      value={rule.quality}
+                      onChange={e => updateRule(rule.id, { quality: e.target.value as MarketAlertQuality })}
+                      className={inputClass}
+                    >
+                      <option value="any">NQ + HQ</option>
+                      <option value="nq">NQ</option>
+                      <option value="hq">HQ</option>
+                    </select>
+                    <select
+                      value={rule.kind}
+                      onChange={e => updateRule(rule.id, { kind: e.target.value as MarketAlertKind })}
+                      className={inputClass}
+                    >
+                      <option value="below">價格低於</option>
+                      <option value="undercut">雇員被削價</option>
+                    </select>
+                    {rule.kind === 'below' ? (
+                      <label className="flex items-center gap-1 text-xs text-[var(--ffxiv-muted)]">
+                        <input
+                          type="number"
+                          min={0}
+                          value={rule.threshold}
+                          onChange={e => updateRule(rule.id, { threshold: Math.max(0, parseInt(e.target.value) || 0) })}
+                          onFocus={e => e.target.select()}
+                          className={`${inputClass} w-24 text-right`}
+                        />
+                        gil
+                      </label>
+                    ) : (
+                      <input
+                        value={rule.retainerName}
+                        onChange={e => updateRule(rule.id, { retainerName: e.target.value })}
+                        placeholder="雇員名稱"
+                        className={`${inputClass} w-28`}
+                      />
+                    )}
+                  </div>
+                </div>
+
+                {/* Current state */}
+                <div className="flex-shrink-0 text-right text-xs min-w-[110px]">
+                  {status ? (
+                    <>
+                      <div className={status.met ? 'text-yellow-400 font-medium' : 'text-[var(--ffxiv-muted)]'}>
+                        {status.price !== null ? `${formatPrice(status.price)} gil` : '無上架'}
+                      </div>
+                      {status.world && (
+                        <div className="text-[var(--ffxiv-accent)]">{status.world}</div>
+                      )}
+                      {rule.kind === 'undercut' && (
+                        <div className="text-[var(--ffxiv-muted)]">
+                          {status.ownPrice !== undefined ? `你的: ${formatPrice(status.ownPrice)} gil` : '找不到雇員上架'}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-[var(--ffxiv-muted)]">{rule.enabled ? '檢查中...' : '已停用'}</span>
+                  )}
+                </div>
+
+                {/* Remove */}
+                <button
+                  onClick={() => removeRule(rule.id)}
+                  className="flex-shrink-0 p-1 text-[var(--ffxiv-muted)] hover:text-red-400 transition-colors"
+                  title="移除提醒"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-[var(--ffxiv-muted)]">
+        每 5 分鐘檢查一次，只比對每個物品最便宜的 20 筆上架；頁面關閉時不會檢查。
+      </p>
+    </div>
+  );
+}
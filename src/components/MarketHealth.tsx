@@ -0,0 +1,99 @@
+// Market health summary (item detail) and compact badge (search result cards)
+import { useMemo } from 'react';
+import type { MarketData } from '../types';
+import { formatRelativeTime } from '../services/universalisApi';
+import {
+  getMarketHealth,
+  formatDays,
+  STALENESS_LABELS,
+  STALENESS_COLORS,
+  type MarketHealth,
+} from '../utils/marketHealth';
+
+function formatVelocity(velocity: number): string {
+  return velocity >= 10 ? Math.round(velocity).toString() : velocity.toFixed(1);
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+interface MarketHealthSummaryProps {
+  data: MarketData;
+}
+
+export function MarketHealthSummary({ data }: MarketHealthSummaryProps) {
+  const health = useMemo(() => getMarketHealth(data), [data]);
+
+  const stats: { label: string; value: string; hint: string }[] = [
+    {
+      label: '日銷量',
+      value: formatVelocity(health.velocity),
+      hint: '近期平均每天售出的數量',
+    },
+    {
+      label: '庫存天數',
+      value: health.daysOfSupply !== null ? formatDays(health.daysOfSupply) : '賣不動',
+      hint: `目前上架 ${health.unitsForSale} 個，以目前銷量賣完所需時間`,
+    },
+    {
+      label: '週銷售率',
+      value: health.sellThrough !== null ? formatPercent(health.sellThrough) : '-',
+      hint: '一週內售出數量 / (上架數量 + 一週內售出數量)',
+    },
+    {
+      label: '常見堆疊',
+      value: health.typicalStackSize !== null ? `x${health.typicalStackSize}` : '-',
+      hint: '上架中最常見的單筆數量',
+    },
+    {
+      label: '價差',
+      value: health.priceSpread !== null ? `+${formatPercent(health.priceSpread)}` : '-',
+      hint: '上架中位價比最低價高出多少',
+    },
+  ];
+
+  return (
+    <div className="bg-[var(--ffxiv-card)] rounded p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-xs text-[var(--ffxiv-muted)]">市場概況</div>
+        {health.staleness && data.lastUploadTime && (
+          <div className="flex items-center gap-1.5 text-xs" style={{ color: STALENESS_COLORS[health.staleness] }}>
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STALENESS_COLORS[health.staleness] }} />
+            {STALENESS_LABELS[health.staleness]} · {formatRelativeTime(data.lastUploadTime)}
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-3 sm:grid-cols-5 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} title={stat.hint}>
+            <div className="text-xs text-[var(--ffxiv-muted)]">{stat.label}</div>
+            <div className="text-sm font-medium text-[var(--ffxiv-text)]">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface MarketHealthBadgeProps {
+  health: MarketHealth;
+}
+
+export function MarketHealthBadge({ health }: MarketHealthBadgeProps) {
+  const color = health.staleness ? STALENESS_COLORS[health.staleness] : 'var(--ffxiv-muted)';
+  const age = health.uploadAgeHours !== null ? formatDays(health.uploadAgeHours / 24) : null;
+
+  return (
+    <div className="mt-1 flex items-center gap-2 text-xs text-[var(--ffxiv-muted)]">
+      <span
+        className="w-2 h-2 rounded-full flex-shrink-0"
+        style={{ backgroundColor: color }}
+        title={health.staleness ? `${STALENESS_LABELS[health.staleness]}${age ? ` (${age}前)` : ''}` : '沒有市場資料'}
+      />
+      <span>日銷 {formatVelocity(health.velocity)}</span>
+      <span>庫存 {health.daysOfSupply !== null ? formatDays(health.daysOfSupply) : '賣不動'}</span>
+      {health.sellThrough !== null && <span>週銷 {formatPercent(health.sellThrough)}</span>}
+    </div>
+  );
+}
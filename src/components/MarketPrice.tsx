@@ -1,16 +1,24 @@
 // Market price component
-import { useMarketData, useWorldSelector } from '../hooks/useMarketData';
+import { lazy, Suspense } from 'react';
+import { useMarketData } from '../hooks/useMarketData';
+import { MarketServerSelect } from './MarketServerSelect';
+import { LiveMarketToggle } from './LiveMarketToggle';
+import { MarketAlertButton } from './MarketAlertButton';
+import { RetainerTrackButton } from './RetainerTrackButton';
+import { MarketHealthSummary } from './MarketHealth';
 import { formatPrice, formatDateTime, formatRelativeTime } from '../services/universalisApi';
 
+// recharts is large, so the charts load only when a market tab opens
+const PriceHistoryChart = lazy(() => import('./PriceHistoryChart').then(m => ({ default: m.PriceHistoryChart })));
+
 interface MarketPriceProps {
   itemId: number;
   isUntradable?: boolean;
 }
 
 export function MarketPrice({ itemId, isUntradable }: MarketPriceProps) {
-  const { marketData, loading, error, selectedWorld, setSelectedWorld, refresh } =
+  const { marketData, loading, error, selectedWorld, setSelectedWorld, refresh, live, setLive, liveStatus, flashing } =
     useMarketData(itemId);
-  const { dataCenters } = useWorldSelector();
 
   if (isUntradable) {
     return (
@@ -26,32 +34,24 @@ export function MarketPrice({ itemId, isUntradable }: MarketPriceProps) {
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-2">
           <label className="text-sm text-[var(--ffxiv-muted)]">伺服器:</label>
-          <select
+          <MarketServerSelect
             value={selectedWorld}
-            onChange={(e) => setSelectedWorld(e.target.value)}
+            onChange={setSelectedWorld}
             className="bg-[var(--ffxiv-card)] border border-[var(--ffxiv-accent)] rounded px-2 py-1 text-sm focus:outline-none focus:border-[var(--ffxiv-highlight)]"
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <MarketAlertButton itemId={itemId} server={selectedWorld} marketData={marketData} />
+          <RetainerTrackButton itemId={itemId} />
+          <LiveMarketToggle live={live} status={liveStatus} onChange={setLive} />
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="text-sm text-[var(--ffxiv-highlight)] hover:underline disabled:opacity-50"
           >
-            {dataCenters.map((dc) => (
-              <optgroup key={dc.name} label={dc.region}>
-                <option value={dc.name}>
-                  {dc.name} (全伺服器)
-                </option>
-                {dc.worlds.map((world) => (
-                  <option key={world.id} value={world.name}>
-                    {world.name}
-                  </option>
-                ))}
-              </optgroup>
-            ))}
-          </select>
+            {loading ? '載入中...' : '重新整理'}
+          </button>
         </div>
-        <button
-          onClick={refresh}
-          disabled={loading}
-          className="text-sm text-[var(--ffxiv-highlight)] hover:underline disabled:opacity-50"
-        >
-          {loading ? '載入中...' : '重新整理'}
-        </button>
       </div>
 
       {/* Loading state */}
@@ -71,13 +71,13 @@ export function MarketPrice({ itemId, isUntradable }: MarketPriceProps) {
         <div className="space-y-4">
           {/* Price summary */}
           <div className="grid grid-cols-2 gap-4">
-            <div className="bg-[var(--ffxiv-card)] rounded p-3">
+            <div className={`bg-[var(--ffxiv-card)] rounded p-3 ${flashing ? 'market-flash' : ''}`}>
               <div className="text-xs text-[var(--ffxiv-muted)] mb-1">最低價格 (NQ)</div>
               <div className="text-lg font-medium text-green-400">
                 {marketData.minPriceNQ > 0 ? `${formatPrice(marketData.minPriceNQ)} gil` : '-'}
               </div>
             </div>
-            <div className="bg-[var(--ffxiv-card)] rounded p-3">
+            <div className={`bg-[var(--ffxiv-card)] rounded p-3 ${flashing ? 'market-flash' : ''}`}>
               <div className="text-xs text-[var(--ffxiv-muted)] mb-1">最低價格 (HQ)</div>
               <div className="text-lg font-medium text-yellow-400">
                 {marketData.minPriceHQ > 0 ? `${formatPrice(marketData.minPriceHQ)} gil` : '-'}
@@ -85,6 +85,9 @@ export function MarketPrice({ itemId, isUntradable }: MarketPriceProps) {
             </div>
           </div>
 
+          {/* Sale velocity, supply and data age */}
+          <MarketHealthSummary data={marketData} />
+
           {/* Listings */}
           {marketData.listings && marketData.listings.length > 0 && (
             <div>
@@ -187,6 +190,11 @@ export function MarketPrice({ itemId, isUntradable }: MarketPriceProps) {
             </div>
           )}
 
+          {/* Price history */}
+          <Suspense fallback={null}>
+            <PriceHistoryChart itemId={itemId} world={selectedWorld} />
+          </Suspense>
+
           {/* Last update time */}
           {marketData.lastUploadTime && (
             <div className="text-xs text-[var(--ffxiv-muted)] text-right">
@@ -0,0 +1,42 @@
+// Select for the market server: a whole region, a data center or a single world
+import { useWorldSelector } from '../hooks/useMarketData';
+import { getRegionLabel } from '../services/worldData';
+
+interface MarketServerSelectProps {
+  value: string;
+  onChange: (server: string) => void;
+  className?: string;
+}
+
+export function MarketServerSelect({ value, onChange, className = '' }: MarketServerSelectProps) {
+  const { dataCenters, regions } = useWorldSelector();
+  const isKnown = regions.includes(value) || dataCenters.some(dc => dc.name === value || dc.worlds.some(w => w.name === value));
+
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={className}>
+      {/* Keep a saved server selectable while the list loads */}
+      {!isKnown && <option value={value}>{value}</option>}
+      {regions.length > 0 && (
+        <optgroup label="跨資料中心">
+          {regions.map(region => (
+            <option key={region} value={region}>
+              {getRegionLabel(region)} (全區)
+            </option>
+          ))}
+        </optgroup>
+      )}
+      {dataCenters.map((dc) => (
+        <optgroup key={dc.name} label={`${getRegionLabel(dc.region)} · ${dc.name}`}>
+          <option value={dc.name}>
+            {dc.name} (全伺服器)
+          </option>
+          {dc.worlds.map((world) => (
+            <option key={world.id} value={world.name}>
+              {world.name}
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+}
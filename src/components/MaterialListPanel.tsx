@@ -0,0 +1,210 @@
+// Shopping and gathering list for a crafting project: what to buy, gather, farm and craft, net of owned stock
+import { useState, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import type { CraftingTreeNode } from '../types';
+import type { QualityFilter } from '../utils/craftingTree';
+import { useGatheringData, useSourcesData } from '../hooks/useItemData';
+import { getItemById } from '../services/searchService';
+import { getItemIconUrl } from '../services/xivapiService';
+import { formatPrice } from '../services/universalisApi';
+import {
+  buildMaterialList,
+  describeLineDetail,
+  formatMaterialListText,
+  getMaterialLineKey,
+  MATERIAL_STEP_KINDS,
+  MATERIAL_STEP_LABELS,
+} from '../utils/materialList';
+import { CopyButton } from './CopyButton';
+
+const STORAGE_PREFIX = 'ffxiv-material-list-checked-';
+
+function loadChecked(storageKey: string): Set<string> {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + storageKey);
+    return new Set(raw ? JSON.parse(raw) : []);
+  } catch {
+    return new Set();
+  }
+}
+
+function saveChecked(storageKey: string, checked: Set<string>) {
+  localStorage.setItem(STORAGE_PREFIX + storageKey, JSON.stringify([...checked]));
+}
+
+function getItemName(itemId: number): string {
+  return getItemById(itemId)?.name ?? `#${itemId}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+interface MaterialListPanelProps {
+  trees: CraftingTreeNode[];
+  ownedMaterials: Record<number, number>;
+  customPrices: Record<number, number>;
+  qualityFilter: QualityFilter;
+  showCrystals: boolean;
+  storageKey: string;             // Which project the checked lines belong to; remount with key= to switch
+  title?: string;
+}
+
+export function MaterialListPanel({ trees, ownedMaterials, customPrices, qualityFilter, showCrystals, storageKey, title }: MaterialListPanelProps) {
+  const { points } = useGatheringData();
+  const { sources } = useSourcesData();
+  const [gatherWhenPossible, setGatherWhenPossible] = useState(false);
+  const [checkedKeys, setCheckedKeys] = useState(() => loadChecked(storageKey));
+
+  const lines = useMemo(
+    () => buildMaterialList(
+      trees,
+      ownedMaterials,
+      customPrices,
+      {
+        getSources: (itemId) => sources[itemId] ?? [],
+        getGatheringPoints: (itemId) => points[itemId] ?? [],
+      },
+      { qualityFilter, gatherWhenPossible, showCrystals }
+    ),
+    [trees, ownedMaterials, customPrices, qualityFilter, gatherWhenPossible, showCrystals, points, sources]
+  );
+
+  const text = useMemo(() => formatMaterialListText(lines, getItemName, checkedKeys), [lines, checkedKeys]);
+
+  const toggleLine = useCallback((key: string) => {
+    setCheckedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      saveChecked(storageKey, next);
+      return next;
+    });
+  }, [storageKey]);
+
+  const clearChecked = useCallback(() => {
+    saveChecked(storageKey, new Set());
+    setCheckedKeys(new Set());
+  }, [storageKey]);
+
+  const handlePrint = useCallback(() => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.write(
+      `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title ?? '素材清單')}</title>` +
+      '<style>body{font-family:sans-serif;padding:16px}pre{font-family:inherit;font-size:14px;line-height:1.6;white-space:pre-wrap}</style>' +
+      `</head><body><pre>${escapeHtml(text)}</pre></body></html>`
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  }, [text, title]);
+
+  const totalCost = lines.reduce((sum, line) => sum + (line.cost ?? 0), 0);
+
+  return (
+    <div className="p-4 mb-4 bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
+        <h2 className="text-base font-bold text-[var(--ffxiv-text)]">{title ?? '素材清單'}</h2>
+        <div className="flex items-center gap-4 flex-wrap text-sm">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={gatherWhenPossible}
+              onChange={(e) => setGatherWhenPossible(e.target.checked)}
+              className="w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-card)] text-[var(--ffxiv-highlight)] focus:ring-[var(--ffxiv-highlight)]"
+            />
+            <span className="text-[var(--ffxiv-muted)]">可採集的材料自己採集</span>
+          </label>
+          {checkedKeys.size > 0 && (
+            <button onClick={clearChecked} className="text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-text)] hover:underline">
+              清除勾選
+            </button>
+          )}
+          <span className="flex items-center gap-1 text-[var(--ffxiv-highlight)]">
+            <CopyButton text={text} />
+            複製文字
+          </span>
+          <button onClick={handlePrint} disabled={lines.length === 0} className="text-[var(--ffxiv-highlight)] hover:underline disabled:opacity-50">
+            列印
+          </button>
+        </div>
+      </div>
+
+      {lines.length === 0 ? (
+        <div className="text-sm text-[var(--ffxiv-muted)]">庫存已足夠，沒有需要準備的材料</div>
+      ) : (
+        <>
+          {totalCost > 0 && (
+            <div className="text-sm text-[var(--ffxiv-muted)] mb-4">
+              購買合計約 <span className="font-medium text-[var(--ffxiv-highlight)]">{formatPrice(totalCost)}</span> gil
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {MATERIAL_STEP_KINDS.map(kind => {
+              const kindLines = lines.filter(line => line.kind === kind);
+              if (kindLines.length === 0) return null;
+              const done = kindLines.filter(line => checkedKeys.has(getMaterialLineKey(line))).length;
+              return (
+                <div key={kind} className="bg-[var(--ffxiv-card)] rounded-lg border border-[var(--ffxiv-border)]">
+                  <div className="flex items-center justify-between px-3 py-2 border-b border-[var(--ffxiv-border)]">
+                    <span className="text-sm font-medium text-[var(--ffxiv-text)]">{MATERIAL_STEP_LABELS[kind]}</span>
+                    <span className="text-xs text-[var(--ffxiv-muted)]">{done}/{kindLines.length}</span>
+                  </div>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {kindLines.map(line => {
+                        const key = getMaterialLineKey(line);
+                        const isChecked = checkedKeys.has(key);
+                        const item = getItemById(line.itemId);
+                        return (
+                          <tr
+                            key={key}
+                            className={`border-b border-[var(--ffxiv-border)] last:border-b-0 ${isChecked ? 'opacity-50' : ''}`}
+                          >
+                            <td className="pl-3 py-1.5 w-6">
+                              <input
+                                type="checkbox"
+                                checked={isChecked}
+                                onChange={() => toggleLine(key)}
+                                className="w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-card)] text-[var(--ffxiv-highlight)] focus:ring-[var(--ffxiv-highlight)]"
+                              />
+                            </td>
+                            <td className="px-3 py-1.5">
+                              <Link to={`/item/${line.itemId}`} className="flex items-center gap-2 hover:text-[var(--ffxiv-highlight)]">
+                                <img
+                                  src={getItemIconUrl(item?.icon ?? 0)}
+                                  alt={item?.name ?? ''}
+                                  className="w-6 h-6 object-contain"
+                                  onError={(e) => {
+                                    (e.target as HTMLImageElement).src = getItemIconUrl(0);
+                                  }}
+                                />
+                                <span className={`truncate ${isChecked ? 'line-through' : ''}`}>{getItemName(line.itemId)}</span>
+                              </Link>
+                            </td>
+                            <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                              {line.quantity}
+                              {line.owned > 0 && (
+                                <span className="ml-1 text-xs text-[var(--ffxiv-muted)]">(已有 {line.owned})</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-1.5 text-[var(--ffxiv-muted)]">{describeLineDetail(line)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,13 @@ import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import type { PriceCheckListItemData } from '../hooks/usePriceCheckListData';
 import type { QualityFilter } from '../hooks/useCraftingTree';
+import type { CraftingTreeNode } from '../types';
 import { getItemIconUrl } from '../services/xivapiService';
 import { formatPrice, formatRelativeTime } from '../services/universalisApi';
 import { CraftingTreeNodeComponent } from './CraftingTreeNode';
 import { CopyButton } from './CopyButton';
 import { ListingsTooltip } from './ListingsTooltip';
+import { getRarityClass } from '../utils/rarity';
 
 interface PriceCheckListItemProps {
   data: PriceCheckListItemData;
@@ -18,23 +20,14 @@ interface PriceCheckListItemProps {
   onCustomPriceChange: (itemId: number, price: number) => void;
   onCustomPriceClear: (itemId: number) => void;
   showCustomPrices: boolean;
+  flashIds?: Set<number>;      // Items just updated by live market events
 }
 
-function getRarityClass(rarity: number): string {
-  switch (rarity) {
-    case 1:
-      return 'rarity-common';
-    case 2:
-      return 'rarity-uncommon';
-    case 3:
-      return 'rarity-rare';
-    case 4:
-      return 'rarity-relic';
-    case 7:
-      return 'rarity-aetherial';
-    default:
-      return 'rarity-common';
-  }
+/**
+ * Whether any item in the tree was just updated
+ */
+function treeHasFlash(node: CraftingTreeNode, flashIds: Set<number>): boolean {
+  return flashIds.has(node.item.id) || node.children.some(child => treeHasFlash(child, flashIds));
 }
 
 export function PriceCheckListItemComponent({
@@ -46,10 +39,11 @@ export function PriceCheckListItemComponent({
   onCustomPriceChange,
   onCustomPriceClear,
   showCustomPrices,
+  flashIds,
 }: PriceCheckListItemProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const { item, tree, totalCraftCost, totalBuyCostHQ } = data;
+  const { item, tree, totalCraftCost, totalBuyCostHQ, buyShortfallHQ } = data;
 
   if (!item) {
     return (
@@ -62,11 +56,12 @@ export function PriceCheckListItemComponent({
   const iconUrl = getItemIconUrl(item.icon);
   const hasTree = tree && tree.children.length > 0;
   const craftSavings = totalBuyCostHQ - totalCraftCost;
+  const flashing = !!flashIds && flashIds.size > 0 && (tree ? treeHasFlash(tree, flashIds) : flashIds.has(item.id));
 
   return (
     <div className="bg-[var(--ffxiv-card)] rounded-lg border border-[var(--ffxiv-border)] overflow-hidden">
       {/* Main item row */}
-      <div className="p-3">
+      <div className={`p-3 ${flashing ? 'market-flash' : ''}`}>
         <div className="flex items-start gap-3">
           {/* Expand toggle */}
           {hasTree && (
@@ -148,6 +143,9 @@ export function PriceCheckListItemComponent({
               {totalBuyCostHQ > 0 && (
                 <div className={item && customPrices[item.id] !== undefined ? 'text-orange-400' : 'text-yellow-400'}>
                   {item && customPrices[item.id] !== undefined ? '自訂' : '直購HQ'}: {formatPrice(totalBuyCostHQ)} gil
+                  {buyShortfallHQ > 0 && (
+                    <span className="text-[var(--ffxiv-warning)] ml-1" title="市場上架數量不足">缺 {buyShortfallHQ}</span>
+                  )}
                 </div>
               )}
               {totalCraftCost > 0 && (
@@ -199,6 +197,7 @@ export function PriceCheckListItemComponent({
                 node={child}
                 showCrystals={showCrystals}
                 qualityFilter={qualityFilter}
+                flashIds={flashIds}
               />
             ))}
           </div>
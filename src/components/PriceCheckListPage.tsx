@@ -1,12 +1,17 @@
 // Price check list page component
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { usePriceCheckList } from '../hooks/usePriceCheckList';
 import { usePriceCheckListData, type QualityFilter } from '../hooks/usePriceCheckListData';
 import { useOwnedMaterials } from '../hooks/useOwnedMaterials';
 import { useCustomPrices } from '../hooks/useCustomPrices';
+import { useRecipeChoices } from '../hooks/useRecipeChoices';
 import { PriceCheckListItemComponent } from './PriceCheckListItem';
 import { PriceCheckTreeView } from './PriceCheckTreeView';
+import { LiveMarketToggle } from './LiveMarketToggle';
+import { ShoppingRoutePanel } from './ShoppingRoutePanel';
+import { MaterialListPanel } from './MaterialListPanel';
+import { CraftQueuePanel } from './CraftQueuePanel';
 import type { ImportMode } from '../contexts/PriceCheckListContext';
 import type { PriceCheckListItem } from '../types';
 
@@ -15,13 +20,17 @@ type ViewMode = 'list' | 'tree';
 export function PriceCheckListPage() {
   const navigate = useNavigate();
   const { list, removeItem, clearList, updateQuantity, importList } = usePriceCheckList();
-  const { ownedMaterials, setOwned, clearAll: clearOwned } = useOwnedMaterials();
+  const { ownedMaterials, setOwned, adjustOwned, clearAll: clearOwned } = useOwnedMaterials();
   const { customPrices, setCustomPrice, clearCustomPrice, clearAll: clearCustomPrices } = useCustomPrices();
+  const { recipeChoices, setRecipeChoice, selectRecipe } = useRecipeChoices();
   const [showCrystals, setShowCrystals] = useState(false);
   const [showOwned, setShowOwned] = useState(false);
   const [showCustomPrices, setShowCustomPrices] = useState(false);
   const [qualityFilter, setQualityFilter] = useState<QualityFilter>('both');
   const [viewMode, setViewMode] = useState<ViewMode>('tree');
+  const [showRoute, setShowRoute] = useState(false);
+  const [showMaterialList, setShowMaterialList] = useState(false);
+  const [showCraftQueue, setShowCraftQueue] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [importText, setImportText] = useState('');
@@ -112,7 +121,16 @@ export function PriceCheckListPage() {
     loading,
     error,
     refresh,
-  } = usePriceCheckListData(list, showCrystals, qualityFilter, customPrices);
+    live,
+    setLive,
+    liveStatus,
+    flashIds,
+  } = usePriceCheckListData(list, showCrystals, qualityFilter, customPrices, selectRecipe);
+
+  const listTrees = useMemo(
+    () => items.flatMap(data => (data.tree ? [data.tree] : [])),
+    [items]
+  );
 
   return (
     <div className="max-w-5xl mx-auto">
@@ -253,14 +271,35 @@ export function PriceCheckListPage() {
             </label>
           </div>
 
-          {/* Refresh button */}
-          <button
-            onClick={refresh}
-            disabled={loading}
-            className="text-sm text-[var(--ffxiv-highlight)] hover:underline disabled:opacity-50"
-          >
-            {loading ? '載入中...' : '重新整理價格'}
-          </button>
+          {/* Route, live toggle and refresh button */}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowRoute(!showRoute)}
+              className={`text-sm hover:underline ${showRoute ? 'text-[var(--ffxiv-accent)]' : 'text-[var(--ffxiv-highlight)]'}`}
+            >
+              採購路線
+            </button>
+            <button
+              onClick={() => setShowMaterialList(!showMaterialList)}
+              className={`text-sm hover:underline ${showMaterialList ? 'text-[var(--ffxiv-accent)]' : 'text-[var(--ffxiv-highlight)]'}`}
+            >
+              素材清單
+            </button>
+            <button
+              onClick={() => setShowCraftQueue(!showCraftQueue)}
+              className={`text-sm hover:underline ${showCraftQueue ? 'text-[var(--ffxiv-accent)]' : 'text-[var(--ffxiv-highlight)]'}`}
+            >
+              製作順序
+            </button>
+            <LiveMarketToggle live={live} status={liveStatus} onChange={setLive} />
+            <button
+              onClick={refresh}
+              disabled={loading}
+              className="text-sm text-[var(--ffxiv-highlight)] hover:underline disabled:opacity-50"
+            >
+              {loading ? '載入中...' : '重新整理價格'}
+            </button>
+          </div>
         </div>
       )}
 
@@ -298,6 +337,30 @@ export function PriceCheckListPage() {
       {/* Content based on view mode */}
       {!loading && list.length > 0 && (
         <>
+          {showRoute && (
+            <ShoppingRoutePanel items={items} ownedMaterials={ownedMaterials} customPrices={customPrices} />
+          )}
+          {showMaterialList && (
+            <MaterialListPanel
+              trees={listTrees}
+              ownedMaterials={ownedMaterials}
+              customPrices={customPrices}
+              qualityFilter={qualityFilter}
+              showCrystals={showCrystals}
+              storageKey="price-check-list"
+            />
+          )}
+          {showCraftQueue && (
+            <CraftQueuePanel
+              trees={listTrees}
+              ownedMaterials={ownedMaterials}
+              onOwnedAdjust={adjustOwned}
+              customPrices={customPrices}
+              qualityFilter={qualityFilter}
+              showCrystals={showCrystals}
+              storageKey="price-check-list"
+            />
+          )}
           {viewMode === 'list' ? (
             <div className="space-y-3">
               {items.map((data) => (
@@ -311,6 +374,7 @@ export function PriceCheckListPage() {
                   onCustomPriceChange={setCustomPrice}
                   onCustomPriceClear={clearCustomPrice}
                   showCustomPrices={showCustomPrices}
+                  flashIds={flashIds}
                 />
               ))}
             </div>
@@ -329,6 +393,9 @@ export function PriceCheckListPage() {
               onCustomPriceClear={clearCustomPrice}
               onCustomPricesClear={clearCustomPrices}
               showCustomPrices={showCustomPrices}
+              recipeChoices={recipeChoices}
+              onRecipeChange={setRecipeChoice}
+              flashIds={flashIds}
             />
           )}
         </>
@@ -1,13 +1,17 @@
 // Tree view component showing aggregated materials with dependencies
 import { useMemo, useState, useRef, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
-import type { CraftingTreeNode, Item, ListingInfo } from '../types';
+import type { CraftingTreeNode, Item, ListingInfo, Recipe } from '../types';
 import type { PriceCheckListItemData } from '../hooks/usePriceCheckListData';
 import type { QualityFilter } from '../hooks/useCraftingTree';
 import { getItemIconUrl } from '../services/xivapiService';
 import { formatPrice } from '../services/universalisApi';
+import { CRYSTAL_IDS } from '../utils/craftingTree';
+import { quoteBuy } from '../utils/listingCost';
 import { ListingsTooltip } from './ListingsTooltip';
 import { CopyButton } from './CopyButton';
+import { RecipeSelect } from './RecipeSelect';
+import { getRarityClass } from '../utils/rarity';
 
 interface PriceCheckTreeViewProps {
   items: PriceCheckListItemData[];
@@ -23,6 +27,9 @@ interface PriceCheckTreeViewProps {
   onCustomPriceClear: (itemId: number) => void;
   onCustomPricesClear: () => void;
   showCustomPrices: boolean;
+  recipeChoices: Record<number, number>;
+  onRecipeChange: (itemId: number, recipeId: number | null) => void;
+  flashIds?: Set<number>;      // Items just updated by live market events
 }
 
 type MaterialStatus = 'green' | 'yellow' | 'red' | 'gray';
@@ -45,15 +52,13 @@ interface AggregatedMaterial {
   craftCost: number | null;
   depth: number;
   hasRecipe: boolean;
+  recipe: Recipe | null;
   listings?: ListingInfo[];
   lastUploadTime?: number;
   // Track direct parents for line drawing
   directParents: { parentId: number; rootId: number }[];
 }
 
-// Crystal item IDs (2-19)
-const CRYSTAL_IDS = new Set([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
-
 // Color palette for root items
 const ROOT_COLORS = [
   '#f87171', // red
@@ -123,6 +128,7 @@ function collectMaterials(
         craftCost: child.craftCost,
         depth,
         hasRecipe: child.recipe !== null && child.children.length > 0,
+        recipe: child.recipe,
         listings: child.listings,
         lastUploadTime: child.lastUploadTime,
         directParents: [{ parentId: directParentId, rootId: rootItemId }],
@@ -165,18 +171,7 @@ function getBestPrice(
   }
 }
 
-function getRarityClass(rarity: number): string {
-  switch (rarity) {
-    case 1: return 'rarity-common';
-    case 2: return 'rarity-uncommon';
-    case 3: return 'rarity-rare';
-    case 4: return 'rarity-relic';
-    case 7: return 'rarity-aetherial';
-    default: return 'rarity-common';
-  }
-}
-
-export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMaterials, onOwnedChange, onOwnedClear, onQuantityChange, showOwned, customPrices, onCustomPriceChange, onCustomPriceClear, onCustomPricesClear, showCustomPrices }: PriceCheckTreeViewProps) {
+export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMaterials, onOwnedChange, onOwnedClear, onQuantityChange, showOwned, customPrices, onCustomPriceChange, onCustomPriceClear, onCustomPricesClear, showCustomPrices, recipeChoices, onRecipeChange, flashIds }: PriceCheckTreeViewProps) {
   const [showLines, setShowLines] = useState(false);
   const [selectedRootIds, setSelectedRootIds] = useState<Set<number>>(new Set());
   const containerRef = useRef<HTMLDivElement>(null);
@@ -597,7 +592,7 @@ export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMateri
                 <div
                   key={item.id}
                   ref={(el) => setRootRef(item.id, el)}
-                  className="bg-[var(--ffxiv-card)] border-2 rounded-lg p-3 min-w-[160px] relative transition-all duration-200 cursor-pointer"
+                  className={`bg-[var(--ffxiv-card)] border-2 rounded-lg p-3 min-w-[160px] relative transition-all duration-200 cursor-pointer ${flashIds?.has(item.id) ? 'market-flash' : ''}`}
                   style={{
                     borderColor: color,
                     boxShadow: selectedRootIds.has(item.id) ? `0 0 12px ${color}60` : 'none',
@@ -645,6 +640,15 @@ export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMateri
                     </Link>
                     <CopyButton text={item.name} />
                   </div>
+                  {/* Recipe choice */}
+                  <div className="mb-1 empty:hidden">
+                    <RecipeSelect
+                      itemId={item.id}
+                      recipe={itemData.tree?.recipe ?? null}
+                      manual={recipeChoices[item.id] !== undefined}
+                      onChange={onRecipeChange}
+                    />
+                  </div>
                   {/* Quantity input */}
                   {showOwned && (
                     <div className="flex items-center gap-1.5 mb-1" onClick={(e) => e.stopPropagation()}>
@@ -684,6 +688,9 @@ export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMateri
                   {itemData.totalBuyCostHQ > 0 && (
                     <div className={`text-xs ${customPrices[item.id] !== undefined ? 'text-orange-400' : 'text-yellow-400'}`}>
                       {customPrices[item.id] !== undefined ? '自訂' : '直購HQ'}: {formatPrice(itemData.totalBuyCostHQ)} gil
+                      {itemData.buyShortfallHQ > 0 && (
+                        <span className="text-[var(--ffxiv-warning)] ml-1" title="市場上架數量不足">缺 {itemData.buyShortfallHQ}</span>
+                      )}
                     </div>
                   )}
                   {itemData.totalCraftCost > 0 && (
@@ -755,7 +762,8 @@ export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMateri
                 {mats?.map((mat) => {
                   const iconUrl = getItemIconUrl(mat.item.icon);
                   const bestPrice = getBestPrice(mat, qualityFilter, customPrices);
-                  const totalCost = bestPrice.price !== null ? bestPrice.price * mat.totalQuantity : null;
+                  const quote = bestPrice.isCustom || bestPrice.price === null ? null : quoteBuy(mat, mat.totalQuantity, bestPrice.isHQ);
+                  const totalCost = bestPrice.isCustom && bestPrice.price !== null ? bestPrice.price * mat.totalQuantity : quote?.cost ?? null;
                   const isHighlighted = selectedRootIds.size > 0 && selectedMaterialIds.has(mat.item.id);
                   const status = materialStatuses.get(mat.item.id) ?? 'red';
                   const statusStyle = showOwned ? STATUS_COLORS[status] : null;
@@ -765,7 +773,7 @@ export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMateri
                     <div
                       key={mat.item.id}
                       ref={(el) => setMaterialRef(mat.item.id, el)}
-                      className={`bg-[var(--ffxiv-card)] border rounded-lg min-w-[180px] max-w-[220px] transition-all duration-200 flex overflow-hidden ${statusStyle ? `${statusStyle.border} ${statusStyle.opacity ?? ''}` : defaultBorder}`}
+                      className={`bg-[var(--ffxiv-card)] border rounded-lg min-w-[180px] max-w-[220px] transition-all duration-200 flex overflow-hidden ${statusStyle ? `${statusStyle.border} ${statusStyle.opacity ?? ''}` : defaultBorder} ${flashIds?.has(mat.item.id) ? 'market-flash' : ''}`}
                       style={{
                         opacity: selectedRootIds.size > 0 && !isHighlighted ? 0.4 : undefined,
                         transform: isHighlighted ? 'scale(1.02)' : 'scale(1)',
@@ -809,6 +817,16 @@ export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMateri
                           </div>
                         </div>
 
+                        {/* Recipe choice */}
+                        <div className="mb-2 empty:hidden">
+                          <RecipeSelect
+                            itemId={mat.item.id}
+                            recipe={mat.recipe}
+                            manual={recipeChoices[mat.item.id] !== undefined}
+                            onChange={onRecipeChange}
+                          />
+                        </div>
+
                         {/* Owned input */}
                         {showOwned && <div className="flex items-center gap-1.5 mb-2">
                           <span className="text-xs text-[var(--ffxiv-muted)]">擁有:</span>
@@ -856,6 +874,12 @@ export function PriceCheckTreeView({ items, qualityFilter, onRemove, ownedMateri
                           {totalCost !== null && (
                             <div className="text-[var(--ffxiv-muted)]">
                               小計: {formatPrice(totalCost)} gil
+                              {quote && quote.shortfall > 0 && (
+                                <span className="text-[var(--ffxiv-warning)] ml-1" title="市場上架數量不足">缺 {quote.shortfall}</span>
+                              )}
+                              {quote && quote.surplus > 0 && (
+                                <span className="ml-1" title="整組購買多出的數量">多 {quote.surplus}</span>
+                              )}
                             </div>
                           )}
                           {mat.hasRecipe && mat.craftCost !== null && (
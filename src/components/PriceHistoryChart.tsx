@@ -0,0 +1,185 @@
+// Price history charts: daily NQ/HQ prices, volume and per-world breakdown
+import { useState, useMemo } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import { usePriceHistory } from '../hooks/usePriceHistory';
+import { formatPrice } from '../services/universalisApi';
+import { aggregateDailyHistory, aggregateWorldHistory, trimOutliers } from '../utils/priceHistory';
+
+interface PriceHistoryChartProps {
+  itemId: number;
+  world: string;
+}
+
+const WINDOWS = [
+  { days: 7, label: '7 天' },
+  { days: 30, label: '30 天' },
+  { days: 90, label: '90 天' },
+];
+
+const NQ_COLOR = '#4ade80';
+const HQ_COLOR = '#facc15';
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'var(--ffxiv-card)',
+  border: '1px solid var(--ffxiv-border)',
+  borderRadius: 6,
+  fontSize: 12,
+};
+
+export function PriceHistoryChart({ itemId, world }: PriceHistoryChartProps) {
+  const [days, setDays] = useState(7);
+  const [trim, setTrim] = useState(true);
+  const { history, loading } = usePriceHistory(itemId, world, days);
+
+  const entries = useMemo(() => {
+    const all = history?.entries ?? [];
+    return trim ? trimOutliers(all) : all;
+  }, [history, trim]);
+  const trimmedCount = (history?.entries.length ?? 0) - entries.length;
+
+  const daily = useMemo(() => aggregateDailyHistory(entries, days), [entries, days]);
+  const worlds = useMemo(() => aggregateWorldHistory(entries, world), [entries, world]);
+  const hasHq = entries.some(e => e.hq);
+  const hasNq = entries.some(e => !e.hq);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2 flex-wrap gap-2">
+        <div className="text-sm text-[var(--ffxiv-muted)]">價格走勢</div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-[var(--ffxiv-muted)] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={trim}
+              onChange={(e) => setTrim(e.target.checked)}
+              className="w-3.5 h-3.5 accent-[var(--ffxiv-accent)]"
+            />
+            排除極端值
+          </label>
+          <div className="flex rounded overflow-hidden border border-[var(--ffxiv-border)]">
+            {WINDOWS.map(option => (
+              <button
+                key={option.days}
+                onClick={() => setDays(option.days)}
+                className={`px-2 py-0.5 text-xs transition-colors ${
+                  days === option.days
+                    ? 'bg-[var(--ffxiv-accent)] text-white'
+                    : 'bg-[var(--ffxiv-card)] text-[var(--ffxiv-text-secondary)] hover:bg-[var(--ffxiv-card-hover)]'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-[var(--ffxiv-highlight)] border-t-transparent"></div>
+        </div>
+      )}
+
+      {!loading && entries.length === 0 && (
+        <div className="text-center py-4 text-sm text-[var(--ffxiv-muted)]">此期間沒有交易紀錄</div>
+      )}
+
+      {!loading && entries.length > 0 && (
+        <div className="space-y-4">
+          <div className="text-xs text-[var(--ffxiv-muted)]">
+            {entries.length} 筆交易
+            {trimmedCount > 0 && `，已排除 ${trimmedCount} 筆極端值`}
+          </div>
+
+          {/* Median and min price per day */}
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={daily} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--ffxiv-border)" />
+                <XAxis dataKey="date" tick={{ fontSize: 11, fill: 'var(--ffxiv-muted)' }} minTickGap={16} />
+                <YAxis
+                  tick={{ fontSize: 11, fill: 'var(--ffxiv-muted)' }}
+                  tickFormatter={(value: number) => formatPrice(value)}
+                  width={64}
+                />
+                <Tooltip
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value) => `${formatPrice(Number(value))} gil`}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                {hasNq && (
+                  <>
+                    <Line type="monotone" dataKey="nqMedian" name="NQ 中位數" stroke={NQ_COLOR} dot={false} connectNulls />
+                    <Line type="monotone" dataKey="nqMin" name="NQ 最低" stroke={NQ_COLOR} strokeDasharray="4 3" strokeOpacity={0.6} dot={false} connectNulls />
+                  </>
+                )}
+                {hasHq && (
+                  <>
+                    <Line type="monotone" dataKey="hqMedian" name="HQ 中位數" stroke={HQ_COLOR} dot={false} connectNulls />
+                    <Line type="monotone" dataKey="hqMin" name="HQ 最低" stroke={HQ_COLOR} strokeDasharray="4 3" strokeOpacity={0.6} dot={false} connectNulls />
+                  </>
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Units sold per day */}
+          <div className="h-36">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={daily} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--ffxiv-border)" />
+                <XAxis dataKey="date" tick={{ fontSize: 11, fill: 'var(--ffxiv-muted)' }} minTickGap={16} />
+                <YAxis tick={{ fontSize: 11, fill: 'var(--ffxiv-muted)' }} allowDecimals={false} width={64} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'var(--ffxiv-card-hover)' }} />
+                {hasNq && <Bar dataKey="nqVolume" name="NQ 售出" stackId="volume" fill={NQ_COLOR} fillOpacity={0.7} />}
+                {hasHq && <Bar dataKey="hqVolume" name="HQ 售出" stackId="volume" fill={HQ_COLOR} fillOpacity={0.7} />}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Per-world breakdown (data center queries only) */}
+          {worlds.length > 1 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-[var(--ffxiv-border)]">
+                    <th className="text-left py-2 px-2 text-[var(--ffxiv-muted)] font-medium">伺服器</th>
+                    <th className="text-right py-2 px-2 text-[var(--ffxiv-muted)] font-medium">成交筆數</th>
+                    <th className="text-right py-2 px-2 text-[var(--ffxiv-muted)] font-medium">售出數量</th>
+                    <th className="text-right py-2 px-2 text-[var(--ffxiv-muted)] font-medium">中位數</th>
+                    <th className="text-right py-2 px-2 text-[var(--ffxiv-muted)] font-medium">最低</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {worlds.map(summary => (
+                    <tr
+                      key={summary.worldName}
+                      className="border-b border-[var(--ffxiv-border)]/50 hover:bg-[var(--ffxiv-card)]"
+                    >
+                      <td className="py-2 px-2 text-[var(--ffxiv-accent)]">{summary.worldName}</td>
+                      <td className="py-2 px-2 text-right">{summary.sales}</td>
+                      <td className="py-2 px-2 text-right">{summary.volume}</td>
+                      <td className="py-2 px-2 text-right font-medium">{formatPrice(summary.median)}</td>
+                      <td className="py-2 px-2 text-right text-[var(--ffxiv-muted)]">{formatPrice(summary.min)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+// Craft-for-profit scanner: price every recipe for a job and level range and rank by profit
+import { useState, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useRecipeData } from '../hooks/useItemData';
+import { useProfitScanner } from '../hooks/useProfitScanner';
+import { getItemById } from '../services/searchService';
+import { getItemIconUrl } from '../services/xivapiService';
+import { formatPrice } from '../services/universalisApi';
+import { getMarketServerLabel } from '../services/worldData';
+import { MARKET_TAX_RATE, type CraftProfit } from '../utils/craftProfit';
+import { getRarityClass } from '../utils/rarity';
+
+type SortKey = 'profit' | 'margin' | 'velocity' | 'materialCost' | 'salePrice' | 'level';
+
+// -1 scans every job
+const ALL_JOBS = -1;
+const MAX_ROWS = 200;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'level', label: '等級' },
+  { key: 'materialCost', label: '材料成本' },
+  { key: 'salePrice', label: '售價' },
+  { key: 'velocity', label: '日銷量' },
+  { key: 'profit', label: '每次利潤' },
+  { key: 'margin', label: '利潤率' },
+];
+
+function getRecipeLevel(profit: CraftProfit): number {
+  return profit.recipe.classJobLevel || profit.recipe.recipeLevel;
+}
+
+function getSortValue(profit: CraftProfit, key: SortKey): number | null {
+  return key === 'level' ? getRecipeLevel(profit) : profit[key];
+}
+
+const inputClass = 'bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)]';
+
+export function ProfitScannerPage() {
+  const navigate = useNavigate();
+  const { recipes, craftTypes, loading: recipesLoading } = useRecipeData();
+  const { results, scanning, progress, error, scannedServer, scan } = useProfitScanner();
+  const [job, setJob] = useState(ALL_JOBS);
+  const [minLevel, setMinLevel] = useState(90);
+  const [maxLevel, setMaxLevel] = useState(100);
+  const [sellHq, setSellHq] = useState(true);
+  const [minVelocity, setMinVelocity] = useState(1);
+  const [minMargin, setMinMargin] = useState(10);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'profit', desc: true });
+
+  // Recipes the next scan covers: the job and level range, sellable results only
+  const selectedRecipes = useMemo(() => {
+    return Object.values(recipes).flat().filter(recipe => {
+      if (job !== ALL_JOBS && recipe.craftType !== job) return false;
+      const level = recipe.classJobLevel || recipe.recipeLevel;
+      if (level < minLevel || level > maxLevel) return false;
+      const item = getItemById(recipe.itemId);
+      return !!item && !item.isUntradable;
+    });
+  }, [recipes, job, minLevel, maxLevel]);
+
+  const rows = useMemo(() => {
+    const filtered = results.filter(r =>
+      r.profit !== null &&
+      r.velocity >= minVelocity &&
+      r.margin !== null && r.margin * 100 >= minMargin
+    );
+    return filtered.sort((a, b) => {
+      const av = getSortValue(a, sort.key) ?? -Infinity;
+      const bv = getSortValue(b, sort.key) ?? -Infinity;
+      return sort.desc ? bv - av : av - bv;
+    });
+  }, [results, minVelocity, minMargin, sort]);
+
+  const handleSort = (key: SortKey) => {
+    setSort(prev => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: key !== 'level' }));
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back button */}
+      <button
+        onClick={() => navigate(-1)}
+        className="inline-flex items-center gap-1 text-sm text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] mb-4 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        返回搜尋
+      </button>
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+        <h1 className="text-xl font-bold text-[var(--ffxiv-text)]">製作獲利掃描</h1>
+        <span className="text-sm text-[var(--ffxiv-muted)]">{scannedServer && getMarketServerLabel(scannedServer)}</span>
+      </div>
+
+      {/* Scan range */}
+      <div className="mb-4 p-4 bg-[var(--ffxiv-card)] rounded-lg border border-[var(--ffxiv-border)]">
+        <div className="flex items-center gap-2 flex-wrap">
+          <select
+            value={job}
+            onChange={(e) => setJob(parseInt(e.target.value))}
+            className={`${inputClass} cursor-pointer`}
+          >
+            <option value={ALL_JOBS}>所有職業</option>
+            {craftTypes.map(type => (
+              <option key={type.id} value={type.id}>{type.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-[var(--ffxiv-muted)]">
+            等級
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={minLevel}
+              onChange={(e) => setMinLevel(parseInt(e.target.value) || 1)}
+              onFocus={(e) => e.target.select()}
+              className={`${inputClass} w-16 text-right`}
+            />
+            ~
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={maxLevel}
+              onChange={(e) => setMaxLevel(parseInt(e.target.value) || 100)}
+              onFocus={(e) => e.target.select()}
+              className={`${inputClass} w-16 text-right`}
+            />
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer px-3 py-1.5 rounded bg-[var(--ffxiv-bg-tertiary)] hover:bg-[var(--ffxiv-card-hover)] transition-colors">
+            <input
+              type="checkbox"
+              checked={sellHq}
+              onChange={(e) => setSellHq(e.target.checked)}
+              className="w-4 h-4 rounded border-[var(--ffxiv-border)] bg-[var(--ffxiv-bg-tertiary)] accent-[var(--ffxiv-accent)]"
+            />
+            <span className="text-sm text-[var(--ffxiv-text-secondary)]">以 HQ 出售</span>
+          </label>
+          <button
+            onClick={() => scan(selectedRecipes, sellHq)}
+            disabled={scanning || recipesLoading || selectedRecipes.length === 0}
+            className="px-4 py-1.5 text-sm bg-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent-hover)] text-white rounded transition-colors disabled:opacity-50"
+          >
+            {scanning ? `掃描中 ${Math.round(progress * 100)}%` : `掃描 ${selectedRecipes.length} 個配方`}
+          </button>
+        </div>
+        <p className="mt-3 text-xs text-[var(--ffxiv-muted)]">
+          材料以直購或自製較便宜者計算；售價取目前最低上架價（無上架時用平均成交價），並扣除 {MARKET_TAX_RATE * 100}% 稅金。範圍越大需要的市場請求越多。
+        </p>
+      </div>
+
+      {/* Result filters */}
+      <div className="flex items-center gap-4 mb-4 flex-wrap text-sm text-[var(--ffxiv-muted)]">
+        <label className="flex items-center gap-1">
+          日銷量至少
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={minVelocity}
+            onChange={(e) => setMinVelocity(Math.max(0, parseFloat(e.target.value) || 0))}
+            onFocus={(e) => e.target.select()}
+            className={`${inputClass} w-20 text-right`}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          利潤率至少
+          <input
+            type="number"
+            step={5}
+            value={minMargin}
+            onChange={(e) => setMinMargin(parseFloat(e.target.value) || 0)}
+            onFocus={(e) => e.target.select()}
+            className={`${inputClass} w-20 text-right`}
+          />
+          %
+        </label>
+      </div>
+
+      {error && (
+        <div className="text-center py-4 text-[var(--ffxiv-error)]">{error}</div>
+      )}
+
+      {results.length === 0 ? (
+        <div className="text-center py-16 bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+          <div className="text-lg text-[var(--ffxiv-muted)]">
+            {scanning ? '正在載入市場價格...' : '選擇職業與等級範圍後開始掃描'}
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto border border-[var(--ffxiv-border)] rounded-lg">
+          <div className="px-4 py-2 bg-[var(--ffxiv-card)] border-b border-[var(--ffxiv-border)] text-xs text-[var(--ffxiv-muted)]">
+            共 {rows.length} 項符合條件（掃描 {results.length} 個配方）{rows.length > MAX_ROWS && `，顯示前 ${MAX_ROWS} 項`}
+          </div>
+          <table className="w-full text-sm">
+            <thead className="bg-[var(--ffxiv-bg-secondary)] text-xs text-[var(--ffxiv-muted)]">
+              <tr>
+                <th className="px-2 py-2 text-left font-normal">名稱</th>
+                <th className="px-2 py-2 text-left font-normal">職業</th>
+                {COLUMNS.map(column => {
+                  const isSorted = sort.key === column.key;
+                  return (
+                    <th
+                      key={column.key}
+                      onClick={() => handleSort(column.key)}
+                      className={`px-2 py-2 font-normal whitespace-nowrap text-right cursor-pointer hover:text-[var(--ffxiv-text)] ${
+                        isSorted ? 'text-[var(--ffxiv-highlight)]' : ''
+                      }`}
+                    >
+                      {column.label}
+                      {isSorted && (sort.desc ? ' ▼' : ' ▲')}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, MAX_ROWS).map(row => {
+                const item = getItemById(row.recipe.itemId);
+                if (!item) return null;
+                return (
+                  <tr
+                    key={row.recipe.id}
+                    className="border-t border-[var(--ffxiv-border)] bg-[var(--ffxiv-card)] hover:bg-[var(--ffxiv-card-hover)]"
+                  >
+                    <td className="px-2 py-1">
+                      <Link to={`/item/${item.id}`} className="flex items-center gap-2 min-w-0 hover:underline">
+                        <img src={getItemIconUrl(item.icon)} alt="" className="w-6 h-6 flex-shrink-0 object-contain" loading="lazy" />
+                        <span className={`truncate max-w-[16rem] ${getRarityClass(item.rarity)}`}>
+                          {item.name}
+                          {row.recipe.resultAmount > 1 && (
+                            <span className="ml-1 text-xs text-[var(--ffxiv-muted)]">x{row.recipe.resultAmount}</span>
+                          )}
+                        </span>
+                      </Link>
+                    </td>
+                    <td className="px-2 py-1 whitespace-nowrap text-[var(--ffxiv-text-secondary)]">{row.recipe.craftTypeName}</td>
+                    <td className="px-2 py-1 text-right tabular-nums text-[var(--ffxiv-text-secondary)]">
+                      {getRecipeLevel(row)}{row.recipe.stars > 0 && ' ★'.repeat(row.recipe.stars)}
+                    </td>
+                    <td className="px-2 py-1 text-right tabular-nums text-[var(--ffxiv-text-secondary)]">
+                      {row.materialCost !== null ? formatPrice(row.materialCost) : '-'}
+                    </td>
+                    <td className="px-2 py-1 text-right tabular-nums text-[var(--ffxiv-highlight)]">
+                      {row.salePrice !== null ? formatPrice(row.salePrice) : '-'}
+                    </td>
+                    <td className="px-2 py-1 text-right tabular-nums text-[var(--ffxiv-text-secondary)]">
+                      {row.velocity.toFixed(1)}
+                    </td>
+                    <td className={`px-2 py-1 text-right tabular-nums ${row.profit! > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatPrice(row.profit!)}
+                    </td>
+                    <td className="px-2 py-1 text-right tabular-nums text-[var(--ffxiv-text-secondary)]">
+                      {row.margin !== null ? `${Math.round(row.margin * 100)}%` : '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
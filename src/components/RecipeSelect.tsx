@@ -0,0 +1,49 @@
+// Picks which recipe a crafting tree node uses, for items with more than one
+import type { Recipe } from '../types';
+import { getRecipesForItem } from '../hooks/useItemData';
+import { useSettings } from '../hooks/useSettings';
+import { describeRecipe, getRecipeIssues } from '../utils/recipeChoice';
+
+interface RecipeSelectProps {
+  itemId: number;
+  recipe: Recipe | null;          // The recipe the tree uses now
+  manual: boolean;                // Picked by hand rather than by the preference
+  onChange: (itemId: number, recipeId: number | null) => void;
+}
+
+export function RecipeSelect({ itemId, recipe, manual, onChange }: RecipeSelectProps) {
+  const { recipePreference } = useSettings();
+  const recipes = getRecipesForItem(itemId);
+  if (recipes.length < 2 || !recipe) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs" onClick={(e) => e.stopPropagation()}>
+      <select
+        value={recipe.id}
+        onChange={(e) => onChange(itemId, Number(e.target.value))}
+        className={`max-w-[180px] bg-[var(--ffxiv-bg)] border rounded px-1 py-0.5 focus:outline-none focus:border-[var(--ffxiv-highlight)] ${
+          manual ? 'border-[var(--ffxiv-highlight)]' : 'border-[var(--ffxiv-border)]'
+        }`}
+        title={manual ? '已手動選擇配方' : '依配方偏好自動選擇'}
+      >
+        {recipes.map(r => {
+          const issues = getRecipeIssues(r, recipePreference);
+          return (
+            <option key={r.id} value={r.id}>
+              {describeRecipe(r)}{issues.length > 0 ? ` (${issues.join('、')})` : ''}
+            </option>
+          );
+        })}
+      </select>
+      {manual && (
+        <button
+          onClick={() => onChange(itemId, null)}
+          className="text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-highlight)]"
+          title="改回自動選擇"
+        >
+          ↺
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+// Compact table view for search results
+import { useState, useEffect } from 'react';
+import type { ResultColumnId, SearchResult, SearchSort } from '../types';
+import { getItemIconUrl } from '../services/xivapiService';
+import { formatPrice } from '../services/universalisApi';
+import { DEFAULT_SORT_DESC } from '../services/searchSort';
+import { getItemById } from '../services/searchService';
+import { ensureFullItemData } from '../hooks/useItemData';
+import { getResultColumn, type ResultColumn } from '../utils/resultColumns';
+import { getRarityClass } from '../utils/rarity';
+
+interface ResultsTableProps {
+  results: SearchResult[];
+  columns: ResultColumnId[];
+  prices: Record<number, number>;
+  pricesLoading?: boolean;
+  sort: SearchSort;
+  onSortChange: (sort: SearchSort) => void;
+  onItemSelect?: (id: number) => void;
+  selectedItemId?: number | null;
+}
+
+export function ResultsTable({
+  results,
+  columns,
+  prices,
+  pricesLoading,
+  sort,
+  onSortChange,
+  onItemSelect,
+  selectedItemId,
+}: ResultsTableProps) {
+  const visibleColumns = columns
+    .map(id => getResultColumn(id))
+    .filter((column): column is ResultColumn => column !== undefined);
+  const needsFullData = visibleColumns.some(column => column.fullData);
+  const [fullDataReady, setFullDataReady] = useState(false);
+
+  // Equipment columns read stats that only the full item data has
+  useEffect(() => {
+    if (!needsFullData) return;
+    ensureFullItemData().then(() => setFullDataReady(true));
+  }, [needsFullData]);
+
+  const handleHeaderClick = (column: ResultColumn) => {
+    if (!column.sortKey) return;
+    if (sort.key === column.sortKey) {
+      onSortChange({ key: column.sortKey, desc: !sort.desc });
+    } else {
+      onSortChange({ key: column.sortKey, desc: DEFAULT_SORT_DESC[column.sortKey] });
+    }
+  };
+
+  const renderCell = (column: ResultColumn, result: SearchResult) => {
+    if (column.id === 'price') {
+      const price = prices[result.item.id];
+      if (price !== undefined) return formatPrice(price);
+      if (result.item.isUntradable) return '-';
+      return pricesLoading ? '…' : '-';
+    }
+    // Search results may still hold the index-only item
+    const item = fullDataReady ? getItemById(result.item.id) ?? result.item : result.item;
+    const value = column.value(item);
+    return value ?? '-';
+  };
+
+  return (
+    <div className="overflow-x-auto border border-[var(--ffxiv-border)] rounded-lg">
+      <table className="w-full text-sm">
+        <thead className="bg-[var(--ffxiv-bg-secondary)] text-xs text-[var(--ffxiv-muted)]">
+          <tr>
+            <th className="px-2 py-2 text-left font-normal sticky left-0 bg-[var(--ffxiv-bg-secondary)]">名稱</th>
+            {visibleColumns.map(column => {
+              const isSorted = column.sortKey !== undefined && sort.key === column.sortKey;
+              return (
+                <th
+                  key={column.id}
+                  onClick={() => handleHeaderClick(column)}
+                  className={`px-2 py-2 font-normal whitespace-nowrap ${column.numeric ? 'text-right' : 'text-left'} ${
+                    column.sortKey ? 'cursor-pointer hover:text-[var(--ffxiv-text)]' : ''
+                  } ${isSorted ? 'text-[var(--ffxiv-highlight)]' : ''}`}
+                >
+                  {column.label}
+                  {isSorted && (sort.desc ? ' ▼' : ' ▲')}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(result => {
+            const isSelected = selectedItemId === result.item.id;
+            return (
+              <tr
+                key={result.item.id}
+                onClick={() => onItemSelect?.(result.item.id)}
+                className={`border-t border-[var(--ffxiv-border)] cursor-pointer ${
+                  isSelected ? 'bg-[var(--ffxiv-highlight)]/10' : 'bg-[var(--ffxiv-card)] hover:bg-[var(--ffxiv-card-hover)]'
+                }`}
+              >
+                <td className={`px-2 py-1 sticky left-0 ${isSelected ? 'bg-[var(--ffxiv-card-hover)]' : 'bg-inherit'}`}>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <img
+                      src={getItemIconUrl(result.item.icon)}
+                      alt=""
+                      className="w-6 h-6 flex-shrink-0 object-contain"
+                      loading="lazy"
+                    />
+                    <span className={`truncate max-w-[16rem] ${getRarityClass(result.item.rarity)}`}>
+                      {result.item.name}
+                    </span>
+                  </div>
+                </td>
+                {visibleColumns.map(column => (
+                  <td
+                    key={column.id}
+                    className={`px-2 py-1 whitespace-nowrap text-[var(--ffxiv-text-secondary)] ${column.numeric ? 'text-right tabular-nums' : ''}`}
+                  >
+                    {renderCell(column, result)}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Link } from 'react-router-dom';
+import { useRetainerTracker } from '../hooks/useRetainerTracker';
+
+interface RetainerTrackButtonProps {
+  itemId: number;
+}
+
+export function RetainerTrackButton({ itemId }: RetainerTrackButtonProps) {
+  const { itemIds, addItem, removeItem } = useRetainerTracker();
+  const tracked = itemIds.includes(itemId);
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => (tracked ? removeItem(itemId) : addItem(itemId))}
+        className={`p-1 rounded transition-colors ${
+          tracked ? 'text-[var(--ffxiv-accent)]' : 'text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)]'
+        }`}
+        title={tracked ? '停止追蹤雇員上架' : '追蹤雇員上架'}
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 6a3.75 3.75 0 11-7.5 0 3.75 3.75 0 017.5 0zM4.501 20.118a7.5 7.5 0 0114.998 0A17.933 17.933 0 0112 21.75c-2.676 0-5.216-.584-7.499-1.632z" />
+        </svg>
+      </button>
+      {tracked && (
+        <Link to="/retainers" className="text-xs text-[var(--ffxiv-accent)] hover:underline">
+          雇員追蹤
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useRetainerTracker } from '../hooks/useRetainerTracker';
+import { useSettings } from '../hooks/useSettings';
+import { getItemById } from '../services/searchService';
+import { getItemIconUrl } from '../services/xivapiService';
+import { formatPrice, formatDateTime, formatRelativeTime } from '../services/universalisApi';
+import { getMarketServerLabel } from '../services/worldData';
+import { getSaleIncome } from '../utils/retainerTracker';
+import { CopyButton } from './CopyButton';
+
+const inputClass = 'bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm focus:outline-none focus:border-[var(--ffxiv-accent)]';
+
+function ItemName({ itemId }: { itemId: number }) {
+  const item = getItemById(itemId);
+  return (
+    <Link to={`/item/${itemId}`} className="flex items-center gap-2 min-w-0 hover:text-[var(--ffxiv-highlight)]">
+      <img
+        src={getItemIconUrl(item?.icon ?? 0)}
+        alt={item?.name ?? ''}
+        className="w-6 h-6 object-contain flex-shrink-0"
+        onError={(e) => {
+          (e.target as HTMLImageElement).src = getItemIconUrl(0);
+        }}
+      />
+      <span className="truncate">{item?.name ?? `物品 #${itemId}`}</span>
+    </Link>
+  );
+}
+
+export function RetainersPage() {
+  const { marketServer } = useSettings();
+  const {
+    retainers,
+    itemIds,
+    sales,
+    statuses,
+    unmatched,
+    checking,
+    checkedAt,
+    error,
+    setRetainers,
+    removeItem,
+    clearSales,
+    dismissListing,
+    check,
+  } = useRetainerTracker();
+  const [newRetainer, setNewRetainer] = useState('');
+
+  // Check once when the page opens
+  useEffect(() => {
+    check();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const addRetainer = () => {
+    const name = newRetainer.trim();
+    if (name && !retainers.includes(name)) setRetainers([...retainers, name]);
+    setNewRetainer('');
+  };
+
+  const undercutCount = statuses.filter(s => s.undercutBy !== null).length;
+  const ledger = useMemo(() => ({
+    gross: sales.reduce((sum, s) => sum + s.pricePerUnit * s.quantity, 0),
+    income: sales.reduce((sum, s) => sum + getSaleIncome(s), 0),
+  }), [sales]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-bold">雇員追蹤</h2>
+          {undercutCount > 0 && (
+            <span className="text-sm text-yellow-400">● {undercutCount} 筆被削價</span>
+          )}
+        </div>
+        <div className="flex items-center gap-3 text-sm text-[var(--ffxiv-muted)]">
+          <span>{getMarketServerLabel(marketServer)}</span>
+          {checkedAt && <span>上次檢查: {formatRelativeTime(checkedAt)}</span>}
+          <button
+            onClick={check}
+            disabled={checking || retainers.length === 0 || itemIds.length === 0}
+            className="px-3 py-1 text-sm bg-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent-hover)] text-white rounded transition-colors disabled:opacity-50"
+          >
+            {checking ? '檢查中...' : '立即檢查'}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-[var(--ffxiv-error)]">{error}</div>}
+
+      {/* Retainers */}
+      <div className="p-4 bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+        <div className="text-sm text-[var(--ffxiv-muted)] mb-2">我的雇員</div>
+        <div className="flex items-center gap-2 flex-wrap">
+          {retainers.map(name => (
+            <span key={name} className="flex items-center gap-1 px-2 py-1 rounded bg-[var(--ffxiv-card)] border border-[var(--ffxiv-border)] text-sm">
+              {name}
+              <button
+                onClick={() => setRetainers(retainers.filter(r => r !== name))}
+                className="text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-error)]"
+                title="移除"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            value={newRetainer}
+            onChange={(e) => setNewRetainer(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addRetainer()}
+            placeholder="雇員名稱"
+            className={`${inputClass} w-40`}
+          />
+          <button onClick={addRetainer} className="text-sm text-[var(--ffxiv-highlight)] hover:underline">
+            新增
+          </button>
+        </div>
+      </div>
+
+      {/* Tracked items */}
+      <div className="p-4 bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+        <div className="text-sm text-[var(--ffxiv-muted)] mb-2">追蹤的出售物品 ({itemIds.length})</div>
+        {itemIds.length === 0 ? (
+          <p className="text-sm text-[var(--ffxiv-muted)]">在物品的市場價格中點擊雇員圖示即可加入</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {itemIds.map(id => (
+              <span key={id} className="flex items-center gap-2 px-2 py-1 rounded bg-[var(--ffxiv-card)] border border-[var(--ffxiv-border)] text-sm">
+                <ItemName itemId={id} />
+                <button
+                  onClick={() => removeItem(id)}
+                  className="text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-error)]"
+                  title="移除"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Active listings */}
+      <div>
+        <div className="text-sm text-[var(--ffxiv-muted)] mb-2">上架中 ({statuses.length})</div>
+        {statuses.length === 0 ? (
+          <div className="text-center py-8 text-sm text-[var(--ffxiv-muted)]">
+            {retainers.length === 0 ? '請先新增雇員名稱' : checking ? '檢查中...' : '沒有找到雇員的上架'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-[var(--ffxiv-border)] text-[var(--ffxiv-muted)]">
+                  <th className="text-left py-2 px-2 font-medium">物品</th>
+                  <th className="text-left py-2 px-2 font-medium">雇員</th>
+                  <th className="text-left py-2 px-2 font-medium">伺服器</th>
+                  <th className="text-right py-2 px-2 font-medium">數量</th>
+                  <th className="text-right py-2 px-2 font-medium">我的單價</th>
+                  <th className="text-right py-2 px-2 font-medium">最低競爭者</th>
+                  <th className="text-right py-2 px-2 font-medium">狀態</th>
+                  <th className="text-right py-2 px-2 font-medium">建議價格</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statuses.map(status => (
+                  <tr
+                    key={status.listing.listingID}
+                    className={`border-b border-[var(--ffxiv-border)]/50 ${status.undercutBy !== null ? 'bg-yellow-900/10' : ''}`}
+                  >
+                    <td className="py-2 px-2">
+                      <div className="flex items-center gap-1">
+                        <ItemName itemId={status.itemId} />
+                        {status.listing.hq && <span className="text-yellow-400 text-xs font-medium">HQ</span>}
+                      </div>
+                    </td>
+                    <td className="py-2 px-2 text-[var(--ffxiv-muted)]">{status.listing.retainerName}</td>
+                    <td className="py-2 px-2 text-[var(--ffxiv-accent)]">{status.world}</td>
+                    <td className="py-2 px-2 text-right">{status.listing.quantity}</td>
+                    <td className="py-2 px-2 text-right font-medium">{formatPrice(status.listing.pricePerUnit)}</td>
+                    <td className="py-2 px-2 text-right text-[var(--ffxiv-muted)]">
+                      {status.competitorPrice !== null ? formatPrice(status.competitorPrice) : '-'}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      {status.undercutBy !== null ? (
+                        <span className="text-yellow-400">被削 {formatPrice(status.undercutBy)}</span>
+                      ) : (
+                        <span className="text-[var(--ffxiv-success)]">最低價</span>
+                      )}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      {status.suggestedPrice !== null && status.suggestedPrice !== status.listing.pricePerUnit ? (
+                        <span className="inline-flex items-center gap-1">
+                          {formatPrice(status.suggestedPrice)}
+                          <CopyButton text={String(status.suggestedPrice)} />
+                        </span>
+                      ) : (
+                        <span className="text-[var(--ffxiv-muted)]">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Listings gone without a matching sale */}
+      {unmatched.length > 0 && (
+        <div>
+          <div className="text-sm text-[var(--ffxiv-muted)] mb-2">
+            已下架、未找到成交紀錄 ({unmatched.length})
+            <span className="ml-3 text-xs">可能是手動收回，或成交時間早於取得的交易紀錄</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-[var(--ffxiv-border)] text-[var(--ffxiv-muted)]">
+                  <th className="text-left py-2 px-2 font-medium">物品</th>
+                  <th className="text-left py-2 px-2 font-medium">雇員</th>
+                  <th className="text-left py-2 px-2 font-medium">伺服器</th>
+                  <th className="text-right py-2 px-2 font-medium">數量</th>
+                  <th className="text-right py-2 px-2 font-medium">單價</th>
+                  <th className="text-right py-2 px-2 font-medium">最後看到</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {unmatched.map(listing => (
+                  <tr key={listing.listingID} className="border-b border-[var(--ffxiv-border)]/50">
+                    <td className="py-2 px-2">
+                      <div className="flex items-center gap-1">
+                        <ItemName itemId={listing.itemId} />
+                        {listing.hq && <span className="text-yellow-400 text-xs font-medium">HQ</span>}
+                      </div>
+                    </td>
+                    <td className="py-2 px-2 text-[var(--ffxiv-muted)]">{listing.retainerName}</td>
+                    <td className="py-2 px-2 text-[var(--ffxiv-accent)]">{listing.world}</td>
+                    <td className="py-2 px-2 text-right">{listing.quantity}</td>
+                    <td className="py-2 px-2 text-right">{formatPrice(listing.pricePerUnit)}</td>
+                    <td className="py-2 px-2 text-right text-[var(--ffxiv-muted)]">{formatRelativeTime(listing.lastSeen)}</td>
+                    <td className="py-2 px-2 text-right">
+                      <button
+                        onClick={() => dismissListing(listing.listingID)}
+                        className="text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-error)]"
+                        title="移除"
+                      >
+                        ×
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Sales ledger */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-sm text-[var(--ffxiv-muted)]">
+            銷售紀錄 ({sales.length})
+            {sales.length > 0 && (
+              <span className="ml-3">
+                銷售額 <span className="text-[var(--ffxiv-text)]">{formatPrice(ledger.gross)}</span> gil ·
+                稅後收入 <span className="text-[var(--ffxiv-highlight)] font-medium">{formatPrice(ledger.income)}</span> gil
+              </span>
+            )}
+          </div>
+          {sales.length > 0 && (
+            <button onClick={clearSales} className="text-sm text-[var(--ffxiv-error)] hover:underline">
+              清除紀錄
+            </button>
+          )}
+        </div>
+        {sales.length === 0 ? (
+          <div className="text-center py-8 text-sm text-[var(--ffxiv-muted)]">
+            上架消失後，會從交易紀錄中比對售出的那一筆
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-[var(--ffxiv-border)] text-[var(--ffxiv-muted)]">
+                  <th className="text-left py-2 px-2 font-medium">時間</th>
+                  <th className="text-left py-2 px-2 font-medium">物品</th>
+                  <th className="text-left py-2 px-2 font-medium">雇員</th>
+                  <th className="text-left py-2 px-2 font-medium">伺服器</th>
+                  <th className="text-right py-2 px-2 font-medium">數量</th>
+                  <th className="text-right py-2 px-2 font-medium">單價</th>
+                  <th className="text-right py-2 px-2 font-medium">稅後</th>
+                  <th className="text-left py-2 px-2 font-medium">買家</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sales.map(sale => (
+                  <tr key={sale.id} className="border-b border-[var(--ffxiv-border)]/50">
+                    <td className="py-2 px-2 text-[var(--ffxiv-muted)]">{formatDateTime(sale.timestamp / 1000)}</td>
+                    <td className="py-2 px-2">
+                      <div className="flex items-center gap-1">
+                        <ItemName itemId={sale.itemId} />
+                        {sale.hq && <span className="text-yellow-400 text-xs font-medium">HQ</span>}
+                      </div>
+                    </td>
+                    <td className="py-2 px-2 text-[var(--ffxiv-muted)]">{sale.retainerName}</td>
+                    <td className="py-2 px-2 text-[var(--ffxiv-accent)]">{sale.world}</td>
+                    <td className="py-2 px-2 text-right">{sale.quantity}</td>
+                    <td className="py-2 px-2 text-right">{formatPrice(sale.pricePerUnit)}</td>
+                    <td className="py-2 px-2 text-right text-[var(--ffxiv-highlight)]">{formatPrice(getSaleIncome(sale))}</td>
+                    <td className="py-2 px-2 text-[var(--ffxiv-muted)]">{sale.buyerName}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
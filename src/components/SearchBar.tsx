@@ -1,14 +1,53 @@
-// Search bar component
-import { useState, useCallback, useEffect, useRef } from 'react';
+// Search bar component with autocomplete suggestions
+import { useState, useCallback, useEffect, useRef, useMemo, type KeyboardEvent } from 'react';
+import type { Item, ItemCategory } from '../types';
+import { useItemData } from '../hooks/useItemData';
+import { useSearchSuggestions } from '../hooks/useSearchSuggestions';
+import { useSearchHistory } from '../contexts/SearchHistoryContext';
+import { getItemById } from '../services/searchService';
+import { getItemIconUrl } from '../services/xivapiService';
+import { replaceQueryText } from '../services/searchQuery';
+import { getRarityClass } from '../utils/rarity';
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
+  onItemSelect?: (id: number) => void;
   placeholder?: string;
 }
 
-export function SearchBar({ value, onChange, placeholder = '搜尋物品...' }: SearchBarProps) {
+type Suggestion =
+  | { type: 'item'; item: Item }
+  | { type: 'viewed'; item: Item }
+  | { type: 'category'; category: ItemCategory }
+  | { type: 'recent'; query: string };
+
+interface SuggestionSection {
+  title: string;
+  suggestions: Suggestion[];
+}
+
+// History entries shown in the dropdown
+const MAX_HISTORY_SUGGESTIONS = 5;
+const MAX_MATCHING_HISTORY = 3;
+
+function suggestionKey(suggestion: Suggestion): string {
+  switch (suggestion.type) {
+    case 'item':
+    case 'viewed':
+      return `${suggestion.type}-${suggestion.item.id}`;
+    case 'category':
+      return `category-${suggestion.category.id}`;
+    case 'recent':
+      return `recent-${suggestion.query}`;
+  }
+}
+
+export function SearchBar({ value, onChange, onItemSelect, placeholder = '搜尋物品...' }: SearchBarProps) {
   const [localValue, setLocalValue] = useState(value);
+  const [isOpen, setIsOpen] = useState(false);
+  // Highlighted suggestion, tied to the input it was chosen for so typing resets it
+  const [active, setActive] = useState<{ input: string; index: number }>({ input: '', index: -1 });
   const isComposingRef = useRef(false);
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   // Track whether the user is actively editing to avoid external value overwriting keystrokes
@@ -47,6 +86,185 @@ export function SearchBar({ value, onChange, placeholder = '搜尋物品...' }:
     onChange('');
   }, [onChange]);
 
+  const { categories } = useItemData();
+  const { recentSearches, recentItemIds, addRecentSearch, removeRecentSearch } = useSearchHistory();
+  const suggestions = useSearchSuggestions(localValue, categories, isOpen);
+
+  const sections = useMemo<SuggestionSection[]>(() => {
+    const result: SuggestionSection[] = [];
+
+    if (!suggestions.text) {
+      // Empty input: offer history
+      const recent = recentSearches.slice(0, MAX_HISTORY_SUGGESTIONS);
+      if (recent.length > 0) {
+        result.push({ title: '最近搜尋', suggestions: recent.map(query => ({ type: 'recent', query })) });
+      }
+      const viewed = recentItemIds
+        .map(id => getItemById(id))
+        .filter((item): item is Item => item !== undefined)
+        .slice(0, MAX_HISTORY_SUGGESTIONS);
+      if (viewed.length > 0) {
+        result.push({ title: '最近查看', suggestions: viewed.map(item => ({ type: 'viewed', item })) });
+      }
+      return result;
+    }
+
+    if (suggestions.items.length > 0) {
+      result.push({ title: '物品', suggestions: suggestions.items.map(r => ({ type: 'item', item: r.item })) });
+    }
+    if (suggestions.categories.length > 0) {
+      result.push({ title: '分類', suggestions: suggestions.categories.map(category => ({ type: 'category', category })) });
+    }
+    const needle = suggestions.text.toLowerCase();
+    const recent = recentSearches
+      .filter(query => query !== localValue.trim() && query.toLowerCase().includes(needle))
+      .slice(0, MAX_MATCHING_HISTORY);
+    if (recent.length > 0) {
+      result.push({ title: '最近搜尋', suggestions: recent.map(query => ({ type: 'recent', query })) });
+    }
+    return result;
+  }, [suggestions, recentSearches, recentItemIds, localValue]);
+
+  const flatSuggestions = useMemo(() => sections.flatMap(section => section.suggestions), [sections]);
+  const activeIndex = active.input === localValue ? Math.min(active.index, flatSuggestions.length - 1) : -1;
+  const showDropdown = isOpen && flatSuggestions.length > 0;
+
+  // Run a query right away (no debounce) and remember it
+  const applyQuery = useCallback((query: string) => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+    setLocalValue(query);
+    onChange(query);
+    addRecentSearch(query);
+  }, [onChange, addRecentSearch]);
+
+  const selectSuggestion = useCallback((suggestion: Suggestion) => {
+    setIsOpen(false);
+    switch (suggestion.type) {
+      case 'item':
+      case 'viewed':
+        onItemSelect?.(suggestion.item.id);
+        break;
+      case 'category':
+        // Swap the typed text for the category term, keeping other structured terms
+        applyQuery(replaceQueryText(localValue, `cat:${suggestion.category.id}`));
+        break;
+      case 'recent':
+        applyQuery(suggestion.query);
+        break;
+    }
+  }, [localValue, onItemSelect, applyQuery]);
+
+  const handleKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
+    // Keys confirm IME candidates while composing
+    if (isComposingRef.current || e.nativeEvent.isComposing) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (flatSuggestions.length === 0) return;
+        e.preventDefault();
+        setIsOpen(true);
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        const start = activeIndex === -1 && step === -1 ? 0 : activeIndex;
+        const index = (start + step + flatSuggestions.length) % flatSuggestions.length;
+        setActive({ input: localValue, index });
+        break;
+      }
+      case 'Enter':
+        if (showDropdown && activeIndex >= 0) {
+          e.preventDefault();
+          selectSuggestion(flatSuggestions[activeIndex]);
+        } else {
+          setIsOpen(false);
+          applyQuery(localValue);
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        break;
+    }
+  }, [flatSuggestions, activeIndex, localValue, showDropdown, selectSuggestion, applyQuery]);
+
+  const renderSuggestion = (suggestion: Suggestion, index: number) => {
+    const isActive = index === activeIndex;
+    const key = suggestionKey(suggestion);
+
+    let content;
+    switch (suggestion.type) {
+      case 'item':
+      case 'viewed':
+        content = (
+          <>
+            <img
+              src={getItemIconUrl(suggestion.item.icon)}
+              alt=""
+              className="w-6 h-6 flex-shrink-0 object-contain"
+              loading="lazy"
+            />
+            <span className={`truncate ${getRarityClass(suggestion.item.rarity)}`}>{suggestion.item.name}</span>
+            <span className="ml-auto text-xs text-[var(--ffxiv-muted)] flex-shrink-0">
+              {suggestion.item.itemLevel > 1 && `iLv ${suggestion.item.itemLevel}`}
+            </span>
+          </>
+        );
+        break;
+      case 'category':
+        content = (
+          <>
+            <span className="text-xs px-1.5 py-0.5 rounded bg-[var(--ffxiv-accent)]/30 flex-shrink-0">分類</span>
+            <span className="truncate">{suggestion.category.name}</span>
+          </>
+        );
+        break;
+      case 'recent':
+        content = (
+          <>
+            <svg className="w-4 h-4 flex-shrink-0 text-[var(--ffxiv-muted)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="truncate">{suggestion.query}</span>
+            <button
+              type="button"
+              className="ml-auto text-xs text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-highlight)] flex-shrink-0"
+              title="移除"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                removeRecentSearch(suggestion.query);
+              }}
+            >
+              ✕
+            </button>
+          </>
+        );
+        break;
+    }
+
+    return (
+      <li
+        key={key}
+        id={`search-suggestion-${index}`}
+        role="option"
+        aria-selected={isActive}
+        // mousedown (not click) so the input's blur doesn't close the list first
+        onMouseDown={(e) => {
+          e.preventDefault();
+          selectSuggestion(suggestion);
+        }}
+        onMouseEnter={() => setActive({ input: localValue, index })}
+        className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer text-[var(--ffxiv-text)] ${
+          isActive ? 'bg-[var(--ffxiv-card-hover)]' : ''
+        }`}
+      >
+        {content}
+      </li>
+    );
+  };
+
+  let suggestionIndex = 0;
+
   return (
     <div className="relative">
       <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -67,9 +285,19 @@ export function SearchBar({ value, onChange, placeholder = '搜尋物品...' }:
       <input
         type="text"
         value={localValue}
-        onChange={(e) => setLocalValue(e.target.value)}
-        onFocus={() => { isFocusedRef.current = true; }}
-        onBlur={() => { isFocusedRef.current = false; }}
+        onChange={(e) => {
+          setLocalValue(e.target.value);
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => {
+          isFocusedRef.current = true;
+          setIsOpen(true);
+        }}
+        onBlur={() => {
+          isFocusedRef.current = false;
+          setIsOpen(false);
+        }}
         onCompositionStart={() => { isComposingRef.current = true; }}
         onCompositionEnd={(e) => {
           isComposingRef.current = false;
@@ -80,6 +308,11 @@ export function SearchBar({ value, onChange, placeholder = '搜尋物品...' }:
           triggerSearch(finalValue);
         }}
         placeholder={placeholder}
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls="search-suggestions"
+        aria-autocomplete="list"
+        aria-activedescendant={showDropdown && activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
         className="w-full pl-10 pr-10 py-3 bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded-lg text-[var(--ffxiv-text)] placeholder-[var(--ffxiv-muted)] focus:outline-none focus:border-[var(--ffxiv-accent)] transition-colors"
       />
       {localValue && (
@@ -97,6 +330,22 @@ export function SearchBar({ value, onChange, placeholder = '搜尋物品...' }:
           </svg>
         </button>
       )}
+      {showDropdown && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute z-20 left-0 right-0 mt-1 py-1 max-h-96 overflow-y-auto bg-[var(--ffxiv-card)] border border-[var(--ffxiv-border)] rounded-lg shadow-[var(--ffxiv-shadow-lg)]"
+        >
+          {sections.map(section => (
+            <li key={section.title} role="presentation">
+              <div className="px-3 pt-2 pb-1 text-xs text-[var(--ffxiv-muted)]">{section.title}</div>
+              <ul role="group">
+                {section.suggestions.map(suggestion => renderSuggestion(suggestion, suggestionIndex++))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -1,6 +1,10 @@
 // Settings modal component
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSettings, DEFAULT_CRAFTER_STATS, DEFAULT_TAB_ORDER } from '../hooks/useSettings';
+import { useRecipeData } from '../hooks/useItemData';
+import { getItemById } from '../services/searchService';
+import { getCraftTypeName } from '../utils/recipeChoice';
+import { MarketServerSelect } from './MarketServerSelect';
 import type { CrafterAttributes } from '../types/crafting';
 
 interface SettingsModalProps {
@@ -12,14 +16,34 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const {
     crafterStats,
     tabOrder,
+    marketServer,
+    recipePreference,
     setCrafterStats,
+    setMarketServer,
+    setRecipePreference,
     moveTabUp,
     moveTabDown,
     setTabOrder,
   } = useSettings();
 
+  const { recipes } = useRecipeData();
+
   // Local state for form editing
   const [localStats, setLocalStats] = useState<CrafterAttributes>(crafterStats);
+  const [bookToAdd, setBookToAdd] = useState('');
+
+  // Every master recipe book some recipe needs
+  const masterBooks = useMemo(() => {
+    const ids = new Set<number>();
+    for (const itemRecipes of Object.values(recipes)) {
+      for (const recipe of itemRecipes) {
+        if (recipe.secretRecipeBook) ids.add(recipe.secretRecipeBook);
+      }
+    }
+    return Array.from(ids)
+      .map(id => ({ id, name: getItemById(id)?.name ?? `#${id}` }))
+      .sort((a, b) => a.id - b.id);
+  }, [recipes]);
 
   // Sync local state when modal opens
   useEffect(() => {
@@ -127,6 +151,122 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             </div>
           </div>
 
+          {/* Market Server Section */}
+          <div>
+            <h3 className="text-sm font-medium text-[var(--ffxiv-text)] mb-3 flex items-center gap-2">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              市場伺服器
+            </h3>
+            <p className="text-xs text-[var(--ffxiv-muted)] mb-2">
+              所有市場價格、製作成本與追蹤清單都以此伺服器、資料中心或地區計算
+            </p>
+            <MarketServerSelect
+              value={marketServer}
+              onChange={setMarketServer}
+              className="w-full px-3 py-2 bg-[var(--ffxiv-bg)] border border-[var(--ffxiv-border)] rounded text-sm text-[var(--ffxiv-text)] focus:border-[var(--ffxiv-accent)] focus:outline-none"
+            />
+          </div>
+
+          {/* Recipe Preference Section */}
+          <div>
+            <h3 className="text-sm font-medium text-[var(--ffxiv-text)] mb-3 flex items-center gap-2">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+              </svg>
+              配方選擇
+            </h3>
+            <p className="text-xs text-[var(--ffxiv-muted)] mb-2">
+              物品有多個配方時，製作成本與材料樹優先使用符合條件的配方；也可在樹中逐一手動選擇
+            </p>
+            <label className="flex items-center gap-2 text-sm cursor-pointer mb-2">
+              <input
+                type="checkbox"
+                checked={recipePreference.preferLeveledJobs}
+                onChange={(e) => setRecipePreference({ preferLeveledJobs: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <span className="text-[var(--ffxiv-text)]">優先使用等級足夠的職業</span>
+            </label>
+            {recipePreference.preferLeveledJobs && (
+              <div className="grid grid-cols-4 gap-2 mb-3">
+                {Array.from({ length: 8 }, (_, craftType) => (
+                  <div key={craftType}>
+                    <label className="block text-xs text-[var(--ffxiv-muted)] mb-1">{getCraftTypeName(craftType)}</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={recipePreference.jobLevels[craftType] ?? 0}
+                      onChange={(e) => setRecipePreference({
+                        jobLevels: {
+                          ...recipePreference.jobLevels,
+                          [craftType]: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)),
+                        },
+                      })}
+                      className="w-full px-2 py-1 bg-[var(--ffxiv-bg)] border border-[var(--ffxiv-border)] rounded text-sm text-[var(--ffxiv-text)] focus:border-[var(--ffxiv-accent)] focus:outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm cursor-pointer mb-2">
+              <input
+                type="checkbox"
+                checked={recipePreference.avoidUnownedBooks}
+                onChange={(e) => setRecipePreference({ avoidUnownedBooks: e.target.checked })}
+                className="w-4 h-4"
+              />
+              <span className="text-[var(--ffxiv-text)]">避開沒有的秘籍配方</span>
+            </label>
+            {recipePreference.avoidUnownedBooks && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <select
+                    value={bookToAdd}
+                    onChange={(e) => setBookToAdd(e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1 bg-[var(--ffxiv-bg)] border border-[var(--ffxiv-border)] rounded text-sm text-[var(--ffxiv-text)] focus:border-[var(--ffxiv-accent)] focus:outline-none"
+                  >
+                    <option value="">選擇擁有的秘籍...</option>
+                    {masterBooks
+                      .filter(book => !recipePreference.ownedBooks.includes(book.id))
+                      .map(book => (
+                        <option key={book.id} value={book.id}>{book.name}</option>
+                      ))}
+                  </select>
+                  <button
+                    onClick={() => {
+                      if (!bookToAdd) return;
+                      setRecipePreference({ ownedBooks: [...recipePreference.ownedBooks, Number(bookToAdd)] });
+                      setBookToAdd('');
+                    }}
+                    disabled={!bookToAdd}
+                    className="px-3 py-1 text-sm bg-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent-hover)] text-white rounded transition-colors disabled:opacity-50"
+                  >
+                    新增
+                  </button>
+                </div>
+                {recipePreference.ownedBooks.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {recipePreference.ownedBooks.map(id => (
+                      <span key={id} className="flex items-center gap-1 px-2 py-0.5 bg-[var(--ffxiv-bg)] border border-[var(--ffxiv-border)] rounded text-xs">
+                        {getItemById(id)?.name ?? `#${id}`}
+                        <button
+                          onClick={() => setRecipePreference({ ownedBooks: recipePreference.ownedBooks.filter(b => b !== id) })}
+                          className="text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-error)]"
+                          title="移除"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Tab Order Section */}
           <div>
             <h3 className="text-sm font-medium text-[var(--ffxiv-text)] mb-3 flex items-center gap-2">
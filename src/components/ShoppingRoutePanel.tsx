@@ -0,0 +1,210 @@
+// Cross-world shopping route for everything a price check list still needs to buy
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import type { MarketListing } from '../types';
+import type { PriceCheckListItemData } from '../hooks/usePriceCheckListData';
+import { useSettings } from '../hooks/useSettings';
+import { getMultipleMarketData } from '../services/marketCache';
+import { getItemById } from '../services/searchService';
+import { getItemIconUrl } from '../services/xivapiService';
+import { formatPrice } from '../services/universalisApi';
+import { getAllWorlds, getServerWorldIds } from '../services/worldData';
+import { collectPurchaseNeeds, planShoppingRoute, type ShoppingNeed } from '../utils/shoppingRoute';
+
+const DEFAULT_TRAVEL_PENALTY = 2000;
+
+interface ShoppingRoutePanelProps {
+  items: PriceCheckListItemData[];
+  ownedMaterials: Record<number, number>;
+  customPrices: Record<number, number>;
+}
+
+export function ShoppingRoutePanel({ items, ownedMaterials, customPrices }: ShoppingRoutePanelProps) {
+  const { marketServer } = useSettings();
+  const [listings, setListings] = useState<{ key: string; byItem: Record<number, MarketListing[]> } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [travelPenalty, setTravelPenalty] = useState(DEFAULT_TRAVEL_PENALTY);
+  const [homeWorld, setHomeWorld] = useState('');
+
+  // Everything to buy across the list, minus what's already owned
+  const needs = useMemo<ShoppingNeed[]>(() => {
+    const totals = new Map<number, number>();
+    for (const data of items) {
+      if (data.tree) {
+        collectPurchaseNeeds(data.tree, customPrices, totals);
+      } else if (customPrices[data.listItem.itemId] === undefined) {
+        totals.set(data.listItem.itemId, (totals.get(data.listItem.itemId) ?? 0) + data.listItem.quantity);
+      }
+    }
+    return Array.from(totals.entries())
+      .map(([itemId, quantity]) => ({ itemId, quantity: quantity - (ownedMaterials[itemId] ?? 0) }))
+      .filter(need => need.quantity > 0);
+  }, [items, ownedMaterials, customPrices]);
+
+  const requestKey = `${marketServer}:${needs.map(n => n.itemId).sort((a, b) => a - b).join(',')}`;
+
+  // Listings come from the shared cache, so this is usually free after the list has loaded
+  useEffect(() => {
+    if (needs.length === 0) return;
+    let cancelled = false;
+    getMultipleMarketData(needs.map(n => n.itemId), marketServer)
+      .then(data => {
+        if (cancelled) return;
+        const byItem: Record<number, MarketListing[]> = {};
+        for (const [id, market] of Object.entries(data)) {
+          // Single-world queries leave worldName out
+          byItem[Number(id)] = (market.listings ?? []).map(l => ({ ...l, worldName: l.worldName ?? marketServer }));
+        }
+        setListings({ key: requestKey, byItem });
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : '發生錯誤');
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requestKey]);
+
+  const worlds = useMemo(() => {
+    const ids = new Set(getServerWorldIds(marketServer));
+    return getAllWorlds().filter(w => ids.has(w.id)).map(w => w.name);
+  }, [marketServer]);
+
+  const route = useMemo(() => {
+    if (!listings || listings.key !== requestKey) return null;
+    return planShoppingRoute(needs, listings.byItem, {
+      travelPenalty,
+      homeWorld: homeWorld || undefined,
+      worldOrder: getAllWorlds().map(w => w.name),
+    });
+  }, [listings, requestKey, needs, travelPenalty, homeWorld]);
+
+  const loading = needs.length > 0 && !route && !error;
+
+  return (
+    <div className="p-4 mb-4 bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)]">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
+        <h2 className="text-base font-bold text-[var(--ffxiv-text)]">採購路線</h2>
+        <div className="flex items-center gap-4 flex-wrap">
+          <label className="flex items-center gap-2 text-sm">
+            <span className="text-[var(--ffxiv-muted)]">每多跑一個伺服器</span>
+            <input
+              type="number"
+              min={0}
+              step={500}
+              value={travelPenalty}
+              onChange={(e) => setTravelPenalty(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-24 bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-right focus:outline-none focus:border-[var(--ffxiv-highlight)]"
+            />
+            <span className="text-[var(--ffxiv-muted)]">gil</span>
+          </label>
+          {worlds.length > 1 && (
+            <label className="flex items-center gap-2 text-sm">
+              <span className="text-[var(--ffxiv-muted)]">所在伺服器</span>
+              <select
+                value={homeWorld}
+                onChange={(e) => setHomeWorld(e.target.value)}
+                className="bg-[var(--ffxiv-card)] border border-[var(--ffxiv-border)] rounded px-2 py-1 text-sm focus:outline-none focus:border-[var(--ffxiv-highlight)]"
+              >
+                <option value="">不指定</option>
+                {worlds.map(world => (
+                  <option key={world} value={world}>{world}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      </div>
+
+      {needs.length === 0 && (
+        <div className="text-sm text-[var(--ffxiv-muted)]">沒有需要從市場購買的材料</div>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-[var(--ffxiv-highlight)] border-t-transparent"></div>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-[var(--ffxiv-error)]">{error}</div>}
+
+      {route && needs.length > 0 && (
+        <>
+          {/* Totals */}
+          <div className="flex items-center gap-4 flex-wrap text-sm mb-4">
+            <span className="text-[var(--ffxiv-muted)]">
+              材料 <span className="text-[var(--ffxiv-text)]">{formatPrice(route.itemCost)}</span> gil
+            </span>
+            <span className="text-[var(--ffxiv-muted)]">
+              移動 <span className="text-[var(--ffxiv-text)]">{formatPrice(route.travelCost)}</span> gil
+            </span>
+            <span className="text-[var(--ffxiv-muted)]">
+              合計 <span className="font-medium text-[var(--ffxiv-highlight)]">{formatPrice(route.totalCost)}</span> gil
+            </span>
+            <span className="text-[var(--ffxiv-muted)]">{route.stops.length} 個伺服器</span>
+          </div>
+
+          {/* Stops in travel order */}
+          <div className="space-y-3">
+            {route.stops.map((stop, index) => (
+              <div key={stop.world} className="bg-[var(--ffxiv-card)] rounded-lg border border-[var(--ffxiv-border)]">
+                <div className="flex items-center justify-between px-3 py-2 border-b border-[var(--ffxiv-border)]">
+                  <span className="text-sm font-medium text-[var(--ffxiv-text)]">
+                    {index + 1}. {stop.world}
+                    {stop.world === homeWorld && <span className="ml-2 text-xs text-[var(--ffxiv-muted)]">(所在伺服器)</span>}
+                  </span>
+                  <span className="text-sm text-[var(--ffxiv-muted)]">{formatPrice(stop.subtotal)} gil</span>
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {stop.purchases.map(({ itemId, listing, cost }) => {
+                      const item = getItemById(itemId);
+                      return (
+                        <tr key={listing.listingID} className="border-b border-[var(--ffxiv-border)] last:border-b-0">
+                          <td className="px-3 py-1.5">
+                            <Link to={`/item/${itemId}`} className="flex items-center gap-2 hover:text-[var(--ffxiv-highlight)]">
+                              <img
+                                src={getItemIconUrl(item?.icon ?? 0)}
+                                alt={item?.name ?? ''}
+                                className="w-6 h-6 object-contain"
+                                onError={(e) => {
+                                  (e.target as HTMLImageElement).src = getItemIconUrl(0);
+                                }}
+                              />
+                              <span className="truncate">{item?.name ?? `#${itemId}`}</span>
+                              {listing.hq && <span className="text-xs text-[var(--ffxiv-highlight)]">HQ</span>}
+                            </Link>
+                          </td>
+                          <td className="px-3 py-1.5 text-[var(--ffxiv-muted)]">{listing.retainerName}</td>
+                          <td className="px-3 py-1.5 text-right">{listing.quantity}</td>
+                          <td className="px-3 py-1.5 text-right text-[var(--ffxiv-muted)]">{formatPrice(listing.pricePerUnit)}</td>
+                          <td className="px-3 py-1.5 text-right">{formatPrice(cost)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+
+          {/* Quantities the listings couldn't cover */}
+          {route.shortfalls.length > 0 && (
+            <div className="mt-4 p-3 rounded-lg border border-[var(--ffxiv-warning)]/40 bg-[var(--ffxiv-warning)]/10 text-sm">
+              <div className="text-[var(--ffxiv-warning)] mb-1">上架數量不足（只計算每個物品最便宜的上架）</div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-[var(--ffxiv-text-secondary)]">
+                {route.shortfalls.map(shortfall => (
+                  <span key={shortfall.itemId}>
+                    {getItemById(shortfall.itemId)?.name ?? `#${shortfall.itemId}`} 缺 {shortfall.quantity}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useItemData } from '../../hooks/useItemData';
 import { getItemIconUrl } from '../../services/xivapiService';
-import type { Item, FoodBonus } from '../../types';
+import { calculateFoodBonus } from '../../utils/foodEffects';
+import type { Item } from '../../types';
 import type { CraftingConsumables } from '../../hooks/useSettings';
 
 interface ConsumableSelectorProps {
@@ -19,20 +20,6 @@ function isCraftingConsumable(item: Item): boolean {
   );
 }
 
-// Calculate bonus value from food effect
-function calculateBonus(bonus: FoodBonus, baseValue: number, isHq: boolean): number {
-  const percent = isHq ? bonus.valueHq : bonus.value;
-  const max = isHq ? bonus.maxHq : bonus.max;
-
-  if (bonus.isRelative) {
-    // Percentage bonus, capped at max
-    return Math.min(Math.floor(baseValue * percent / 100), max);
-  } else {
-    // Flat bonus
-    return percent;
-  }
-}
-
 export function ConsumableSelector({ consumables, onChange, defaultCollapsed }: ConsumableSelectorProps) {
   const { items, loading } = useItemData();
   const [collapsed, setCollapsed] = useState(defaultCollapsed ?? false);
@@ -315,7 +302,7 @@ export function calculateEffectiveStats(
   if (consumables.foodId && items[consumables.foodId]?.foodEffects?.bonuses) {
     const bonuses = items[consumables.foodId].foodEffects!.bonuses;
     bonuses.forEach(bonus => {
-      const value = calculateBonus(bonus,
+      const value = calculateFoodBonus(bonus,
         bonus.paramId === 70 ? craftsmanship :
         bonus.paramId === 71 ? control :
         craft_points,
@@ -332,7 +319,7 @@ export function calculateEffectiveStats(
   if (consumables.medicineId && items[consumables.medicineId]?.foodEffects?.bonuses) {
     const bonuses = items[consumables.medicineId].foodEffects!.bonuses;
     bonuses.forEach(bonus => {
-      const value = calculateBonus(bonus,
+      const value = calculateFoodBonus(bonus,
         bonus.paramId === 70 ? craftsmanship :
         bonus.paramId === 71 ? control :
         craft_points,
@@ -0,0 +1,240 @@
+// Gear set planner page: pick gear per slot, meld materia, see totals and market cost
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { EquipmentStatsView } from '../EquipmentStatsView';
+import { GearSlotRow } from './GearSlotRow';
+import { useGearSet } from '../../hooks/useGearSet';
+import { useSavedGearSets } from '../../hooks/useSavedGearSets';
+import { useGearSetCost } from '../../hooks/useGearSetCost';
+import { ensureFullItemData } from '../../hooks/useItemData';
+import { useSettings } from '../../hooks/useSettings';
+import { getItemById } from '../../services/searchService';
+import { loadMateriaData } from '../../services/materiaData';
+import { formatPrice } from '../../services/universalisApi';
+import { getMarketServerLabel } from '../../services/worldData';
+import { GEAR_JOB_GROUPS, getGearSetTotals, getSlotsForJob } from '../../utils/gearSet';
+import type { MateriaData } from '../../types';
+
+function getJobName(abbr: string): string {
+  for (const group of GEAR_JOB_GROUPS) {
+    const job = group.jobs.find(j => j.abbr === abbr);
+    if (job) return job.name;
+  }
+  return abbr;
+}
+
+export function GearSetPage() {
+  const navigate = useNavigate();
+  const { gearSet, setJob, setName, setPiece, loadGearSet } = useGearSet();
+  const { savedSets, saveGearSet, deleteGearSet } = useSavedGearSets();
+  const { marketServer } = useSettings();
+  const [fullDataReady, setFullDataReady] = useState(false);
+  const [materiaData, setMateriaData] = useState<MateriaData | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Equipment stats are only in the full item data
+  useEffect(() => {
+    ensureFullItemData().then(() => setFullDataReady(true));
+    loadMateriaData().then(setMateriaData);
+  }, []);
+
+  // Re-resolve items once the full data (with equipStats) has replaced the index entries
+  const getItem = useCallback(
+    (id: number) => (fullDataReady ? getItemById(id) : undefined),
+    [fullDataReady]
+  );
+
+  const slots = getSlotsForJob(gearSet.job);
+  const totals = getGearSetTotals(gearSet, getItem, materiaData);
+  const cost = useGearSetCost(gearSet, getItem);
+  const hasPieces = Object.keys(gearSet.pieces).length > 0;
+  const displayName = gearSet.name || `${getJobName(gearSet.job)} 配裝`;
+
+  const handleSave = () => {
+    saveGearSet({ ...gearSet, name: displayName });
+    if (!gearSet.name) setName(displayName);
+  };
+
+  // The URL holds the whole set, so sharing is copying the page link
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      {/* Back button */}
+      <button
+        onClick={() => navigate(-1)}
+        className="inline-flex items-center gap-1 text-sm text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] mb-4 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        返回搜尋
+      </button>
+
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+        <h1 className="text-xl font-bold text-[var(--ffxiv-text)]">配裝規劃</h1>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select
+            value={gearSet.job}
+            onChange={(e) => setJob(e.target.value)}
+            className="bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer"
+          >
+            {GEAR_JOB_GROUPS.map(group => (
+              <optgroup key={group.name} label={group.name}>
+                {group.jobs.map(job => (
+                  <option key={job.abbr} value={job.abbr}>
+                    {job.name}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={gearSet.name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={displayName}
+            className="w-40 bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)]"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!hasPieces}
+            className="px-3 py-1.5 text-sm bg-[var(--ffxiv-accent)] hover:bg-[var(--ffxiv-accent-hover)] text-white rounded transition-colors disabled:opacity-50"
+          >
+            儲存
+          </button>
+          <button
+            onClick={handleCopyLink}
+            disabled={!hasPieces}
+            className="px-3 py-1.5 text-sm text-[var(--ffxiv-highlight)] hover:bg-[var(--ffxiv-highlight)]/10 rounded transition-colors disabled:opacity-50"
+          >
+            {copied ? '已複製!' : '複製分享連結'}
+          </button>
+          {hasPieces && (
+            <button
+              onClick={() => loadGearSet({ ...gearSet, pieces: {} })}
+              className="px-3 py-1.5 text-sm text-[var(--ffxiv-error)] hover:bg-[var(--ffxiv-error)]/10 rounded transition-colors"
+            >
+              清空
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Saved sets */}
+      {savedSets.length > 0 && (
+        <div className="flex items-center gap-2 flex-wrap mb-4">
+          <span className="text-xs text-[var(--ffxiv-muted)]">已儲存</span>
+          {savedSets.map(saved => (
+            <span
+              key={saved.id}
+              className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded bg-[var(--ffxiv-bg-tertiary)] text-[var(--ffxiv-text-secondary)]"
+            >
+              <button
+                onClick={() => loadGearSet(saved)}
+                className="hover:text-[var(--ffxiv-accent)]"
+                title="載入配裝"
+              >
+                {saved.name}
+                <span className="ml-1 text-[var(--ffxiv-muted)]">{getJobName(saved.job)}</span>
+              </button>
+              <button
+                onClick={() => deleteGearSet(saved.id)}
+                className="text-[var(--ffxiv-muted)] hover:text-red-400"
+                title="刪除"
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {!fullDataReady ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-3 border-[var(--ffxiv-border)] border-t-[var(--ffxiv-accent)]"></div>
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-5">
+          {/* Slots */}
+          <div className="lg:col-span-3 space-y-2">
+            {slots.map(slot => (
+              <GearSlotRow
+                key={slot.id}
+                slot={slot}
+                job={gearSet.job}
+                piece={gearSet.pieces[slot.id]}
+                item={gearSet.pieces[slot.id] ? getItem(gearSet.pieces[slot.id]!.itemId) : undefined}
+                materiaData={materiaData}
+                onChange={(piece) => setPiece(slot.id, piece)}
+              />
+            ))}
+          </div>
+
+          {/* Totals and cost */}
+          <div className="lg:col-span-2 space-y-4 lg:sticky lg:top-[89px] lg:self-start">
+            {totals.warnings.map(warning => (
+              <div key={warning} className="p-3 text-sm rounded-lg bg-[var(--ffxiv-error)]/10 text-[var(--ffxiv-error)]">
+                {warning}
+              </div>
+            ))}
+
+            <EquipmentStatsView equipStats={totals.equipStats} />
+
+            {totals.wastedMelds.length > 0 && (
+              <p className="text-xs text-[var(--ffxiv-warning)]">
+                有 {totals.wastedMelds.reduce((sum, meld) => sum + meld.amount, 0)} 點魔晶石屬性超出裝備上限而未計入
+              </p>
+            )}
+
+            <div className="bg-[var(--ffxiv-bg-secondary)] rounded-lg border border-[var(--ffxiv-border)] overflow-hidden">
+              <div className="px-4 py-2 bg-[var(--ffxiv-card)] border-b border-[var(--ffxiv-border)] flex items-center justify-between">
+                <h3 className="text-sm font-medium text-[var(--ffxiv-highlight)]">市場價格</h3>
+                <span className="text-xs text-[var(--ffxiv-muted)]">{getMarketServerLabel(marketServer)}</span>
+              </div>
+              <div className="p-4 space-y-1 text-sm">
+                {cost.lines.length === 0 && (
+                  <div className="text-[var(--ffxiv-muted)]">尚未選擇裝備</div>
+                )}
+                {cost.lines.map(line => (
+                  <div key={`${line.itemId}:${line.hq}`} className="flex items-center justify-between gap-2">
+                    <span className="truncate text-[var(--ffxiv-text-secondary)]">
+                      {getItem(line.itemId)?.name ?? line.itemId}
+                      {line.hq && <span className="ml-1 text-[var(--ffxiv-highlight)]">HQ</span>}
+                      {line.quantity > 1 && <span className="ml-1 text-[var(--ffxiv-muted)]">×{line.quantity}</span>}
+                    </span>
+                    <span className="tabular-nums text-[var(--ffxiv-text)]">
+                      {line.unitPrice !== null
+                        ? formatPrice(line.unitPrice * line.quantity)
+                        : cost.loading ? '…' : getItem(line.itemId)?.isUntradable ? '不可交易' : '無掛單'}
+                    </span>
+                  </div>
+                ))}
+                {cost.lines.length > 0 && (
+                  <div className="flex items-center justify-between pt-2 mt-2 border-t border-[var(--ffxiv-border)] font-medium">
+                    <span>總計</span>
+                    <span className="tabular-nums text-[var(--ffxiv-highlight)]">
+                      {cost.loading ? '載入中...' : `${formatPrice(cost.total)} gil`}
+                    </span>
+                  </div>
+                )}
+                {!cost.loading && cost.missing > 0 && (
+                  <div className="text-xs text-[var(--ffxiv-muted)]">{cost.missing} 項沒有市場價格，未計入總計</div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+// One gear slot: item picker, HQ toggle and materia melds
+import { useState, useEffect } from 'react';
+import type { GearPiece, Item, MateriaData, SearchResult } from '../../types';
+import { searchItems, getItemById } from '../../services/searchService';
+import { getItemIconUrl } from '../../services/xivapiService';
+import { getMateriaByStat } from '../../services/materiaData';
+import { DEFAULT_FILTERS } from '../../hooks/useSearch';
+import { getMeldSlotCount, getPieceStats, type GearSlot } from '../../utils/gearSet';
+import { getRarityClass } from '../../utils/rarity';
+
+const PICKER_LIMIT = 40;
+
+interface GearSlotRowProps {
+  slot: GearSlot;
+  job: string;
+  piece: GearPiece | undefined;
+  item: Item | undefined;
+  materiaData: MateriaData | null;
+  onChange: (piece: GearPiece | null) => void;
+}
+
+export function GearSlotRow({ slot, job, piece, item, materiaData, onChange }: GearSlotRowProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [pickerText, setPickerText] = useState('');
+  const [candidates, setCandidates] = useState<SearchResult[]>([]);
+
+  // Candidates for the slot: the job's items in the slot's categories, highest item level first
+  useEffect(() => {
+    if (!pickerOpen) return;
+
+    const controller = new AbortController();
+    const categories = slot.categoryIds.map(id => `cat:${id}`).join(' OR ');
+    searchItems(
+      { ...DEFAULT_FILTERS, query: `${pickerText} (${categories})`.trim(), selectedJobs: [job] },
+      PICKER_LIMIT,
+      controller.signal,
+      { key: 'ilvl', desc: true }
+    )
+      .then(data => setCandidates(data.results))
+      .catch((err: unknown) => {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error('Gear search failed:', err);
+      });
+
+    return () => controller.abort();
+  }, [pickerOpen, pickerText, slot, job]);
+
+  const selectItem = (selected: Item) => {
+    onChange({ itemId: selected.id, hq: !!selected.canBeHq, materia: [] });
+    setPickerOpen(false);
+    setPickerText('');
+  };
+
+  const setMateria = (index: number, materiaId: number | null) => {
+    if (!piece) return;
+    const materia = [...piece.materia];
+    if (materiaId === null) materia.splice(index, 1);
+    else materia[index] = materiaId;
+    onChange({ ...piece, materia });
+  };
+
+  const meldSlots = item ? getMeldSlotCount(item) : 0;
+  const guaranteedSlots = item?.equipStats?.materiaSlots ?? 0;
+  const melds = item && piece ? getPieceStats(item, piece, materiaData).melds : [];
+  const materiaGroups = materiaData ? getMateriaByStat(materiaData) : [];
+
+  return (
+    <div className="p-3 bg-[var(--ffxiv-card)] rounded-lg border border-[var(--ffxiv-border)]">
+      <div className="flex items-center gap-3">
+        <span className="w-10 flex-shrink-0 text-xs text-[var(--ffxiv-muted)]">{slot.label}</span>
+
+        {item && piece ? (
+          <div className="flex items-center gap-2 flex-1 min-w-0">
+            <img src={getItemIconUrl(item.icon)} alt="" className="w-8 h-8 flex-shrink-0 object-contain" />
+            <div className="flex-1 min-w-0">
+              <div className={`text-sm truncate ${getRarityClass(item.rarity)}`}>{item.name}</div>
+              <div className="text-xs text-[var(--ffxiv-muted)]">品級 {item.itemLevel}</div>
+            </div>
+            {item.canBeHq && (
+              <button
+                onClick={() => onChange({ ...piece, hq: !piece.hq })}
+                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                  piece.hq
+                    ? 'bg-[var(--ffxiv-accent)] text-white'
+                    : 'bg-[var(--ffxiv-bg-tertiary)] text-[var(--ffxiv-text-secondary)]'
+                }`}
+                title="切換 HQ"
+              >
+                HQ
+              </button>
+            )}
+            <button
+              onClick={() => setPickerOpen(open => !open)}
+              className="text-xs text-[var(--ffxiv-accent)] hover:underline"
+            >
+              更換
+            </button>
+            <button
+              onClick={() => onChange(null)}
+              className="text-[var(--ffxiv-muted)] hover:text-red-400 px-1"
+              title="移除"
+            >
+              ✕
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setPickerOpen(open => !open)}
+            className="flex-1 text-left text-sm text-[var(--ffxiv-muted)] hover:text-[var(--ffxiv-accent)] transition-colors"
+          >
+            + 選擇裝備
+          </button>
+        )}
+      </div>
+
+      {/* Item picker */}
+      {pickerOpen && (
+        <div className="mt-3 space-y-2">
+          <input
+            type="text"
+            value={pickerText}
+            onChange={(e) => setPickerText(e.target.value)}
+            placeholder="篩選名稱或條件（例：ilvl:>=700）"
+            className="w-full bg-[var(--ffxiv-bg-tertiary)] border border-[var(--ffxiv-border)] rounded px-3 py-1.5 text-sm text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)]"
+            autoFocus
+          />
+          <div className="max-h-64 overflow-y-auto divide-y divide-[var(--ffxiv-border)] rounded border border-[var(--ffxiv-border)]">
+            {candidates.length === 0 && (
+              <div className="px-3 py-2 text-xs text-[var(--ffxiv-muted)]">沒有符合的裝備</div>
+            )}
+            {candidates.map(({ item: candidate }) => (
+              <button
+                key={candidate.id}
+                onClick={() => selectItem(getItemById(candidate.id) ?? candidate)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-left bg-[var(--ffxiv-bg-secondary)] hover:bg-[var(--ffxiv-card-hover)] transition-colors"
+              >
+                <img src={getItemIconUrl(candidate.icon)} alt="" className="w-6 h-6 flex-shrink-0 object-contain" loading="lazy" />
+                <span className={`flex-1 text-sm truncate ${getRarityClass(candidate.rarity)}`}>{candidate.name}</span>
+                <span className="text-xs text-[var(--ffxiv-muted)] tabular-nums">{candidate.itemLevel}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Materia melds */}
+      {piece && meldSlots > 0 && (
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {Array.from({ length: meldSlots }, (_, index) => {
+            const isOvermeld = index >= guaranteedSlots;
+            return (
+              <select
+                key={index}
+                value={piece.materia[index] ?? ''}
+                onChange={(e) => setMateria(index, e.target.value ? parseInt(e.target.value) : null)}
+                // Materia go in order, so a slot opens once the previous one is filled
+                disabled={index > piece.materia.length || !materiaData}
+                className={`bg-[var(--ffxiv-bg-tertiary)] border rounded px-2 py-1 text-xs text-[var(--ffxiv-text)] focus:outline-none focus:border-[var(--ffxiv-accent)] cursor-pointer disabled:opacity-50 ${
+                  isOvermeld ? 'border-[var(--ffxiv-warning)]/50' : 'border-[var(--ffxiv-border)]'
+                }`}
+              >
+                <option value="">{isOvermeld ? `禁斷 ${index + 1}` : `魔晶石 ${index + 1}`}</option>
+                {materiaGroups.map(group => (
+                  <optgroup key={group.paramId} label={group.paramName}>
+                    {group.materia.map(materia => (
+                      <option key={materia.itemId} value={materia.itemId}>
+                        {getItemById(materia.itemId)?.name ?? group.paramName} +{materia.value}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Materia over the item's stat cap */}
+      {melds.some(meld => meld.wasted > 0) && (
+        <div className="mt-2 text-xs text-[var(--ffxiv-warning)]">
+          {melds
+            .filter(meld => meld.wasted > 0)
+            .map(meld => `${meld.paramName} 超出上限 ${meld.wasted}`)
+            .join('、')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+// Gear set planner components exports
+export { GearSetPage } from './GearSetPage';
+export { GearSlotRow } from './GearSlotRow';
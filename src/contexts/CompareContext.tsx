@@ -0,0 +1,99 @@
+// Equipment compare context: items picked for the side-by-side compare page
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+
+const STORAGE_KEY = 'ffxiv-compare-items';
+
+// Columns that still fit side by side
+export const MAX_COMPARE_ITEMS = 4;
+
+function loadCompareIds(): number[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((id): id is number => typeof id === 'number').slice(0, MAX_COMPARE_ITEMS);
+      }
+    }
+  } catch (e) {
+    console.error('Failed to load compare items:', e);
+  }
+  return [];
+}
+
+function saveCompareIds(ids: number[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  } catch (e) {
+    console.error('Failed to save compare items:', e);
+  }
+}
+
+interface CompareContextValue {
+  compareIds: number[];
+  isComparing: (itemId: number) => boolean;
+  isFull: boolean;
+  toggleCompare: (itemId: number) => void;
+  removeCompare: (itemId: number) => void;
+  setBaseline: (itemId: number) => void;
+  clearCompare: () => void;
+}
+
+const CompareContext = createContext<CompareContextValue | null>(null);
+
+export function CompareProvider({ children }: { children: ReactNode }) {
+  const [compareIds, setCompareIds] = useState<number[]>(loadCompareIds);
+
+  // Save to localStorage when the selection changes
+  useEffect(() => {
+    saveCompareIds(compareIds);
+  }, [compareIds]);
+
+  const isComparing = useCallback((itemId: number) => compareIds.includes(itemId), [compareIds]);
+
+  // Add or remove an item; adding is ignored once the compare view is full
+  const toggleCompare = useCallback((itemId: number) => {
+    setCompareIds(prev => {
+      if (prev.includes(itemId)) return prev.filter(id => id !== itemId);
+      if (prev.length >= MAX_COMPARE_ITEMS) return prev;
+      return [...prev, itemId];
+    });
+  }, []);
+
+  const removeCompare = useCallback((itemId: number) => {
+    setCompareIds(prev => prev.filter(id => id !== itemId));
+  }, []);
+
+  // The first item is the one the others are compared against
+  const setBaseline = useCallback((itemId: number) => {
+    setCompareIds(prev => prev.includes(itemId) ? [itemId, ...prev.filter(id => id !== itemId)] : prev);
+  }, []);
+
+  const clearCompare = useCallback(() => {
+    setCompareIds([]);
+  }, []);
+
+  const value = useMemo(() => ({
+    compareIds,
+    isComparing,
+    isFull: compareIds.length >= MAX_COMPARE_ITEMS,
+    toggleCompare,
+    removeCompare,
+    setBaseline,
+    clearCompare,
+  }), [compareIds, isComparing, toggleCompare, removeCompare, setBaseline, clearCompare]);
+
+  return (
+    <CompareContext.Provider value={value}>
+      {children}
+    </CompareContext.Provider>
+  );
+}
+
+export function useCompare(): CompareContextValue {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+}
@@ -0,0 +1,186 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, type ReactNode } from 'react';
+import { getMultipleMarketData, invalidateMarketData } from '../services/marketCache';
+import { getItemById } from '../services/searchService';
+import { formatPrice } from '../services/universalisApi';
+import { evaluateMarketAlert, type MarketAlertResult, type MarketAlertRule } from '../utils/marketAlerts';
+
+const STORAGE_KEY = 'ffxiv-market-alerts';
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface MarketAlertStatus extends MarketAlertResult {
+  checkedAt: number;
+}
+
+function loadRules(): MarketAlertRule[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved) as MarketAlertRule[];
+  } catch (e) {
+    console.error('Failed to load market alerts:', e);
+  }
+  return [];
+}
+
+function saveRules(rules: MarketAlertRule[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (e) {
+    console.error('Failed to save market alerts:', e);
+  }
+}
+
+function describeAlert(rule: MarketAlertRule, result: MarketAlertResult): string {
+  const itemName = getItemById(rule.itemId)?.name || `物品 #${rule.itemId}`;
+  const quality = rule.quality === 'hq' ? ' HQ' : rule.quality === 'nq' ? ' NQ' : '';
+  const where = result.world ? ` @ ${result.world}` : '';
+  if (rule.kind === 'undercut') {
+    return `${itemName}${quality} 被削價：${formatPrice(result.price ?? 0)} gil${where}（你的 ${formatPrice(result.ownPrice ?? 0)} gil）`;
+  }
+  return `${itemName}${quality} 降到 ${formatPrice(result.price ?? 0)} gil${where}（低於 ${formatPrice(rule.threshold)} gil）`;
+}
+
+interface MarketAlertContextValue {
+  rules: MarketAlertRule[];
+  statuses: Record<string, MarketAlertStatus>;
+  addRule: (rule: Omit<MarketAlertRule, 'id' | 'enabled'>) => void;
+  updateRule: (id: string, changes: Partial<Omit<MarketAlertRule, 'id'>>) => void;
+  removeRule: (id: string) => void;
+  checkNow: () => void;
+  alertCount: number;
+  triggeredCount: number;
+}
+
+const MarketAlertContext = createContext<MarketAlertContextValue | null>(null);
+
+export function MarketAlertProvider({ children }: { children: ReactNode }) {
+  const [rules, setRules] = useState<MarketAlertRule[]>(loadRules);
+  const [statuses, setStatuses] = useState<Record<string, MarketAlertStatus>>({});
+  const [checkTrigger, setCheckTrigger] = useState(0);
+  // Rules whose condition held at the last check; notify only when a rule starts to hold
+  const notifiedRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    saveRules(rules);
+  }, [rules]);
+
+  // Cross-tab sync via storage event
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEY || !e.newValue) return;
+      try {
+        setRules(JSON.parse(e.newValue) as MarketAlertRule[]);
+      } catch { /* ignore parse errors */ }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  // Periodic checker: one batched request per server
+  useEffect(() => {
+    const active = rules.filter(r => r.enabled);
+    if (active.length === 0) return;
+
+    let cancelled = false;
+
+    const check = async (refresh: boolean) => {
+      // Periodic checks skip the market cache so each one sees new listings
+      if (refresh) invalidateMarketData(active.map(r => r.itemId));
+
+      const byServer = new Map<string, MarketAlertRule[]>();
+      for (const rule of active) {
+        byServer.set(rule.server, [...(byServer.get(rule.server) ?? []), rule]);
+      }
+
+      const next: Record<string, MarketAlertStatus> = {};
+      await Promise.all(Array.from(byServer.entries()).map(async ([server, serverRules]) => {
+        const prices = await getMultipleMarketData(serverRules.map(r => r.itemId), server);
+        const checkedAt = Date.now();
+        for (const rule of serverRules) {
+          next[rule.id] = { ...evaluateMarketAlert(rule, prices[rule.itemId] ?? null), checkedAt };
+        }
+      }));
+      if (cancelled) return;
+
+      for (const rule of active) {
+        const status = next[rule.id];
+        if (!status?.met) {
+          notifiedRef.current.delete(rule.id);
+          continue;
+        }
+        if (notifiedRef.current.has(rule.id)) continue;
+        notifiedRef.current.add(rule.id);
+
+        if (Notification.permission === 'granted') {
+          new Notification('市場提醒', {
+            body: describeAlert(rule, status),
+            icon: `${import.meta.env.BASE_URL}favicon.ico`,
+          });
+        }
+      }
+
+      setStatuses(next);
+    };
+
+    check(false);
+    const id = setInterval(() => check(true), CHECK_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [rules, checkTrigger]);
+
+  const addRule = useCallback((rule: Omit<MarketAlertRule, 'id' | 'enabled'>) => {
+    setRules(prev => [...prev, { ...rule, id: `alert-${Date.now()}`, enabled: true }]);
+    // Request notification permission on first add
+    if (Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+  }, []);
+
+  const updateRule = useCallback((id: string, changes: Partial<Omit<MarketAlertRule, 'id'>>) => {
+    // A changed rule should be able to notify again
+    notifiedRef.current.delete(id);
+    setRules(prev => prev.map(r => (r.id === id ? { ...r, ...changes } : r)));
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    notifiedRef.current.delete(id);
+    setRules(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  const checkNow = useCallback(() => {
+    invalidateMarketData(rules.map(r => r.itemId));
+    setCheckTrigger(prev => prev + 1);
+  }, [rules]);
+
+  const alertCount = rules.length;
+  const triggeredCount = useMemo(
+    () => rules.filter(r => r.enabled && statuses[r.id]?.met).length,
+    [rules, statuses]
+  );
+
+  const value = useMemo(() => ({
+    rules,
+    statuses,
+    addRule,
+    updateRule,
+    removeRule,
+    checkNow,
+    alertCount,
+    triggeredCount,
+  }), [rules, statuses, addRule, updateRule, removeRule, checkNow, alertCount, triggeredCount]);
+
+  return (
+    <MarketAlertContext.Provider value={value}>
+      {children}
+    </MarketAlertContext.Provider>
+  );
+}
+
+export function useMarketAlerts(): MarketAlertContextValue {
+  const context = useContext(MarketAlertContext);
+  if (!context) {
+    throw new Error('useMarketAlerts must be used within a MarketAlertProvider');
+  }
+  return context;
+}
@@ -0,0 +1,107 @@
+// Search history context: recent searches and recently viewed items, shared across components
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+
+const STORAGE_KEY = 'ffxiv-search-history';
+
+// Entries kept per list
+const MAX_RECENT_SEARCHES = 10;
+const MAX_RECENT_ITEMS = 10;
+
+interface SearchHistory {
+  searches: string[];   // Most recent first
+  itemIds: number[];    // Most recent first
+}
+
+function loadHistory(): SearchHistory {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return {
+        searches: Array.isArray(parsed.searches) ? parsed.searches : [],
+        itemIds: Array.isArray(parsed.itemIds) ? parsed.itemIds : [],
+      };
+    }
+  } catch (e) {
+    console.error('Failed to load search history:', e);
+  }
+  return { searches: [], itemIds: [] };
+}
+
+function saveHistory(history: SearchHistory): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (e) {
+    console.error('Failed to save search history:', e);
+  }
+}
+
+// Move a value to the front of a list, dropping duplicates and overflow
+function pushRecent<T>(list: T[], value: T, max: number): T[] {
+  return [value, ...list.filter(entry => entry !== value)].slice(0, max);
+}
+
+interface SearchHistoryContextValue {
+  recentSearches: string[];
+  recentItemIds: number[];
+  addRecentSearch: (query: string) => void;
+  addRecentItem: (itemId: number) => void;
+  removeRecentSearch: (query: string) => void;
+  clearHistory: () => void;
+}
+
+const SearchHistoryContext = createContext<SearchHistoryContextValue | null>(null);
+
+export function SearchHistoryProvider({ children }: { children: ReactNode }) {
+  const [history, setHistory] = useState<SearchHistory>(loadHistory);
+
+  // Save to localStorage when history changes
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  const addRecentSearch = useCallback((query: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    setHistory(prev => prev.searches[0] === trimmed
+      ? prev
+      : { ...prev, searches: pushRecent(prev.searches, trimmed, MAX_RECENT_SEARCHES) });
+  }, []);
+
+  const addRecentItem = useCallback((itemId: number) => {
+    setHistory(prev => prev.itemIds[0] === itemId
+      ? prev
+      : { ...prev, itemIds: pushRecent(prev.itemIds, itemId, MAX_RECENT_ITEMS) });
+  }, []);
+
+  const removeRecentSearch = useCallback((query: string) => {
+    setHistory(prev => ({ ...prev, searches: prev.searches.filter(entry => entry !== query) }));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setHistory({ searches: [], itemIds: [] });
+  }, []);
+
+  const value = useMemo(() => ({
+    recentSearches: history.searches,
+    recentItemIds: history.itemIds,
+    addRecentSearch,
+    addRecentItem,
+    removeRecentSearch,
+    clearHistory,
+  }), [history, addRecentSearch, addRecentItem, removeRecentSearch, clearHistory]);
+
+  return (
+    <SearchHistoryContext.Provider value={value}>
+      {children}
+    </SearchHistoryContext.Provider>
+  );
+}
+
+export function useSearchHistory(): SearchHistoryContextValue {
+  const context = useContext(SearchHistoryContext);
+  if (!context) {
+    throw new Error('useSearchHistory must be used within a SearchHistoryProvider');
+  }
+  return context;
+}
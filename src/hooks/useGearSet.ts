@@ -0,0 +1,58 @@
+// Hook for the gear set being edited, kept in the URL so the page link shares the set
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { GearPiece, GearSet, GearSlotId } from '../types';
+import { DEFAULT_GEAR_JOB, decodeGearPieces, encodeGearPieces, isGearJob } from '../utils/gearSet';
+
+interface UseGearSetReturn {
+  gearSet: GearSet;
+  setJob: (job: string) => void;
+  setName: (name: string) => void;
+  setPiece: (slot: GearSlotId, piece: GearPiece | null) => void;
+  loadGearSet: (set: GearSet) => void;
+}
+
+function gearSetToParams(set: GearSet): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set('job', set.job);
+  if (set.name) params.set('name', set.name);
+  const encoded = encodeGearPieces(set.pieces);
+  if (encoded) params.set('g', encoded);
+  return params;
+}
+
+export function useGearSet(): UseGearSetReturn {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const jobParam = searchParams.get('job') ?? '';
+  const name = searchParams.get('name') ?? '';
+  const piecesParam = searchParams.get('g') ?? '';
+
+  const gearSet = useMemo<GearSet>(() => ({
+    job: isGearJob(jobParam) ? jobParam : DEFAULT_GEAR_JOB,
+    name,
+    pieces: decodeGearPieces(piecesParam),
+  }), [jobParam, name, piecesParam]);
+
+  const update = useCallback((next: GearSet) => {
+    setSearchParams(gearSetToParams(next), { replace: true });
+  }, [setSearchParams]);
+
+  // Changing job starts over: the pieces would mostly not fit the new job
+  const setJob = useCallback((job: string) => {
+    update({ ...gearSet, job, pieces: {} });
+  }, [gearSet, update]);
+
+  const setName = useCallback((newName: string) => {
+    update({ ...gearSet, name: newName });
+  }, [gearSet, update]);
+
+  const setPiece = useCallback((slot: GearSlotId, piece: GearPiece | null) => {
+    const pieces = { ...gearSet.pieces };
+    if (piece) pieces[slot] = piece;
+    else delete pieces[slot];
+    update({ ...gearSet, pieces });
+  }, [gearSet, update]);
+
+  return { gearSet, setJob, setName, setPiece, loadGearSet: update };
+}
@@ -0,0 +1,86 @@
+// Hook for the market cost of a gear set's pieces and materia
+import { useState, useEffect, useMemo } from 'react';
+import type { GearSet, Item, MarketData } from '../types';
+import { getMultipleMarketData } from '../services/marketCache';
+import { useSettings } from './useSettings';
+
+export interface GearCostLine {
+  itemId: number;
+  hq: boolean;
+  quantity: number;
+  unitPrice: number | null;        // null = untradable or no listings
+}
+
+interface UseGearSetCostReturn {
+  lines: GearCostLine[];
+  total: number;
+  missing: number;                 // Lines without a price
+  loading: boolean;
+}
+
+interface LoadedMarket {
+  key: string;
+  market: Record<number, MarketData>;
+}
+
+function getUnitPrice(market: MarketData | undefined, hq: boolean): number | null {
+  if (!market) return null;
+  const price = hq ? market.minPriceHQ : market.minPriceNQ || market.minPrice;
+  return price > 0 ? price : null;
+}
+
+/**
+ * Lowest listing per piece (HQ price for HQ pieces) plus the materia, on the market server setting
+ */
+export function useGearSetCost(gearSet: GearSet, getItem: (id: number) => Item | undefined): UseGearSetCostReturn {
+  const [loaded, setLoaded] = useState<LoadedMarket>({ key: '', market: {} });
+  const { marketServer } = useSettings();
+
+  // Group identical purchases (e.g. the same materia melded ten times)
+  const purchases = useMemo(() => {
+    const byKey = new Map<string, { itemId: number; hq: boolean; quantity: number }>();
+    const add = (itemId: number, hq: boolean) => {
+      const key = `${itemId}:${hq}`;
+      const entry = byKey.get(key) ?? { itemId, hq, quantity: 0 };
+      entry.quantity++;
+      byKey.set(key, entry);
+    };
+    for (const piece of Object.values(gearSet.pieces)) {
+      if (!piece) continue;
+      add(piece.itemId, piece.hq);
+      for (const materiaId of piece.materia) add(materiaId, false);
+    }
+    return Array.from(byKey.values());
+  }, [gearSet.pieces]);
+
+  const tradeableIds = useMemo(
+    () => Array.from(new Set(purchases.map(p => p.itemId))).filter(id => getItem(id)?.isUntradable !== true),
+    [purchases, getItem]
+  );
+  const key = `${marketServer}:${tradeableIds.join(',')}`;
+
+  useEffect(() => {
+    if (tradeableIds.length === 0) return;
+
+    let cancelled = false;
+    getMultipleMarketData(tradeableIds, marketServer).then(market => {
+      if (!cancelled) setLoaded({ key: `${marketServer}:${tradeableIds.join(',')}`, market });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tradeableIds, marketServer]);
+
+  const lines: GearCostLine[] = purchases.map(p => ({
+    ...p,
+    unitPrice: getUnitPrice(loaded.market[p.itemId], p.hq),
+  }));
+
+  return {
+    lines,
+    total: lines.reduce((sum, line) => sum + (line.unitPrice ?? 0) * line.quantity, 0),
+    missing: lines.filter(line => line.unitPrice === null).length,
+    loading: tradeableIds.length > 0 && loaded.key !== key,
+  };
+}
@@ -1,7 +1,8 @@
 // Hook for loading and managing item data
 import { useState, useEffect } from 'react';
 import type { Item, ItemCategory, Recipe, GatheringPoint, ItemSource } from '../types';
-import { initializeSearchIndex, setMultilingualNames } from '../services/searchService';
+import { initializeSearchIndex, setMultilingualNames, updateSearchItems } from '../services/searchService';
+import { readCachedData, writeCachedData } from '../services/dataCache';
 
 interface ItemData {
   items: Record<number, Item>;
@@ -141,6 +142,30 @@ function decodeIndexItems(indexData: IndexData): { items: Record<number, Item>;
   return { items, multiNames };
 }
 
+// Decoded items-index.json as stored in the IndexedDB cache
+interface CachedIndexData {
+  items: Record<number, Item>;
+  categories: ItemCategory[];
+  multiNames: Record<string, { en?: string; ja?: string; cn?: string }>;
+}
+
+// Content hash from data-version.json (null = caching disabled)
+let dataVersion: string | null = null;
+
+/**
+ * Fetch the data version emitted by build-data.js
+ */
+async function loadDataVersion(): Promise<string | null> {
+  try {
+    const resp = await fetch(`${import.meta.env.BASE_URL}data/data-version.json`, { cache: 'no-cache' });
+    if (!resp.ok) return null;
+    const data = await resp.json();
+    return typeof data.version === 'string' ? data.version : null;
+  } catch {
+    return null;
+  }
+}
+
 // Full item data cache (loaded lazily for detail pages)
 let fullItemsLoaded = false;
 let fullItemsPromise: Promise<void> | null = null;
@@ -150,14 +175,21 @@ async function loadFullItems(): Promise<void> {
   if (fullItemsPromise) return fullItemsPromise;
   fullItemsPromise = (async () => {
     try {
-      const resp = await fetch(`${import.meta.env.BASE_URL}data/items.json`);
-      if (!resp.ok) return;
-      const data = await resp.json();
+      let fullItems = dataVersion
+        ? await readCachedData<Record<number, Item>>('items-full', dataVersion)
+        : null;
+      if (!fullItems) {
+        const resp = await fetch(`${import.meta.env.BASE_URL}data/items.json`);
+        if (!resp.ok) return;
+        const data = await resp.json();
+        fullItems = (data.items || {}) as Record<number, Item>;
+        if (dataVersion) writeCachedData('items-full', dataVersion, fullItems);
+      }
       // Merge full item data into globalItemData.items (preserving reference)
-      const fullItems = data.items || {};
       for (const [id, item] of Object.entries(fullItems)) {
         globalItemData.items[Number(id)] = item as Item;
       }
+      updateSearchItems(fullItems);
       fullItemsLoaded = true;
     } catch (e) {
       console.error('Failed to load full items:', e);
@@ -177,25 +209,38 @@ async function loadAllData(): Promise<void> {
 
   loadingPromise = (async () => {
     try {
-      // Phase 1: Single fetch of compact index (~4.4MB, ~1.4MB gzipped)
-      updateLoadingStatus('正在下載物品資料...');
-      const indexResponse = await fetch(`${import.meta.env.BASE_URL}data/items-index.json`);
-      if (!indexResponse.ok) throw new Error('Failed to load items index');
-
-      updateLoadingStatus('正在解析物品資料...');
-      const indexData = await indexResponse.json();
-      const { items, multiNames } = decodeIndexItems(indexData);
+      // Phase 1: Hydrate from IndexedDB when the data version is unchanged,
+      // otherwise a single fetch of compact index (~4.4MB, ~1.4MB gzipped)
+      dataVersion = await loadDataVersion();
+      let cached = dataVersion
+        ? await readCachedData<CachedIndexData>('items-index', dataVersion)
+        : null;
+
+      if (cached) {
+        updateLoadingStatus('正在從快取載入物品資料...');
+      } else {
+        updateLoadingStatus('正在下載物品資料...');
+        const indexResponse = await fetch(`${import.meta.env.BASE_URL}data/items-index.json`);
+        if (!indexResponse.ok) throw new Error('Failed to load items index');
+
+        updateLoadingStatus('正在解析物品資料...');
+        const indexData = await indexResponse.json();
+        const { items, multiNames } = decodeIndexItems(indexData);
+        cached = { items, categories: indexData.categories || [], multiNames };
+        if (dataVersion) writeCachedData('items-index', dataVersion, cached);
+      }
+
       globalItemData = {
-        items,
-        categories: indexData.categories || [],
+        items: cached.items,
+        categories: cached.categories,
         loading: false,
         loadingStatus: '',
         error: null,
       };
 
-      setMultilingualNames(multiNames);
+      setMultilingualNames(cached.multiNames);
       updateLoadingStatus('正在建立搜尋索引...');
-      initializeSearchIndex(globalItemData.items);
+      initializeSearchIndex(globalItemData.items, dataVersion);
       dataLoaded = true;
 
       // Phase 2: Load secondary data + full items in background
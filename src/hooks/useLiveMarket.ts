@@ -0,0 +1,80 @@
+// Hook for live market updates on the items a view is showing
+import { useState, useEffect, useRef } from 'react';
+import type { MarketData } from '../types';
+import { onMarketDataChange } from '../services/marketCache';
+import { getLiveStatus, onLiveStatus, watchLiveItems } from '../services/marketSocket';
+import type { LiveStatus } from '../services/marketSocket';
+import { useSettings } from './useSettings';
+
+// How long a changed row stays highlighted (matches .market-flash in index.css)
+const FLASH_DURATION_MS = 1500;
+
+interface UseLiveMarketReturn {
+  live: boolean;
+  setLive: (live: boolean) => void;
+  status: LiveStatus;
+  flashIds: Set<number>;
+}
+
+/**
+ * While live mode is on, follow listing/sale events for the given items on the current market server;
+ * onUpdate receives the updated data and changed items are reported in flashIds for a moment
+ */
+export function useLiveMarket(
+  itemIds: number[],
+  onUpdate: (itemId: number, data: MarketData) => void
+): UseLiveMarketReturn {
+  const { liveMarket, setLiveMarket, marketServer } = useSettings();
+  const [status, setStatus] = useState<LiveStatus>(getLiveStatus);
+  const [flashIds, setFlashIds] = useState<Set<number>>(() => new Set());
+  const onUpdateRef = useRef(onUpdate);
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  }, [onUpdate]);
+
+  useEffect(() => onLiveStatus(setStatus), []);
+
+  // Stable key so a re-render with the same items doesn't resubscribe
+  const idsKey = Array.from(new Set(itemIds)).sort((a, b) => a - b).join(',');
+
+  useEffect(() => {
+    if (!liveMarket || !idsKey) return;
+
+    const ids = idsKey.split(',').map(Number);
+    const watched = new Set(ids);
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const stopChanges = onMarketDataChange((server, itemId, data) => {
+      if (server !== marketServer || !watched.has(itemId)) return;
+      onUpdateRef.current(itemId, data);
+
+      setFlashIds(prev => new Set(prev).add(itemId));
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setFlashIds(prev => {
+          const next = new Set(prev);
+          next.delete(itemId);
+          return next;
+        });
+      }, FLASH_DURATION_MS);
+      timers.add(timer);
+    });
+    const stopWatching = watchLiveItems(ids, marketServer);
+
+    return () => {
+      stopChanges();
+      stopWatching();
+      // Highlights whose timer is cancelled would otherwise stay on when the hook resubscribes
+      if (timers.size > 0) setFlashIds(new Set());
+      timers.forEach(clearTimeout);
+    };
+  }, [liveMarket, marketServer, idsKey]);
+
+  return {
+    live: liveMarket,
+    setLive: setLiveMarket,
+    status: liveMarket ? status : 'closed',
+    flashIds,
+  };
+}
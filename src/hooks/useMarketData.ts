@@ -1,9 +1,11 @@
 // Hook for market data from Universalis
 import { useState, useEffect, useCallback } from 'react';
-import type { MarketData } from '../types';
-import { getMarketData, DATA_CENTERS } from '../services/universalisApi';
-
-const STORAGE_KEY = 'ffxiv-selected-world';
+import type { DataCenter, MarketData } from '../types';
+import { getMarketData, invalidateMarketData } from '../services/marketCache';
+import { getDataCenters, getMultiDcRegions, loadDataCenters } from '../services/worldData';
+import { useSettings } from './useSettings';
+import { useLiveMarket } from './useLiveMarket';
+import type { LiveStatus } from '../services/marketSocket';
 
 interface UseMarketDataReturn {
   marketData: MarketData | null;
@@ -12,6 +14,10 @@ interface UseMarketDataReturn {
   selectedWorld: string;
   setSelectedWorld: (world: string) => void;
   refresh: () => void;
+  live: boolean;
+  setLive: (live: boolean) => void;
+  liveStatus: LiveStatus;
+  flashing: boolean;
 }
 
 /**
@@ -21,17 +27,8 @@ export function useMarketData(itemId: number | null): UseMarketDataReturn {
   const [marketData, setMarketData] = useState<MarketData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedWorld, setSelectedWorldState] = useState<string>(() => {
-    // Load from localStorage or default to DC (全伺服器)
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) return saved;
-    return '陸行鳥'; // Default to all TC servers
-  });
-
-  const setSelectedWorld = useCallback((world: string) => {
-    setSelectedWorldState(world);
-    localStorage.setItem(STORAGE_KEY, world);
-  }, []);
+  // The market server is a shared setting, so picking one here applies to every price view
+  const { marketServer: selectedWorld, setMarketServer: setSelectedWorld } = useSettings();
 
   const fetchMarketData = useCallback(async () => {
     if (!itemId) {
@@ -60,21 +57,45 @@ export function useMarketData(itemId: number | null): UseMarketDataReturn {
     fetchMarketData();
   }, [fetchMarketData]);
 
+  // Live listing/sale events update the shown data in place
+  const handleLiveUpdate = useCallback((_id: number, data: MarketData) => setMarketData(data), []);
+  const { live, setLive, status: liveStatus, flashIds } = useLiveMarket(
+    itemId && marketData ? [itemId] : [],
+    handleLiveUpdate
+  );
+
+  // Refresh bypasses the shared cache for this item
+  const refresh = useCallback(() => {
+    if (itemId) invalidateMarketData([itemId]);
+    fetchMarketData();
+  }, [itemId, fetchMarketData]);
+
   return {
     marketData,
     loading,
     error,
     selectedWorld,
     setSelectedWorld,
-    refresh: fetchMarketData,
+    refresh,
+    live,
+    setLive,
+    liveStatus,
+    flashing: itemId !== null && flashIds.has(itemId),
   };
 }
 
 /**
- * Hook to get available worlds for selection
+ * Hook to get available worlds, data centers and regions for selection
  */
-export function useWorldSelector() {
+export function useWorldSelector(): { dataCenters: DataCenter[]; regions: string[] } {
+  const [dataCenters, setDataCenters] = useState<DataCenter[]>(getDataCenters);
+
+  useEffect(() => {
+    loadDataCenters().then(setDataCenters);
+  }, []);
+
   return {
-    dataCenters: DATA_CENTERS,
+    dataCenters,
+    regions: getMultiDcRegions(dataCenters),
   };
 }
@@ -2,13 +2,45 @@ import { useState, useCallback } from 'react';
 
 const STORAGE_KEY = 'ffxiv-owned-materials';
 
+// The crafting tree used to keep owned stock per item under this prefix
+const LEGACY_KEY_PREFIX = 'crafting-owned-';
+
+/**
+ * Fold the old per-item stores into the shared one and remove them
+ * The same stock was often entered in several trees, so the larger count wins rather than the sum
+ */
+function migrateLegacyOwned(data: Record<number, number>): boolean {
+  const legacyKeys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LEGACY_KEY_PREFIX)) legacyKeys.push(key);
+  }
+
+  for (const key of legacyKeys) {
+    try {
+      const legacy: Record<number, number> = JSON.parse(localStorage.getItem(key) ?? '{}');
+      for (const [id, quantity] of Object.entries(legacy)) {
+        if (quantity > (data[Number(id)] ?? 0)) data[Number(id)] = quantity;
+      }
+    } catch {
+      // Unreadable entries are dropped
+    }
+    localStorage.removeItem(key);
+  }
+
+  return legacyKeys.length > 0;
+}
+
 function loadOwned(): Record<number, number> {
+  let data: Record<number, number> = {};
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
-    return raw ? JSON.parse(raw) : {};
+    data = raw ? JSON.parse(raw) : {};
   } catch {
-    return {};
+    data = {};
   }
+  if (migrateLegacyOwned(data)) saveOwned(data);
+  return data;
 }
 
 function saveOwned(data: Record<number, number>) {
@@ -26,6 +58,18 @@ export function useOwnedMaterials() {
     });
   }, []);
 
+  // Apply several changes at once, e.g. a craft using up materials and producing its result
+  const adjustOwned = useCallback((deltas: Record<number, number>) => {
+    setOwnedMaterials(prev => {
+      const next = { ...prev };
+      for (const [id, delta] of Object.entries(deltas)) {
+        next[Number(id)] = Math.max(0, (next[Number(id)] ?? 0) + delta);
+      }
+      saveOwned(next);
+      return next;
+    });
+  }, []);
+
   const clearAll = useCallback(() => {
     setOwnedMaterials({});
     localStorage.removeItem(STORAGE_KEY);
@@ -35,5 +79,5 @@ export function useOwnedMaterials() {
     return ownedMaterials[itemId] ?? 0;
   }, [ownedMaterials]);
 
-  return { ownedMaterials, setOwned, clearAll, getOwned };
+  return { ownedMaterials, setOwned, adjustOwned, clearAll, getOwned };
 }
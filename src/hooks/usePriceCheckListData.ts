@@ -1,17 +1,26 @@
 // Hook for fetching price and crafting data for price check list items
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { PriceCheckListItem, CraftingTreeNode, MarketData, Item, ListingInfo } from '../types';
+import type { PriceCheckListItem, CraftingTreeNode, MarketData, Item } from '../types';
 import { getItemById } from '../services/searchService';
-import { getMultipleMarketData } from '../services/universalisApi';
-import { getRecipesForItem } from './useItemData';
-
-// Crystal item IDs (2-19)
-const CRYSTAL_IDS = new Set([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
-
-const MAX_DEPTH = 10;
-const DATA_CENTER = '陸行鳥';
-
-export type QualityFilter = 'both' | 'nq' | 'hq';
+import { getMultipleMarketData, invalidateMarketData } from '../services/marketCache';
+import { useSettings } from './useSettings';
+import { useLiveMarket } from './useLiveMarket';
+import { treeDataSource } from './useCraftingTree';
+import type { LiveStatus } from '../services/marketSocket';
+import { firstRecipe, type RecipeSelector } from '../utils/recipeChoice';
+import { quoteBuy } from '../utils/listingCost';
+import {
+  buildCraftingTree,
+  collectAllItemIds,
+  findCheapest,
+  extractListings,
+  applyPrices,
+  calculateCosts,
+  calculateTotals,
+  type QualityFilter,
+} from '../utils/craftingTree';
+
+export type { QualityFilter };
 
 export interface PriceCheckListItemData {
   listItem: PriceCheckListItem;
@@ -19,6 +28,7 @@ export interface PriceCheckListItemData {
   tree: CraftingTreeNode | null;
   totalCraftCost: number;
   totalBuyCostHQ: number;
+  buyShortfallHQ: number;       // HQ units the listings can't supply at that cost
 }
 
 interface UsePriceCheckListDataReturn {
@@ -28,260 +38,10 @@ interface UsePriceCheckListDataReturn {
   grandTotalCraftCost: number;
   grandTotalBuyCostHQ: number;
   refresh: () => void;
-}
-
-/**
- * Build the crafting tree structure recursively
- */
-function buildTreeStructure(
-  itemId: number,
-  quantity: number,
-  visitedIds: Set<number>,
-  depth: number,
-  showCrystals: boolean
-): CraftingTreeNode | null {
-  if (depth > MAX_DEPTH) return null;
-  if (visitedIds.has(itemId)) return null;
-
-  const item = getItemById(itemId);
-  if (!item) return null;
-
-  if (!showCrystals && CRYSTAL_IDS.has(itemId)) return null;
-
-  const newVisited = new Set(visitedIds);
-  newVisited.add(itemId);
-
-  const recipes = getRecipesForItem(itemId);
-  const recipe = recipes.length > 0 ? recipes[0] : null;
-
-  const node: CraftingTreeNode = {
-    item,
-    recipe,
-    quantity,
-    marketPriceNQ: null,
-    marketPriceHQ: null,
-    serverNQ: '',
-    serverHQ: '',
-    craftCost: null,
-    children: [],
-    depth,
-  };
-
-  if (recipe) {
-    const numCrafts = recipe.resultAmount > 1
-      ? Math.ceil(quantity / recipe.resultAmount)
-      : quantity;
-
-    for (const ingredient of recipe.ingredients) {
-      const childNode = buildTreeStructure(
-        ingredient.itemId,
-        ingredient.amount * numCrafts,
-        newVisited,
-        depth + 1,
-        showCrystals
-      );
-      if (childNode) {
-        node.children.push(childNode);
-      }
-    }
-  }
-
-  return node;
-}
-
-/**
- * Collect all unique item IDs from multiple trees
- */
-function collectAllItemIdsFromTrees(trees: (CraftingTreeNode | null)[]): Set<number> {
-  const ids = new Set<number>();
-
-  function collectFromNode(node: CraftingTreeNode | null) {
-    if (!node) return;
-    ids.add(node.item.id);
-    for (const child of node.children) {
-      collectFromNode(child);
-    }
-  }
-
-  for (const tree of trees) {
-    collectFromNode(tree);
-  }
-
-  return ids;
-}
-
-/**
- * Find cheapest NQ listing and its server
- */
-function findCheapestNQ(priceData: MarketData): { price: number | null; server: string } {
-  if (!priceData.listings || priceData.listings.length === 0) {
-    return { price: priceData.minPriceNQ > 0 ? priceData.minPriceNQ : null, server: '' };
-  }
-
-  let cheapestPrice: number | null = null;
-  let cheapestServer = '';
-
-  for (const listing of priceData.listings) {
-    if (!listing.hq) {
-      if (cheapestPrice === null || listing.pricePerUnit < cheapestPrice) {
-        cheapestPrice = listing.pricePerUnit;
-        cheapestServer = listing.worldName || '';
-      }
-    }
-  }
-
-  if (cheapestPrice === null && priceData.minPriceNQ > 0) {
-    cheapestPrice = priceData.minPriceNQ;
-  }
-
-  return { price: cheapestPrice, server: cheapestServer };
-}
-
-/**
- * Find cheapest HQ listing and its server
- */
-function findCheapestHQ(priceData: MarketData): { price: number | null; server: string } {
-  if (!priceData.listings || priceData.listings.length === 0) {
-    return { price: priceData.minPriceHQ > 0 ? priceData.minPriceHQ : null, server: '' };
-  }
-
-  let cheapestPrice: number | null = null;
-  let cheapestServer = '';
-
-  for (const listing of priceData.listings) {
-    if (listing.hq) {
-      if (cheapestPrice === null || listing.pricePerUnit < cheapestPrice) {
-        cheapestPrice = listing.pricePerUnit;
-        cheapestServer = listing.worldName || '';
-      }
-    }
-  }
-
-  if (cheapestPrice === null && priceData.minPriceHQ > 0) {
-    cheapestPrice = priceData.minPriceHQ;
-  }
-
-  return { price: cheapestPrice, server: cheapestServer };
-}
-
-/**
- * Extract top listings sorted by price for tooltip display
- */
-function extractListings(priceData: MarketData, limit: number = 8): ListingInfo[] {
-  if (!priceData.listings || priceData.listings.length === 0) {
-    return [];
-  }
-
-  const sorted = [...priceData.listings]
-    .sort((a, b) => a.pricePerUnit - b.pricePerUnit)
-    .slice(0, limit);
-
-  return sorted.map(listing => ({
-    price: listing.pricePerUnit,
-    quantity: listing.quantity,
-    server: listing.worldName || '',
-    hq: listing.hq,
-    lastReviewTime: listing.lastReviewTime,
-  }));
-}
-
-/**
- * Apply market prices to tree nodes
- */
-function applyPrices(
-  node: CraftingTreeNode,
-  prices: Record<number, MarketData>
-): void {
-  const priceData = prices[node.item.id];
-
-  if (priceData) {
-    const nqResult = findCheapestNQ(priceData);
-    const hqResult = findCheapestHQ(priceData);
-
-    node.marketPriceNQ = nqResult.price;
-    node.marketPriceHQ = hqResult.price;
-    node.serverNQ = nqResult.server;
-    node.serverHQ = hqResult.server;
-    node.listings = extractListings(priceData, 8);
-    node.lastUploadTime = priceData.lastUploadTime;
-  }
-
-  for (const child of node.children) {
-    applyPrices(child, prices);
-  }
-}
-
-/**
- * Get the cheapest buy price (NQ or HQ, whichever is cheaper)
- * Used for materials when calculating craft cost
- */
-function getCheapestBuyPrice(node: CraftingTreeNode): number | null {
-  const nqPrice = node.marketPriceNQ;
-  const hqPrice = node.marketPriceHQ;
-
-  if (nqPrice !== null && hqPrice !== null) {
-    return Math.min(nqPrice, hqPrice);
-  }
-  return nqPrice ?? hqPrice;
-}
-
-/**
- * Calculate costs for each node (bottom-up)
- * Always uses cheapest materials (NQ or HQ) for craft cost calculation
- * Custom prices override market prices when set
- */
-function calculateCosts(node: CraftingTreeNode, customPrices: Record<number, number>): void {
-  for (const child of node.children) {
-    calculateCosts(child, customPrices);
-  }
-
-  if (!node.recipe || node.children.length === 0) {
-    node.craftCost = null;
-    return;
-  }
-
-  let craftCost = 0;
-  for (const child of node.children) {
-    const childCraftCost = child.craftCost;
-    const customPrice = customPrices[child.item.id];
-    const childBuyPrice = customPrice !== undefined ? customPrice : getCheapestBuyPrice(child);
-    const childBuyCost = childBuyPrice !== null ? childBuyPrice * child.quantity : null;
-
-    let cheapestChildCost: number | null = null;
-
-    if (childCraftCost !== null && childBuyCost !== null) {
-      cheapestChildCost = Math.min(childCraftCost, childBuyCost);
-    } else if (childCraftCost !== null) {
-      cheapestChildCost = childCraftCost;
-    } else if (childBuyCost !== null) {
-      cheapestChildCost = childBuyCost;
-    }
-
-    if (cheapestChildCost === null) {
-      node.craftCost = null;
-      return;
-    }
-
-    craftCost += cheapestChildCost;
-  }
-
-  node.craftCost = Math.ceil(craftCost);
-}
-
-/**
- * Calculate total costs for the root item
- * Compares: HQ buy price vs craft cost (using cheapest materials)
- * Custom prices override market prices when set
- */
-function calculateTotals(tree: CraftingTreeNode, customPrices: Record<number, number>): { craftCost: number; buyCostHQ: number } {
-  const craftCost = tree.craftCost ?? 0;
-
-  // Use custom price if set, otherwise HQ price for buy comparison
-  const customPrice = customPrices[tree.item.id];
-  const buyPrice = customPrice !== undefined ? customPrice : tree.marketPriceHQ;
-  const buyCostHQ = buyPrice !== null ? buyPrice * tree.quantity : 0;
-
-  return { craftCost, buyCostHQ };
+  live: boolean;
+  setLive: (live: boolean) => void;
+  liveStatus: LiveStatus;
+  flashIds: Set<number>;
 }
 
 /**
@@ -291,14 +51,18 @@ export function usePriceCheckListData(
   list: PriceCheckListItem[],
   showCrystals: boolean,
   qualityFilter: QualityFilter,
-  customPrices: Record<number, number> = {}
+  customPrices: Record<number, number> = {},
+  selectRecipe: RecipeSelector = firstRecipe
 ): UsePriceCheckListDataReturn {
   const [prices, setPrices] = useState<Record<number, MarketData>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const { marketServer } = useSettings();
 
+  // Refresh bypasses the shared market cache
   const refresh = useCallback(() => {
+    invalidateMarketData();
     setRefreshTrigger(prev => prev + 1);
   }, []);
 
@@ -322,15 +86,15 @@ export function usePriceCheckListData(
         // Build trees with quantity=1 just to collect all item IDs
         const allTreeIds: Set<number> = new Set();
         for (const listItem of list) {
-          const tree = buildTreeStructure(listItem.itemId, 1, new Set(), 0, showCrystals);
+          const tree = buildCraftingTree(listItem.itemId, 1, treeDataSource, { showCrystals, selectRecipe });
           if (tree) {
-            for (const id of collectAllItemIdsFromTrees([tree])) {
+            for (const id of collectAllItemIds(tree)) {
               allTreeIds.add(id);
             }
           }
         }
 
-        const fetchedPrices = await getMultipleMarketData(Array.from(allTreeIds), DATA_CENTER);
+        const fetchedPrices = await getMultipleMarketData(Array.from(allTreeIds), marketServer);
 
         if (cancelled) return;
         setPrices(fetchedPrices);
@@ -352,7 +116,14 @@ export function usePriceCheckListData(
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [listItemIds, showCrystals, qualityFilter, refreshTrigger]);
+  }, [listItemIds, showCrystals, qualityFilter, refreshTrigger, marketServer, selectRecipe]);
+
+  // Live market events replace the affected item's prices; trees and totals rebuild from them
+  const handleLiveUpdate = useCallback((id: number, data: MarketData) => {
+    setPrices(prev => ({ ...prev, [id]: data }));
+  }, []);
+  const priceItemIds = useMemo(() => Object.keys(prices).map(Number), [prices]);
+  const { live, setLive, status: liveStatus, flashIds } = useLiveMarket(priceItemIds, handleLiveUpdate);
 
   // Build trees and apply prices (runs on quantity change without refetching)
   const items = useMemo<PriceCheckListItemData[]>(() => {
@@ -360,12 +131,15 @@ export function usePriceCheckListData(
 
     return list.map(listItem => {
       const item = getItemById(listItem.itemId) ?? null;
-      const tree = buildTreeStructure(listItem.itemId, listItem.quantity, new Set(), 0, showCrystals);
+      const tree = buildCraftingTree(listItem.itemId, listItem.quantity, treeDataSource, { showCrystals, selectRecipe });
 
       if (tree) {
         applyPrices(tree, prices);
         calculateCosts(tree, customPrices);
         const totals = calculateTotals(tree, customPrices);
+        const shortfall = customPrices[listItem.itemId] === undefined
+          ? quoteBuy(tree, listItem.quantity, true)?.shortfall ?? 0
+          : 0;
 
         return {
           listItem,
@@ -373,20 +147,31 @@ export function usePriceCheckListData(
           tree,
           totalCraftCost: totals.craftCost,
           totalBuyCostHQ: totals.buyCostHQ,
+          buyShortfallHQ: shortfall,
         };
       }
 
-      // No tree - just get HQ market price (or custom price) for comparison
+      // No tree - price the HQ listings (or custom price) for comparison
       const customPrice = customPrices[listItem.itemId];
       let buyCostHQ = 0;
+      let buyShortfallHQ = 0;
       if (customPrice !== undefined) {
         buyCostHQ = customPrice * listItem.quantity;
       } else {
         const priceData = prices[listItem.itemId];
         if (priceData) {
-          const hqResult = findCheapestHQ(priceData);
-          if (hqResult.price !== null) {
-            buyCostHQ = hqResult.price * listItem.quantity;
+          const quote = quoteBuy(
+            {
+              marketPriceNQ: findCheapest(priceData, false).price,
+              marketPriceHQ: findCheapest(priceData, true).price,
+              listings: extractListings(priceData),
+            },
+            listItem.quantity,
+            true
+          );
+          if (quote) {
+            buyCostHQ = quote.cost;
+            buyShortfallHQ = quote.shortfall;
           }
         }
       }
@@ -397,9 +182,10 @@ export function usePriceCheckListData(
         tree: null,
         totalCraftCost: 0,
         totalBuyCostHQ: buyCostHQ,
+        buyShortfallHQ,
       };
     });
-  }, [list, prices, showCrystals, customPrices]);
+  }, [list, prices, showCrystals, customPrices, selectRecipe]);
 
   // Calculate grand totals
   const grandTotals = useMemo(() => {
@@ -421,5 +207,9 @@ export function usePriceCheckListData(
     grandTotalCraftCost: grandTotals.craftCost,
     grandTotalBuyCostHQ: grandTotals.buyCostHQ,
     refresh,
+    live,
+    setLive,
+    liveStatus,
+    flashIds,
   };
 }
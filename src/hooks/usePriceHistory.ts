@@ -0,0 +1,38 @@
+// Hook for an item's sale history over a chosen time window
+import { useState, useEffect } from 'react';
+import type { MarketHistoryData } from '../types';
+import { getMarketHistory } from '../services/universalisApi';
+
+interface LoadedHistory {
+  key: string;
+  history: MarketHistoryData | null;
+}
+
+interface UsePriceHistoryReturn {
+  history: MarketHistoryData | null;   // null while loading or when the item has no history
+  loading: boolean;
+}
+
+/**
+ * Fetch the sales of the last `days` days on a world or data center
+ */
+export function usePriceHistory(itemId: number, world: string, days: number): UsePriceHistoryReturn {
+  const [loaded, setLoaded] = useState<LoadedHistory>({ key: '', history: null });
+  const key = `${itemId}:${world}:${days}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    getMarketHistory(itemId, world, days).then(history => {
+      if (!cancelled) setLoaded({ key: `${itemId}:${world}:${days}`, history });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, world, days]);
+
+  return {
+    history: loaded.key === key ? loaded.history : null,
+    loading: loaded.key !== key,
+  };
+}
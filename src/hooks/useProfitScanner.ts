@@ -0,0 +1,81 @@
+// Hook for scanning recipes for craft-for-profit candidates
+import { useState, useCallback, useRef } from 'react';
+import type { CraftingTreeNode, MarketData, Recipe } from '../types';
+import { getMultipleMarketData } from '../services/marketCache';
+import { treeDataSource } from './useCraftingTree';
+import { buildCraftingTree, collectAllItemIds, applyPrices, calculateCosts } from '../utils/craftingTree';
+import { calculateCraftProfit, type CraftProfit } from '../utils/craftProfit';
+import { useSettings } from './useSettings';
+import { useRecipeChoices } from './useRecipeChoices';
+
+// Items per price request; matches the market cache's batch size so progress moves per request
+const PRICE_CHUNK_SIZE = 100;
+
+interface UseProfitScannerReturn {
+  results: CraftProfit[];
+  scanning: boolean;
+  progress: number;              // 0-1 while scanning
+  error: string | null;
+  scannedServer: string;
+  scan: (recipes: Recipe[], sellHq: boolean) => void;
+}
+
+/**
+ * Price every recipe's material tree on the current market server and work out profit per craft
+ */
+export function useProfitScanner(): UseProfitScannerReturn {
+  const { marketServer } = useSettings();
+  const { selectRecipe } = useRecipeChoices();
+  const [results, setResults] = useState<CraftProfit[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [scannedServer, setScannedServer] = useState('');
+  // A newer scan makes an older one drop its results
+  const scanIdRef = useRef(0);
+
+  const scan = useCallback(async (recipes: Recipe[], sellHq: boolean) => {
+    const scanId = ++scanIdRef.current;
+    setScanning(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      const trees: { recipe: Recipe; tree: CraftingTreeNode }[] = [];
+      const allIds = new Set<number>();
+      for (const recipe of recipes) {
+        const tree = buildCraftingTree(recipe.itemId, recipe.resultAmount, treeDataSource, { showCrystals: true, rootRecipe: recipe, selectRecipe });
+        if (!tree) continue;
+        trees.push({ recipe, tree });
+        for (const id of collectAllItemIds(tree)) allIds.add(id);
+      }
+
+      const ids = Array.from(allIds);
+      const prices: Record<number, MarketData> = {};
+      for (let i = 0; i < ids.length; i += PRICE_CHUNK_SIZE) {
+        Object.assign(prices, await getMultipleMarketData(ids.slice(i, i + PRICE_CHUNK_SIZE), marketServer));
+        if (scanId !== scanIdRef.current) return;
+        setProgress(Math.min(1, (i + PRICE_CHUNK_SIZE) / ids.length));
+      }
+
+      const profits = trees.map(({ recipe, tree }) => {
+        applyPrices(tree, prices);
+        calculateCosts(tree);
+        return calculateCraftProfit(recipe, tree, prices[recipe.itemId], sellHq);
+      });
+
+      setResults(profits);
+      setScannedServer(marketServer);
+    } catch (err) {
+      if (scanId === scanIdRef.current) {
+        setError(err instanceof Error ? err.message : '發生錯誤');
+      }
+    } finally {
+      if (scanId === scanIdRef.current) {
+        setScanning(false);
+      }
+    }
+  }, [marketServer, selectRecipe]);
+
+  return { results, scanning, progress, error, scannedServer, scan };
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSettings } from './useSettings';
+import { createRecipeSelector } from '../utils/recipeChoice';
+
+const STORAGE_KEY = 'ffxiv-recipe-choices';
+
+// Every mounted instance, so a pick in one view reaches the others
+const listeners = new Set<(choices: Record<number, number>) => void>();
+let lastSavedJson = '';
+
+// Item ID -> recipe ID picked in a crafting tree
+function loadChoices(): Record<number, number> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save choices; returns false when nothing changed since the last save
+ */
+function saveChoices(data: Record<number, number>): boolean {
+  const json = JSON.stringify(data);
+  if (json === lastSavedJson) return false;
+  lastSavedJson = json;
+  localStorage.setItem(STORAGE_KEY, json);
+  return true;
+}
+
+export function useRecipeChoices() {
+  const { recipePreference } = useSettings();
+  const [recipeChoices, setRecipeChoices] = useState<Record<number, number>>(loadChoices);
+
+  // Pick up changes made through other components
+  useEffect(() => {
+    const listener = (next: Record<number, number>) => setRecipeChoices(next);
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  // Save to localStorage when choices change
+  useEffect(() => {
+    if (saveChoices(recipeChoices)) {
+      listeners.forEach(listener => listener(recipeChoices));
+    }
+  }, [recipeChoices]);
+
+  // null goes back to the preference's pick
+  const setRecipeChoice = useCallback((itemId: number, recipeId: number | null) => {
+    setRecipeChoices(prev => {
+      const next = { ...prev };
+      if (recipeId === null) {
+        delete next[itemId];
+      } else {
+        next[itemId] = recipeId;
+      }
+      return next;
+    });
+  }, []);
+
+  const selectRecipe = useMemo(
+    () => createRecipeSelector(recipeChoices, recipePreference),
+    [recipeChoices, recipePreference]
+  );
+
+  return { recipeChoices, setRecipeChoice, selectRecipe };
+}
@@ -0,0 +1,68 @@
+// Hook for current market prices of the items shown in the results list
+import { useState, useEffect, useMemo } from 'react';
+import type { Item } from '../types';
+import { getMultipleMarketData } from '../services/marketCache';
+import { useSettings } from './useSettings';
+import { getMarketHealth, type MarketHealth } from '../utils/marketHealth';
+
+interface LoadedPrices {
+  key: string;
+  prices: Record<number, number>;
+  nqPrices: Record<number, number>;
+  hqPrices: Record<number, number>;
+  health: Record<number, MarketHealth>;
+}
+
+interface UseResultPricesReturn {
+  prices: Record<number, number>;   // Lowest listing price per item (NQ or HQ); missing = no listings
+  nqPrices: Record<number, number>; // Lowest NQ listing price
+  hqPrices: Record<number, number>; // Lowest HQ listing price
+  health: Record<number, MarketHealth>; // Missing = no market data
+  loading: boolean;
+}
+
+/**
+ * Fetch the lowest listing price and market health of each tradeable item, only while enabled
+ */
+export function useResultPrices(items: Item[], enabled: boolean): UseResultPricesReturn {
+  const [loaded, setLoaded] = useState<LoadedPrices>({ key: '', prices: {}, nqPrices: {}, hqPrices: {}, health: {} });
+  const { marketServer } = useSettings();
+
+  const itemIds = useMemo(
+    () => items.filter(item => !item.isUntradable).map(item => item.id),
+    [items]
+  );
+  const key = `${marketServer}:${itemIds.join(',')}`;
+
+  useEffect(() => {
+    if (!enabled || itemIds.length === 0) return;
+
+    let cancelled = false;
+    getMultipleMarketData(itemIds, marketServer).then(data => {
+      if (cancelled) return;
+      const prices: Record<number, number> = {};
+      const nqPrices: Record<number, number> = {};
+      const hqPrices: Record<number, number> = {};
+      const health: Record<number, MarketHealth> = {};
+      for (const [id, market] of Object.entries(data)) {
+        if (market.minPrice > 0) prices[Number(id)] = market.minPrice;
+        if (market.minPriceNQ > 0) nqPrices[Number(id)] = market.minPriceNQ;
+        if (market.minPriceHQ > 0) hqPrices[Number(id)] = market.minPriceHQ;
+        health[Number(id)] = getMarketHealth(market);
+      }
+      setLoaded({ key: `${marketServer}:${itemIds.join(',')}`, prices, nqPrices, hqPrices, health });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemIds, enabled, marketServer]);
+
+  return {
+    prices: loaded.prices,
+    nqPrices: loaded.nqPrices,
+    hqPrices: loaded.hqPrices,
+    health: loaded.health,
+    loading: enabled && itemIds.length > 0 && loaded.key !== key,
+  };
+}
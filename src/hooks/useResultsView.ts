@@ -0,0 +1,64 @@
+// Hook for the results list layout (cards or table), table columns and market health options, kept in the URL
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { ResultColumnId, ResultsViewMode } from '../types';
+import { DEFAULT_RESULT_COLUMNS, isResultColumnId } from '../utils/resultColumns';
+
+interface UseResultsViewReturn {
+  viewMode: ResultsViewMode;
+  columns: ResultColumnId[];
+  setViewMode: (mode: ResultsViewMode) => void;
+  setColumns: (columns: ResultColumnId[]) => void;
+  showHealth: boolean;               // Market health line on result cards
+  maxDataAge: number | null;         // Hide items whose market data is older than this many hours
+  setShowHealth: (show: boolean) => void;
+  setMaxDataAge: (hours: number | null) => void;
+}
+
+export function useResultsView(): UseResultsViewReturn {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const viewMode: ResultsViewMode = searchParams.get('view') === 'table' ? 'table' : 'cards';
+
+  const colsParam = searchParams.get('cols');
+  const columns = useMemo<ResultColumnId[]>(() => {
+    if (colsParam === null) return DEFAULT_RESULT_COLUMNS;
+    return colsParam.split(',').filter(isResultColumnId);
+  }, [colsParam]);
+
+  const setViewMode = useCallback((mode: ResultsViewMode) => {
+    const params = new URLSearchParams(searchParams);
+    if (mode === 'table') params.set('view', 'table');
+    else params.delete('view');
+    setSearchParams(params, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const setColumns = useCallback((newColumns: ResultColumnId[]) => {
+    const params = new URLSearchParams(searchParams);
+    const isDefault = newColumns.length === DEFAULT_RESULT_COLUMNS.length &&
+      newColumns.every((id, i) => id === DEFAULT_RESULT_COLUMNS[i]);
+    if (isDefault) params.delete('cols');
+    else params.set('cols', newColumns.join(','));
+    setSearchParams(params, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const showHealth = searchParams.get('health') === '1';
+  const ageParam = Number(searchParams.get('age'));
+  const maxDataAge = ageParam > 0 ? ageParam : null;
+
+  const setShowHealth = useCallback((show: boolean) => {
+    const params = new URLSearchParams(searchParams);
+    if (show) params.set('health', '1');
+    else params.delete('health');
+    setSearchParams(params, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const setMaxDataAge = useCallback((hours: number | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (hours) params.set('age', String(hours));
+    else params.delete('age');
+    setSearchParams(params, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  return { viewMode, columns, setViewMode, setColumns, showHealth, maxDataAge, setShowHealth, setMaxDataAge };
+}
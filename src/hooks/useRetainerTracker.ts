@@ -0,0 +1,158 @@
+// Hook for the retainer tracker: registered retainers, the items they sell, their listings and a sales ledger
+import { useState, useCallback, useMemo } from 'react';
+import { getFullMarketData } from '../services/marketCache';
+import { useSettings } from './useSettings';
+import {
+  findRetainerListings,
+  matchSales,
+  type RetainerListingStatus,
+  type RetainerSale,
+  type TrackedListing,
+} from '../utils/retainerTracker';
+
+const STORAGE_KEY = 'ffxiv-retainer-tracker';
+// Listings that disappeared are matched against history this long; after that they stay listed as unmatched
+const PENDING_MATCH_MS = 3 * 24 * 60 * 60 * 1000;
+const MAX_SALES = 500;
+
+interface RetainerTrackerState {
+  retainers: string[];
+  itemIds: number[];
+  listings: TrackedListing[];
+  sales: RetainerSale[];
+}
+
+const EMPTY_STATE: RetainerTrackerState = { retainers: [], itemIds: [], listings: [], sales: [] };
+
+function loadState(): RetainerTrackerState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...EMPTY_STATE, ...JSON.parse(raw) } : EMPTY_STATE;
+  } catch {
+    return EMPTY_STATE;
+  }
+}
+
+function saveState(state: RetainerTrackerState) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+export function useRetainerTracker() {
+  const { marketServer } = useSettings();
+  const [state, setState] = useState<RetainerTrackerState>(loadState);
+  const [statuses, setStatuses] = useState<RetainerListingStatus[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [checkedAt, setCheckedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = useCallback((change: (prev: RetainerTrackerState) => RetainerTrackerState) => {
+    setState(prev => {
+      const next = change(prev);
+      saveState(next);
+      return next;
+    });
+  }, []);
+
+  const setRetainers = useCallback((retainers: string[]) => {
+    update(prev => ({ ...prev, retainers }));
+  }, [update]);
+
+  const addItem = useCallback((itemId: number) => {
+    update(prev => (prev.itemIds.includes(itemId) ? prev : { ...prev, itemIds: [...prev.itemIds, itemId] }));
+  }, [update]);
+
+  const removeItem = useCallback((itemId: number) => {
+    update(prev => ({
+      ...prev,
+      itemIds: prev.itemIds.filter(id => id !== itemId),
+      listings: prev.listings.filter(l => l.itemId !== itemId),
+    }));
+    setStatuses(prev => prev.filter(s => s.itemId !== itemId));
+  }, [update]);
+
+  const clearSales = useCallback(() => {
+    update(prev => ({ ...prev, sales: [] }));
+  }, [update]);
+
+  const dismissListing = useCallback((listingID: string) => {
+    update(prev => ({ ...prev, listings: prev.listings.filter(l => l.listingID !== listingID) }));
+  }, [update]);
+
+  /**
+   * Fetch fresh listings for every tracked item, then record sales of listings that are gone
+   */
+  const check = useCallback(async () => {
+    const { itemIds, retainers } = state;
+    if (itemIds.length === 0 || retainers.length === 0) return;
+
+    setChecking(true);
+    setError(null);
+    try {
+      const data = await getFullMarketData(itemIds, marketServer);
+      const now = Date.now();
+
+      const found = itemIds.flatMap(id => (data[id] ? findRetainerListings(id, data[id], retainers, marketServer) : []));
+      setStatuses(found);
+      setCheckedAt(now);
+
+      update(prev => {
+        const current: TrackedListing[] = found.map(({ itemId, listing, world }) => ({
+          listingID: listing.listingID,
+          itemId,
+          retainerName: listing.retainerName,
+          world,
+          hq: listing.hq,
+          pricePerUnit: listing.pricePerUnit,
+          quantity: listing.quantity,
+          lastSeen: now,
+        }));
+        const currentIds = new Set(current.map(l => l.listingID));
+        const gone = prev.listings.filter(l => !currentIds.has(l.listingID) && data[l.itemId]);
+
+        const knownSaleIds = new Set(prev.sales.map(s => s.id));
+        const newSales = itemIds.flatMap(id => {
+          const itemGone = gone.filter(l => l.itemId === id && now - l.lastSeen < PENDING_MATCH_MS);
+          return itemGone.length > 0 ? matchSales(itemGone, data[id], marketServer, knownSaleIds) : [];
+        });
+        const soldIds = new Set(newSales.map(s => s.id));
+
+        // Items without market data this time keep their listings for the next check
+        const unchecked = prev.listings.filter(l => !data[l.itemId]);
+
+        return {
+          ...prev,
+          listings: [...current, ...gone.filter(l => !soldIds.has(l.listingID)), ...unchecked],
+          sales: [...newSales, ...prev.sales].sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_SALES),
+        };
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '發生錯誤');
+    } finally {
+      setChecking(false);
+    }
+  }, [state, marketServer, update]);
+
+  // Listings gone from the board whose sale wasn't found in history (taken down, or sold before the history reaches)
+  const unmatched = useMemo(() => {
+    if (checkedAt === null) return [];
+    const active = new Set(statuses.map(s => s.listing.listingID));
+    return state.listings.filter(l => !active.has(l.listingID) && state.itemIds.includes(l.itemId));
+  }, [state.listings, state.itemIds, statuses, checkedAt]);
+
+  return {
+    retainers: state.retainers,
+    itemIds: state.itemIds,
+    sales: state.sales,
+    statuses,
+    unmatched,
+    checking,
+    checkedAt,
+    error,
+    setRetainers,
+    addItem,
+    removeItem,
+    clearSales,
+    dismissListing,
+    check,
+  };
+}
@@ -0,0 +1,49 @@
+// Hook for gear sets saved in localStorage
+import { useState, useCallback } from 'react';
+import type { GearSet, SavedGearSet } from '../types';
+
+const STORAGE_KEY = 'ffxiv-gear-sets';
+
+function loadSavedGearSets(): SavedGearSet[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveGearSets(sets: SavedGearSet[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sets));
+}
+
+export function useSavedGearSets() {
+  const [savedSets, setSavedSets] = useState<SavedGearSet[]>(loadSavedGearSets);
+
+  // Saving under an existing name and job overwrites that set
+  const saveGearSet = useCallback((set: GearSet) => {
+    setSavedSets(prev => {
+      const existing = prev.find(saved => saved.name === set.name && saved.job === set.job);
+      const entry: SavedGearSet = {
+        ...set,
+        id: existing?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        savedAt: Date.now(),
+      };
+      const next = existing
+        ? prev.map(saved => (saved.id === existing.id ? entry : saved))
+        : [entry, ...prev];
+      saveGearSets(next);
+      return next;
+    });
+  }, []);
+
+  const deleteGearSet = useCallback((id: string) => {
+    setSavedSets(prev => {
+      const next = prev.filter(saved => saved.id !== id);
+      saveGearSets(next);
+      return next;
+    });
+  }, []);
+
+  return { savedSets, saveGearSet, deleteGearSet };
+}
@@ -1,10 +1,13 @@
 // Hook for search functionality
-import { useState, useCallback, useMemo, useEffect, useRef, useDeferredValue } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import type { SearchFilters, SearchResult } from '../types';
-import { searchItems } from '../services/searchService';
+import type { SearchFilters, SearchResult, SearchSort } from '../types';
+import { searchItems, type SearchResultWithTotal } from '../services/searchService';
+import { liftQueryFilters, formatSearchQuery, getQueryText, queryUsesEquipStats } from '../services/searchQuery';
+import { ensureFullItemData } from './useItemData';
+import { DEFAULT_SORT, DEFAULT_SORT_DESC, isSortKey } from '../services/searchSort';
 
-const DEFAULT_FILTERS: SearchFilters = {
+export const DEFAULT_FILTERS: SearchFilters = {
   query: '',
   categoryId: null,
   minLevel: 1,
@@ -19,6 +22,11 @@ const DEFAULT_FILTERS: SearchFilters = {
   tradeable: null,
   rarity: null,
   patch: null,
+  statFilters: [],
+  minMateriaSlots: 0,
+  minDyeCount: 0,
+  advancedMelding: false,
+  unique: null,
 };
 
 // Parse URL params to filters
@@ -63,11 +71,45 @@ function parseUrlParams(searchParams: URLSearchParams): Partial<SearchFilters> {
   const patch = searchParams.get('patch');
   if (patch) filters.patch = patch;
 
+  // Stat filters as `name:min` pairs, e.g. `暴擊:200,信念:150`
+  const stats = searchParams.get('stats');
+  if (stats) {
+    filters.statFilters = stats.split(',').flatMap(entry => {
+      const sep = entry.lastIndexOf(':');
+      const min = parseInt(entry.slice(sep + 1), 10);
+      return sep > 0 && !Number.isNaN(min) ? [{ stat: entry.slice(0, sep), min }] : [];
+    });
+  }
+
+  const materia = searchParams.get('materia');
+  if (materia) filters.minMateriaSlots = parseInt(materia, 10);
+
+  const dye = searchParams.get('dye');
+  if (dye) filters.minDyeCount = parseInt(dye, 10);
+
+  if (searchParams.get('overmeld') === '1') filters.advancedMelding = true;
+
+  const unique = searchParams.get('unique');
+  if (unique === '1') filters.unique = true;
+  else if (unique === '0') filters.unique = false;
+
   return filters;
 }
 
-// Filter param keys managed by useSearch
-const FILTER_PARAM_KEYS = new Set(['q', 'cat', 'minLv', 'maxLv', 'minEq', 'maxEq', 'jobs', 'craft', 'gather', 'hq', 'trade', 'rarity', 'patch']);
+// Parse sort params; `dir` is only present when it differs from the key's default direction
+function parseSortParams(searchParams: URLSearchParams): SearchSort {
+  const key = searchParams.get('sort');
+  if (!key || !isSortKey(key)) return DEFAULT_SORT;
+  const dir = searchParams.get('dir');
+  const desc = dir === 'desc' ? true : dir === 'asc' ? false : DEFAULT_SORT_DESC[key];
+  return { key, desc };
+}
+
+// Filter param keys managed by useSearch; other params (sort, view, selected) are kept as-is
+const FILTER_PARAM_KEYS = new Set([
+  'q', 'cat', 'minLv', 'maxLv', 'minEq', 'maxEq', 'jobs', 'craft', 'gather', 'hq', 'trade', 'rarity', 'patch',
+  'stats', 'materia', 'dye', 'overmeld', 'unique',
+]);
 
 // Convert filters to URL params, preserving non-filter params (e.g. 'selected')
 function filtersToUrlParams(filters: SearchFilters, currentParams?: URLSearchParams): URLSearchParams {
@@ -97,14 +139,34 @@ function filtersToUrlParams(filters: SearchFilters, currentParams?: URLSearchPar
   else if (filters.tradeable === false) params.set('trade', '0');
   if (filters.rarity !== null) params.set('rarity', String(filters.rarity));
   if (filters.patch !== null) params.set('patch', filters.patch);
+  if (filters.statFilters.length > 0) {
+    params.set('stats', filters.statFilters.map(f => `${f.stat}:${f.min}`).join(','));
+  }
+  if (filters.minMateriaSlots > 0) params.set('materia', String(filters.minMateriaSlots));
+  if (filters.minDyeCount > 0) params.set('dye', String(filters.minDyeCount));
+  if (filters.advancedMelding) params.set('overmeld', '1');
+  if (filters.unique === true) params.set('unique', '1');
+  else if (filters.unique === false) params.set('unique', '0');
 
   return params;
 }
 
 const PAGE_SIZE = 100;
 
+const EMPTY_RESULTS: SearchResultWithTotal = { results: [], total: 0 };
+
+interface CompletedSearch {
+  filters: SearchFilters | null;
+  sort: SearchSort | null;
+  limit: number;
+  data: SearchResultWithTotal;
+}
+
 interface UseSearchReturn {
   filters: SearchFilters;
+  queryString: string;   // Full query shown in the search bar (text + structured terms)
+  searchText: string;    // Free-text part of the query, for name highlighting
+  sort: SearchSort;
   results: SearchResult[];
   totalResults: number;
   isSearching: boolean;
@@ -112,6 +174,7 @@ interface UseSearchReturn {
   hasMore: boolean;      // Whether there are more results to load
   updateQuery: (query: string) => void;
   updateFilters: (updates: Partial<SearchFilters>) => void;
+  updateSort: (sort: SearchSort) => void;
   resetFilters: () => void;
   loadMore: () => void;
 }
@@ -131,7 +194,19 @@ function hasActiveFilters(filters: SearchFilters): boolean {
     filters.canBeHq !== null ||
     filters.tradeable !== null ||
     filters.rarity !== null ||
-    filters.patch !== null
+    filters.patch !== null ||
+    hasEquipFilters(filters)
+  );
+}
+
+// Equipment filters read equipStats, which only the full item data has
+function hasEquipFilters(filters: SearchFilters): boolean {
+  return (
+    filters.statFilters.length > 0 ||
+    filters.minMateriaSlots > 0 ||
+    filters.minDyeCount > 0 ||
+    filters.advancedMelding ||
+    filters.unique !== null
   );
 }
 
@@ -146,16 +221,36 @@ export function useSearch(): UseSearchReturn {
     return { ...DEFAULT_FILTERS, ...urlFilters };
   }, [searchParams]);
 
+  // Full query string reflects every filter, so it round-trips with the URL params
+  const queryString = useMemo(() => formatSearchQuery(filters), [filters]);
+  const searchText = useMemo(() => getQueryText(filters.query), [filters.query]);
+
   const updateQuery = useCallback((query: string) => {
-    const newFilters = { ...filters, query };
+    // The search bar holds the whole filter state: structured terms go to their URL params,
+    // everything else stays in `q`
+    const { filters: lifted, rest } = liftQueryFilters(query);
+    const newFilters = { ...DEFAULT_FILTERS, ...lifted, query: rest };
     setSearchParams(filtersToUrlParams(newFilters, searchParams), { replace: true });
-  }, [filters, searchParams, setSearchParams]);
+  }, [searchParams, setSearchParams]);
 
   const updateFilters = useCallback((updates: Partial<SearchFilters>) => {
     const newFilters = { ...filters, ...updates };
     setSearchParams(filtersToUrlParams(newFilters, searchParams), { replace: true });
   }, [filters, searchParams, setSearchParams]);
 
+  const updateSort = useCallback((newSort: SearchSort) => {
+    const params = new URLSearchParams(searchParams);
+    params.delete('sort');
+    params.delete('dir');
+    if (newSort.key !== DEFAULT_SORT.key) {
+      params.set('sort', newSort.key);
+      if (newSort.desc !== DEFAULT_SORT_DESC[newSort.key]) {
+        params.set('dir', newSort.desc ? 'desc' : 'asc');
+      }
+    }
+    setSearchParams(params, { replace: true });
+  }, [searchParams, setSearchParams]);
+
   const resetFilters = useCallback(() => {
     // Preserve non-filter params when resetting
     const params = new URLSearchParams();
@@ -178,18 +273,40 @@ export function useSearch(): UseSearchReturn {
   // Check if user has searched (has any active filter)
   const hasSearched = useMemo(() => hasActiveFilters(filters), [filters]);
 
-  // Defer filters so the UI can show a loading state while search runs
-  const deferredFilters = useDeferredValue(filters);
-  const deferredDisplayLimit = useDeferredValue(displayLimit);
-  const isStale = deferredFilters !== filters || deferredDisplayLimit !== displayLimit;
+  // Key filters by content so unrelated URL changes (e.g. `selected`) don't re-query
+  const filtersKey = JSON.stringify(filters);
+  const searchFilters = useMemo<SearchFilters>(() => JSON.parse(filtersKey), [filtersKey]);
+  const { key: sortKey, desc: sortDesc } = parseSortParams(searchParams);
+  const sort = useMemo<SearchSort>(() => ({ key: sortKey, desc: sortDesc }), [sortKey, sortDesc]);
+
+  // Latest completed search; its results stay visible while a newer query runs
+  const [completed, setCompleted] = useState<CompletedSearch>({
+    filters: null,
+    sort: null,
+    limit: 0,
+    data: EMPTY_RESULTS,
+  });
+
+  // Query the search worker; a newer query cancels the stale one
+  useEffect(() => {
+    if (!hasActiveFilters(searchFilters)) return;
 
-  // Memoized search results - only search if there are active filters
-  const searchData = useMemo(() => {
-    if (!hasActiveFilters(deferredFilters)) {
-      return { results: [], total: 0 };
-    }
-    return searchItems(deferredFilters, deferredDisplayLimit);
-  }, [deferredFilters, deferredDisplayLimit]);
+    const controller = new AbortController();
+    const needsFullData = hasEquipFilters(searchFilters) || queryUsesEquipStats(searchFilters.query);
+    (needsFullData ? ensureFullItemData() : Promise.resolve())
+      .then(() => searchItems(searchFilters, displayLimit, controller.signal, sort))
+      .then(data => setCompleted({ filters: searchFilters, sort, limit: displayLimit, data }))
+      .catch((err: unknown) => {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error('Search failed:', err);
+        setCompleted({ filters: searchFilters, sort, limit: displayLimit, data: EMPTY_RESULTS });
+      });
+
+    return () => controller.abort();
+  }, [searchFilters, sort, displayLimit]);
+
+  const isStale = completed.filters !== searchFilters || completed.sort !== sort || completed.limit !== displayLimit;
+  const searchData = hasSearched ? completed.data : EMPTY_RESULTS;
 
   const loadMore = useCallback(() => {
     setDisplayLimit(prev => prev + PAGE_SIZE);
@@ -199,6 +316,9 @@ export function useSearch(): UseSearchReturn {
 
   return {
     filters,
+    queryString,
+    searchText,
+    sort,
     results: searchData.results,
     totalResults: searchData.total,
     isSearching: isStale && hasSearched,
@@ -206,6 +326,7 @@ export function useSearch(): UseSearchReturn {
     hasMore,
     updateQuery,
     updateFilters,
+    updateSort,
     resetFilters,
     loadMore,
   };
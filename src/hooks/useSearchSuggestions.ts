@@ -0,0 +1,50 @@
+// Hook for search bar autocomplete: top item matches and matching categories
+import { useState, useEffect, useMemo } from 'react';
+import type { ItemCategory, SearchResult } from '../types';
+import { searchItems } from '../services/searchService';
+import { getQueryText } from '../services/searchQuery';
+import { DEFAULT_FILTERS } from './useSearch';
+
+const MAX_ITEM_SUGGESTIONS = 6;
+const MAX_CATEGORY_SUGGESTIONS = 3;
+
+interface UseSearchSuggestionsReturn {
+  text: string;                 // Free-text part of the input the suggestions are for
+  items: SearchResult[];
+  categories: ItemCategory[];
+}
+
+export function useSearchSuggestions(input: string, categories: ItemCategory[], enabled: boolean): UseSearchSuggestionsReturn {
+  const text = useMemo(() => getQueryText(input).trim(), [input]);
+  const [items, setItems] = useState<SearchResult[]>([]);
+
+  // Item matches come from the search worker; structured terms are ignored here
+  useEffect(() => {
+    if (!enabled || !text) return;
+
+    const controller = new AbortController();
+    searchItems({ ...DEFAULT_FILTERS, query: text }, MAX_ITEM_SUGGESTIONS, controller.signal)
+      .then(data => setItems(data.results))
+      .catch((err: unknown) => {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error('Suggestion search failed:', err);
+      });
+
+    return () => controller.abort();
+  }, [text, enabled]);
+
+  const matchingCategories = useMemo(() => {
+    if (!text) return [];
+    const needle = text.toLowerCase();
+    return categories
+      .filter(category => category.name.toLowerCase().includes(needle))
+      .slice(0, MAX_CATEGORY_SUGGESTIONS);
+  }, [text, categories]);
+
+  return {
+    text,
+    // Previous matches stay visible while the next keystroke's search runs
+    items: text ? items : [],
+    categories: matchingCategories,
+  };
+}
@@ -47,14 +47,64 @@ export const DEFAULT_CRAFTING_CONSUMABLES: CraftingConsumables = {
   specialist: false,
 };
 
+// Combat base stats for the consumables browser, by BaseParam id
+export type CombatStats = Record<number, number>;
+
+export const DEFAULT_COMBAT_STATS: CombatStats = {
+  1: 4800,    // Strength
+  2: 4800,    // Dexterity
+  4: 4800,    // Intelligence
+  5: 4800,    // Mind
+  3: 4900,    // Vitality
+  27: 3000,   // Critical Hit
+  44: 2300,   // Determination
+  22: 1400,   // Direct Hit
+  45: 420,    // Skill Speed
+  46: 420,    // Spell Speed
+  19: 420,    // Tenacity
+  6: 440,     // Piety
+};
+
+// How crafting trees pick among an item's recipes when none was chosen by hand
+export interface RecipePreference {
+  preferLeveledJobs: boolean;       // Skip recipes above the job's level when another recipe fits
+  jobLevels: Record<number, number>;  // By craft type (0 CRP … 7 CUL)
+  avoidUnownedBooks: boolean;       // Skip recipes needing a master book not in ownedBooks
+  ownedBooks: number[];             // Master recipe book item IDs
+}
+
+export const DEFAULT_RECIPE_PREFERENCE: RecipePreference = {
+  preferLeveledJobs: false,
+  jobLevels: { 0: 100, 1: 100, 2: 100, 3: 100, 4: 100, 5: 100, 6: 100, 7: 100 },
+  avoidUnownedBooks: false,
+  ownedBooks: [],
+};
+
+// Market prices come from one world, data center or region (Universalis accepts any of them by name)
+export const DEFAULT_MARKET_SERVER = '陸行鳥';
+
 // Settings interface
 export interface Settings {
   crafterStats: CrafterAttributes;
   tabOrder: TabConfig[];
   craftingConsumables: CraftingConsumables;
+  combatStats: CombatStats;
+  marketServer: string;
+  liveMarket: boolean;        // Follow listing/sale events over the Universalis WebSocket
+  recipePreference: RecipePreference;
 }
 
 const SETTINGS_KEY = 'ffxiv-item-search-settings';
+// The market tab kept its own world choice before it became a setting
+const LEGACY_WORLD_KEY = 'ffxiv-selected-world';
+
+// Every mounted useSettings, so a change in one shows up in the others
+const listeners = new Set<(settings: Settings) => void>();
+let lastSavedJson = '';
+
+function loadLegacyMarketServer(): string {
+  return localStorage.getItem(LEGACY_WORLD_KEY) || DEFAULT_MARKET_SERVER;
+}
 
 function loadSettings(): Settings {
   try {
@@ -66,6 +116,14 @@ function loadSettings(): Settings {
         crafterStats: { ...DEFAULT_CRAFTER_STATS, ...parsed.crafterStats },
         tabOrder: parsed.tabOrder || DEFAULT_TAB_ORDER,
         craftingConsumables: { ...DEFAULT_CRAFTING_CONSUMABLES, ...parsed.craftingConsumables },
+        combatStats: { ...DEFAULT_COMBAT_STATS, ...parsed.combatStats },
+        marketServer: parsed.marketServer || loadLegacyMarketServer(),
+        liveMarket: parsed.liveMarket ?? false,
+        recipePreference: {
+          ...DEFAULT_RECIPE_PREFERENCE,
+          ...parsed.recipePreference,
+          jobLevels: { ...DEFAULT_RECIPE_PREFERENCE.jobLevels, ...parsed.recipePreference?.jobLevels },
+        },
       };
     }
   } catch (e) {
@@ -75,23 +133,45 @@ function loadSettings(): Settings {
     crafterStats: DEFAULT_CRAFTER_STATS,
     tabOrder: DEFAULT_TAB_ORDER,
     craftingConsumables: DEFAULT_CRAFTING_CONSUMABLES,
+    combatStats: DEFAULT_COMBAT_STATS,
+    marketServer: loadLegacyMarketServer(),
+    liveMarket: false,
+    recipePreference: DEFAULT_RECIPE_PREFERENCE,
   };
 }
 
-function saveSettings(settings: Settings): void {
+/**
+ * Save settings; returns false when nothing changed since the last save
+ */
+function saveSettings(settings: Settings): boolean {
+  const json = JSON.stringify(settings);
+  if (json === lastSavedJson) return false;
+  lastSavedJson = json;
   try {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    localStorage.setItem(SETTINGS_KEY, json);
   } catch (e) {
     console.error('Failed to save settings:', e);
   }
+  return true;
 }
 
 export function useSettings() {
   const [settings, setSettings] = useState<Settings>(loadSettings);
 
+  // Pick up changes made through other components
+  useEffect(() => {
+    const listener = (next: Settings) => setSettings(next);
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
   // Save to localStorage when settings change
   useEffect(() => {
-    saveSettings(settings);
+    if (saveSettings(settings)) {
+      listeners.forEach(listener => listener(settings));
+    }
   }, [settings]);
 
   // Update crafter stats
@@ -112,6 +192,29 @@ export function useSettings() {
     }));
   }, []);
 
+  // Update combat base stats
+  const setCombatStats = useCallback((stats: CombatStats) => {
+    setSettings(prev => ({ ...prev, combatStats: stats }));
+  }, []);
+
+  // Update the world, data center or region used for market prices
+  const setMarketServer = useCallback((marketServer: string) => {
+    setSettings(prev => ({ ...prev, marketServer }));
+  }, []);
+
+  // Turn live market updates on or off
+  const setLiveMarket = useCallback((liveMarket: boolean) => {
+    setSettings(prev => ({ ...prev, liveMarket }));
+  }, []);
+
+  // Update how crafting trees pick recipes
+  const setRecipePreference = useCallback((preference: Partial<RecipePreference>) => {
+    setSettings(prev => ({
+      ...prev,
+      recipePreference: { ...prev.recipePreference, ...preference },
+    }));
+  }, []);
+
   // Move tab up in order
   const moveTabUp = useCallback((index: number) => {
     if (index <= 0) return;
@@ -138,6 +241,10 @@ export function useSettings() {
       crafterStats: DEFAULT_CRAFTER_STATS,
       tabOrder: DEFAULT_TAB_ORDER,
       craftingConsumables: DEFAULT_CRAFTING_CONSUMABLES,
+      combatStats: DEFAULT_COMBAT_STATS,
+      marketServer: DEFAULT_MARKET_SERVER,
+      liveMarket: false,
+      recipePreference: DEFAULT_RECIPE_PREFERENCE,
     });
   }, []);
 
@@ -152,9 +259,17 @@ export function useSettings() {
     crafterStats: settings.crafterStats,
     tabOrder: settings.tabOrder,
     craftingConsumables: settings.craftingConsumables,
+    combatStats: settings.combatStats,
+    marketServer: settings.marketServer,
+    liveMarket: settings.liveMarket,
+    recipePreference: settings.recipePreference,
     setCrafterStats,
     setTabOrder,
     setCraftingConsumables,
+    setCombatStats,
+    setMarketServer,
+    setLiveMarket,
+    setRecipePreference,
     moveTabUp,
     moveTabDown,
     resetSettings,
@@ -0,0 +1,142 @@
+// Minimal BSON encoder/decoder for the Universalis WebSocket
+// Covers the types Universalis sends: documents, arrays, strings, numbers, booleans, null and dates
+
+type BsonValue = string | number | boolean | null | BsonValue[] | { [key: string]: BsonValue };
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function encodeCString(value: string): Uint8Array {
+  const bytes = textEncoder.encode(value);
+  const out = new Uint8Array(bytes.length + 1);
+  out.set(bytes);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function int32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setInt32(0, value, true);
+  return out;
+}
+
+function encodeElement(name: string, value: BsonValue): Uint8Array {
+  const key = encodeCString(name);
+  if (value === null) return concat([Uint8Array.of(0x0a), key]);
+  if (typeof value === 'boolean') return concat([Uint8Array.of(0x08), key, Uint8Array.of(value ? 1 : 0)]);
+  if (typeof value === 'string') {
+    const bytes = encodeCString(value);
+    return concat([Uint8Array.of(0x02), key, int32(bytes.length), bytes]);
+  }
+  if (typeof value === 'number') {
+    if (Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff) {
+      return concat([Uint8Array.of(0x10), key, int32(value)]);
+    }
+    const out = new Uint8Array(8);
+    new DataView(out.buffer).setFloat64(0, value, true);
+    return concat([Uint8Array.of(0x01), key, out]);
+  }
+  if (Array.isArray(value)) {
+    const doc = Object.fromEntries(value.map((item, index) => [String(index), item]));
+    return concat([Uint8Array.of(0x04), key, encodeDocument(doc)]);
+  }
+  return concat([Uint8Array.of(0x03), key, encodeDocument(value)]);
+}
+
+function encodeDocument(doc: { [key: string]: BsonValue }): Uint8Array {
+  const body = concat(Object.entries(doc).map(([name, value]) => encodeElement(name, value)));
+  return concat([int32(body.length + 5), body, Uint8Array.of(0)]);
+}
+
+function readCString(bytes: Uint8Array, offset: number): [string, number] {
+  let end = offset;
+  while (bytes[end] !== 0) end++;
+  return [textDecoder.decode(bytes.subarray(offset, end)), end + 1];
+}
+
+function decodeDocument(bytes: Uint8Array, start: number, asArray: boolean): BsonValue {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const size = view.getInt32(start, true);
+  const end = start + size - 1;
+  const result: Record<string, BsonValue> = {};
+  const list: BsonValue[] = [];
+  let offset = start + 4;
+
+  while (offset < end) {
+    const type = bytes[offset];
+    const [name, valueOffset] = readCString(bytes, offset + 1);
+    let value: BsonValue;
+    offset = valueOffset;
+
+    switch (type) {
+      case 0x01:
+        value = view.getFloat64(offset, true);
+        offset += 8;
+        break;
+      case 0x02: {
+        const length = view.getInt32(offset, true);
+        value = textDecoder.decode(bytes.subarray(offset + 4, offset + 4 + length - 1));
+        offset += 4 + length;
+        break;
+      }
+      case 0x03:
+      case 0x04: {
+        value = decodeDocument(bytes, offset, type === 0x04);
+        offset += view.getInt32(offset, true);
+        break;
+      }
+      case 0x05: {
+        // Binary data isn't used by any field we read; skip it
+        const length = view.getInt32(offset, true);
+        value = null;
+        offset += 5 + length;
+        break;
+      }
+      case 0x07:
+        value = Array.from(bytes.subarray(offset, offset + 12), b => b.toString(16).padStart(2, '0')).join('');
+        offset += 12;
+        break;
+      case 0x08:
+        value = bytes[offset] === 1;
+        offset += 1;
+        break;
+      case 0x09:
+      case 0x12:
+        value = Number(view.getBigInt64(offset, true));
+        offset += 8;
+        break;
+      case 0x0a:
+        value = null;
+        break;
+      case 0x10:
+        value = view.getInt32(offset, true);
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unsupported BSON type 0x${type.toString(16)}`);
+    }
+
+    if (asArray) list.push(value);
+    else result[name] = value;
+  }
+
+  return asArray ? list : result;
+}
+
+export function encodeBson(doc: { [key: string]: BsonValue }): Uint8Array {
+  return encodeDocument(doc);
+}
+
+export function decodeBson(data: ArrayBuffer | Uint8Array): unknown {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return decodeDocument(bytes, 0, false);
+}
@@ -0,0 +1,94 @@
+// IndexedDB cache for large static data (decoded items, search index)
+// Entries are tagged with the data version from data-version.json; a version
+// mismatch is treated as a miss. Works on the main thread and in workers.
+
+const DB_NAME = 'ffxiv-item-search-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'data';
+
+interface CacheEntry<T> {
+  key: string;
+  version: string;
+  value: T;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Failed to open data cache:', request.error);
+        resolve(null);
+      };
+    } catch (e) {
+      // Private browsing modes may throw on open
+      console.warn('Data cache unavailable:', e);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Read a cached value; returns null on miss, version mismatch or error
+ */
+export async function readCachedData<T>(key: string, version: string): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    try {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => {
+        const entry = request.result as CacheEntry<T> | undefined;
+        resolve(entry && entry.version === version ? entry.value : null);
+      };
+      request.onerror = () => {
+        console.warn(`Failed to read cache entry "${key}":`, request.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.warn(`Failed to read cache entry "${key}":`, e);
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * Store a value, replacing any entry (of any version) under the same key
+ */
+export async function writeCachedData<T>(key: string, version: string, value: T): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  return new Promise(resolve => {
+    try {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const entry: CacheEntry<T> = { key, version, value };
+      tx.objectStore(STORE_NAME).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => {
+        // Usually a quota error; the app keeps working without the cache
+        console.warn(`Failed to write cache entry "${key}":`, tx.error);
+        resolve();
+      };
+    } catch (e) {
+      console.warn(`Failed to write cache entry "${key}":`, e);
+      resolve();
+    }
+  });
+}
@@ -0,0 +1,238 @@
+// Shared market data cache: every price view goes through here, so the same item
+// on the same server is fetched once per TTL no matter how many components ask for it
+import type { MarketData } from '../types';
+import { UNIVERSALIS_BASE } from './universalisApi';
+import { queuedFetch } from './requestQueue';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// Single-item requests made within this window share one multi-item request
+const BATCH_DELAY_MS = 20;
+// Universalis supports up to 100 items per request
+const MAX_BATCH_SIZE = 100;
+// Enough listings to price bulk quantities stack by stack
+const LISTINGS_PER_ITEM = 50;
+const HISTORY_PER_ITEM = 20;
+// Full fetches return every listing; history reaches further back for matching sales
+const FULL_HISTORY_PER_ITEM = 200;
+
+interface CacheEntry {
+  data: MarketData | null;         // null = not tradeable / no data
+  fetchedAt: number;
+}
+
+interface PendingItem {
+  resolve: (data: MarketData | null) => void;
+}
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<MarketData | null>>();
+const pendingBatches = new Map<string, Map<number, PendingItem>>();
+const changeListeners = new Set<(server: string, itemId: number, data: MarketData) => void>();
+
+function getCacheKey(server: string, itemId: number): string {
+  return `${server}:${itemId}`;
+}
+
+/**
+ * Request a chunk of items; null when the request failed
+ */
+async function fetchItems(server: string, ids: number[], query: string): Promise<Record<number, MarketData> | null> {
+  try {
+    const response = await queuedFetch(`${UNIVERSALIS_BASE}/${server}/${ids.join(',')}?${query}`);
+    if (response.ok) {
+      const data = await response.json();
+      const results: Record<number, MarketData> = {};
+      if (data.items) {
+        // Multiple items response
+        for (const [id, itemData] of Object.entries(data.items)) {
+          results[parseInt(id)] = itemData as MarketData;
+        }
+      } else if (data.itemID) {
+        // Single item response
+        results[data.itemID] = data;
+      }
+      return results;
+    }
+    if (response.status === 404) {
+      // Item not found or not tradeable
+      return {};
+    }
+    throw new Error(`HTTP ${response.status}`);
+  } catch (error) {
+    console.error('Failed to fetch market data:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch one chunk of items; items missing from the response resolve to null,
+ * failed requests aren't cached so the next caller retries
+ */
+async function fetchBatch(server: string, items: Map<number, PendingItem>): Promise<void> {
+  const results = await fetchItems(
+    server,
+    Array.from(items.keys()),
+    `listings=${LISTINGS_PER_ITEM}&entries=${HISTORY_PER_ITEM}`
+  );
+
+  const now = Date.now();
+  for (const [id, pending] of items) {
+    const key = getCacheKey(server, id);
+    const data = results?.[id] ?? null;
+    if (results) cache.set(key, { data, fetchedAt: now });
+    inFlight.delete(key);
+    pending.resolve(data);
+  }
+}
+
+/**
+ * Drop entries past their TTL so the cache doesn't grow with every item ever viewed
+ */
+function pruneExpired(): void {
+  const now = Date.now();
+  for (const [key, entry] of cache) {
+    if (now - entry.fetchedAt >= CACHE_TTL_MS) cache.delete(key);
+  }
+}
+
+function flushBatch(server: string): void {
+  pruneExpired();
+  const items = pendingBatches.get(server);
+  pendingBatches.delete(server);
+  if (!items) return;
+
+  const entries = Array.from(items.entries());
+  for (let i = 0; i < entries.length; i += MAX_BATCH_SIZE) {
+    fetchBatch(server, new Map(entries.slice(i, i + MAX_BATCH_SIZE)));
+  }
+}
+
+function requestItem(server: string, itemId: number): Promise<MarketData | null> {
+  const key = getCacheKey(server, itemId);
+  const existing = inFlight.get(key);
+  if (existing) return existing;
+
+  let batch = pendingBatches.get(server);
+  if (!batch) {
+    batch = new Map();
+    pendingBatches.set(server, batch);
+    setTimeout(() => flushBatch(server), BATCH_DELAY_MS);
+  }
+  const pendingBatch = batch;
+
+  const promise = new Promise<MarketData | null>(resolve => {
+    pendingBatch.set(itemId, { resolve });
+  });
+  inFlight.set(key, promise);
+  return promise;
+}
+
+function getFresh(server: string, itemId: number): CacheEntry | undefined {
+  const key = getCacheKey(server, itemId);
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (Date.now() - entry.fetchedAt < CACHE_TTL_MS) return entry;
+  cache.delete(key);
+  return undefined;
+}
+
+/**
+ * Get market data for an item on a world, data center or region
+ */
+export async function getMarketData(
+  itemId: number,
+  worldOrDc: string | number
+): Promise<MarketData | null> {
+  const server = String(worldOrDc);
+  const cached = getFresh(server, itemId);
+  if (cached) return cached.data;
+  return requestItem(server, itemId);
+}
+
+/**
+ * Get market data for multiple items; items without data are left out
+ */
+export async function getMultipleMarketData(
+  itemIds: number[],
+  worldOrDc: string | number
+): Promise<Record<number, MarketData>> {
+  const unique = Array.from(new Set(itemIds));
+  const data = await Promise.all(unique.map(id => getMarketData(id, worldOrDc)));
+
+  const results: Record<number, MarketData> = {};
+  unique.forEach((id, index) => {
+    const market = data[index];
+    if (market) results[id] = market;
+  });
+  return results;
+}
+
+/**
+ * Fetch every listing and a long history, skipping the cache and the batch queue
+ * For the retainer tracker: the user's own listings can sit far above the cheapest 50,
+ * and a sale can be further back than a price view's history. Throws when a request fails
+ */
+export async function getFullMarketData(
+  itemIds: number[],
+  worldOrDc: string | number
+): Promise<Record<number, MarketData>> {
+  const server = String(worldOrDc);
+  const unique = Array.from(new Set(itemIds));
+  const results: Record<number, MarketData> = {};
+
+  for (let i = 0; i < unique.length; i += MAX_BATCH_SIZE) {
+    const ids = unique.slice(i, i + MAX_BATCH_SIZE);
+    const chunk = await fetchItems(server, ids, `entries=${FULL_HISTORY_PER_ITEM}`);
+    if (!chunk) throw new Error('無法取得市場資料');
+
+    // Fresher than whatever is cached, so price views get it too
+    const now = Date.now();
+    for (const id of ids) {
+      if (chunk[id]) results[id] = chunk[id];
+      cache.set(getCacheKey(server, id), { data: chunk[id] ?? null, fetchedAt: now });
+    }
+  }
+  return results;
+}
+
+/**
+ * Drop cached data so the next request refetches: the given items, or everything
+ */
+export function invalidateMarketData(itemIds?: number[]): void {
+  if (!itemIds) {
+    cache.clear();
+    return;
+  }
+  const ids = new Set(itemIds.map(String));
+  for (const key of cache.keys()) {
+    if (ids.has(key.slice(key.lastIndexOf(':') + 1))) cache.delete(key);
+  }
+}
+
+/**
+ * Update cached data in place (live market events); items that aren't cached are ignored
+ */
+export function updateCachedMarketData(
+  server: string,
+  itemId: number,
+  update: (data: MarketData) => MarketData
+): void {
+  const key = getCacheKey(server, itemId);
+  const entry = cache.get(key);
+  if (!entry?.data) return;
+  const data = update(entry.data);
+  cache.set(key, { data, fetchedAt: entry.fetchedAt });
+  changeListeners.forEach(listener => listener(server, itemId, data));
+}
+
+/**
+ * Listen for in-place updates of cached data
+ */
+export function onMarketDataChange(
+  listener: (server: string, itemId: number, data: MarketData) => void
+): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
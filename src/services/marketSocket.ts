@@ -0,0 +1,248 @@
+// Live market updates from the Universalis WebSocket
+// The transport is swappable so a local mock server (e.g. one speaking JSON) can stand in for Universalis
+import type { MarketData, MarketHistory, MarketListing } from '../types';
+import { decodeBson, encodeBson } from './bson';
+import { updateCachedMarketData } from './marketCache';
+import { getAllWorlds, getServerWorldIds } from './worldData';
+
+const DEFAULT_SOCKET_URL = 'wss://universalis.app/api/ws';
+const MAX_RECONNECT_DELAY_MS = 30000;
+const CHANNELS = ['listings/add', 'listings/remove', 'sales/add'] as const;
+
+export type LiveStatus = 'connecting' | 'open' | 'closed';
+
+// One event as Universalis sends it
+export interface MarketSocketMessage {
+  event: string;
+  item: number;
+  world: number;
+  listings?: MarketListing[];
+  sales?: MarketHistory[];
+}
+
+export interface MessageCodec {
+  binary: boolean;
+  encode(message: Record<string, string>): string | Uint8Array;
+  decode(data: string | ArrayBuffer): unknown;
+}
+
+export const bsonCodec: MessageCodec = {
+  binary: true,
+  encode: message => encodeBson(message),
+  decode: data => decodeBson(typeof data === 'string' ? new TextEncoder().encode(data) : data),
+};
+
+export const jsonCodec: MessageCodec = {
+  binary: false,
+  encode: message => JSON.stringify(message),
+  decode: data => JSON.parse(typeof data === 'string' ? data : new TextDecoder().decode(data)),
+};
+
+export interface MarketTransport {
+  open(handlers: { onMessage: (message: MarketSocketMessage) => void; onStatus: (status: LiveStatus) => void }): void;
+  subscribe(channel: string): void;
+  unsubscribe(channel: string): void;
+  close(): void;
+}
+
+/**
+ * WebSocket transport: reconnects with back-off and resubscribes its channels after reconnecting
+ */
+export function createWebSocketTransport(url: string, codec: MessageCodec): MarketTransport {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let attempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  const channels = new Set<string>();
+
+  const send = (message: Record<string, string>) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(codec.encode(message));
+  };
+
+  return {
+    open({ onMessage, onStatus }) {
+      const connect = () => {
+        onStatus('connecting');
+        socket = new WebSocket(url);
+        if (codec.binary) socket.binaryType = 'arraybuffer';
+
+        socket.onopen = () => {
+          attempts = 0;
+          onStatus('open');
+          channels.forEach(channel => send({ event: 'subscribe', channel }));
+        };
+        socket.onmessage = (event: MessageEvent<string | ArrayBuffer>) => {
+          try {
+            onMessage(codec.decode(event.data) as MarketSocketMessage);
+          } catch (e) {
+            console.error('Failed to decode market event:', e);
+          }
+        };
+        socket.onclose = () => {
+          socket = null;
+          onStatus('closed');
+          if (closed) return;
+          const delay = Math.min(1000 * 2 ** attempts++, MAX_RECONNECT_DELAY_MS);
+          reconnectTimer = setTimeout(connect, delay);
+        };
+      };
+      closed = false;
+      connect();
+    },
+    subscribe(channel) {
+      channels.add(channel);
+      send({ event: 'subscribe', channel });
+    },
+    unsubscribe(channel) {
+      channels.delete(channel);
+      send({ event: 'unsubscribe', channel });
+    },
+    close() {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+}
+
+let transportFactory = (): MarketTransport => {
+  const url = import.meta.env.VITE_UNIVERSALIS_WS_URL as string | undefined;
+  // A custom URL points at a local mock server, which speaks JSON unless told otherwise
+  const codec = url && import.meta.env.VITE_UNIVERSALIS_WS_CODEC !== 'bson' ? jsonCodec : bsonCodec;
+  return createWebSocketTransport(url || DEFAULT_SOCKET_URL, codec);
+};
+
+let transport: MarketTransport | null = null;
+let status: LiveStatus = 'closed';
+const statusListeners = new Set<(status: LiveStatus) => void>();
+
+interface Watcher {
+  server: string;
+  itemIds: Set<number>;
+  worldIds: Set<number>;
+}
+
+const watchers = new Set<Watcher>();
+const worldRefs = new Map<number, number>();
+
+/**
+ * Replace the transport (for tests or a local mock server); takes effect on the next connection
+ */
+export function setMarketTransportFactory(factory: () => MarketTransport): void {
+  transportFactory = factory;
+}
+
+export function getLiveStatus(): LiveStatus {
+  return status;
+}
+
+export function onLiveStatus(listener: (status: LiveStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+function setStatus(next: LiveStatus): void {
+  status = next;
+  statusListeners.forEach(listener => listener(next));
+}
+
+function getWorldName(worldId: number): string | undefined {
+  return getAllWorlds().find(w => w.id === worldId)?.name;
+}
+
+/**
+ * Apply one socket event to an item's market data: listings added or removed, sales recorded,
+ * and the min prices recomputed from the resulting listings
+ */
+export function applyMarketEvent(data: MarketData, message: MarketSocketMessage, worldName?: string): MarketData {
+  const tagWorld = <T extends object>(entry: T): T => ({ ...entry, worldID: message.world, worldName });
+  let listings = data.listings ?? [];
+  let recentHistory = data.recentHistory ?? [];
+
+  if (message.event === 'listings/add' && message.listings) {
+    const added = new Set(message.listings.map(l => l.listingID));
+    listings = [...listings.filter(l => !added.has(l.listingID)), ...message.listings.map(tagWorld)]
+      .sort((a, b) => a.pricePerUnit - b.pricePerUnit);
+  } else if (message.event === 'listings/remove' && message.listings) {
+    const removed = new Set(message.listings.map(l => l.listingID));
+    listings = listings.filter(l => !removed.has(l.listingID));
+  } else if (message.event === 'sales/add' && message.sales) {
+    recentHistory = [...message.sales.map(tagWorld), ...recentHistory].slice(0, Math.max(recentHistory.length, 20));
+  } else {
+    return data;
+  }
+
+  const minOf = (filter: (l: MarketListing) => boolean) =>
+    listings.filter(filter).reduce((min, l) => (min === 0 || l.pricePerUnit < min ? l.pricePerUnit : min), 0);
+
+  return {
+    ...data,
+    listings,
+    recentHistory,
+    minPrice: minOf(() => true),
+    minPriceNQ: minOf(l => !l.hq),
+    minPriceHQ: minOf(l => l.hq),
+    listingsCount: listings.length,
+    unitsForSale: listings.reduce((sum, l) => sum + l.quantity, 0),
+    lastUploadTime: Date.now(),
+  };
+}
+
+function handleMessage(message: MarketSocketMessage): void {
+  const worldName = getWorldName(message.world);
+  const handled = new Set<string>();
+  for (const watcher of watchers) {
+    if (!watcher.worldIds.has(message.world) || !watcher.itemIds.has(message.item)) continue;
+    const key = `${watcher.server}:${message.item}`;
+    if (handled.has(key)) continue;
+    handled.add(key);
+    updateCachedMarketData(watcher.server, message.item, data => applyMarketEvent(data, message, worldName));
+  }
+}
+
+function ensureTransport(): MarketTransport {
+  if (!transport) {
+    transport = transportFactory();
+    transport.open({ onMessage: handleMessage, onStatus: setStatus });
+  }
+  return transport;
+}
+
+/**
+ * Receive live events for items on a world, data center or region until the returned function is called;
+ * the socket opens with the first watcher and closes with the last
+ */
+export function watchLiveItems(itemIds: number[], server: string): () => void {
+  const watcher: Watcher = {
+    server,
+    itemIds: new Set(itemIds),
+    worldIds: new Set(getServerWorldIds(server)),
+  };
+  watchers.add(watcher);
+
+  const socket = ensureTransport();
+  for (const worldId of watcher.worldIds) {
+    const refs = worldRefs.get(worldId) ?? 0;
+    worldRefs.set(worldId, refs + 1);
+    if (refs === 0) CHANNELS.forEach(channel => socket.subscribe(`${channel}{world=${worldId}}`));
+  }
+
+  return () => {
+    watchers.delete(watcher);
+    for (const worldId of watcher.worldIds) {
+      const refs = (worldRefs.get(worldId) ?? 1) - 1;
+      if (refs > 0) {
+        worldRefs.set(worldId, refs);
+      } else {
+        worldRefs.delete(worldId);
+        CHANNELS.forEach(channel => transport?.unsubscribe(`${channel}{world=${worldId}}`));
+      }
+    }
+    if (watchers.size === 0 && transport) {
+      transport.close();
+      transport = null;
+    }
+  };
+}
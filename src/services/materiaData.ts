@@ -0,0 +1,58 @@
+// Materia data and meld caps for the gear set planner
+import type { Item, MateriaData, MateriaInfo } from '../types';
+
+let cachedMateriaData: MateriaData | null = null;
+let materiaDataPromise: Promise<MateriaData> | null = null;
+
+/**
+ * Load materia.json once; resolves to empty data if the file is missing
+ */
+export async function loadMateriaData(): Promise<MateriaData> {
+  if (cachedMateriaData) return cachedMateriaData;
+  if (materiaDataPromise) return materiaDataPromise;
+
+  materiaDataPromise = (async () => {
+    try {
+      const response = await fetch(`${import.meta.env.BASE_URL}data/materia.json`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      cachedMateriaData = (await response.json()) as MateriaData;
+    } catch (e) {
+      console.error('Failed to load materia data:', e);
+      cachedMateriaData = { materia: {}, statCaps: { levels: {}, slotModifiers: {} } };
+    }
+    return cachedMateriaData;
+  })();
+  return materiaDataPromise;
+}
+
+/**
+ * Highest value a stat can reach on an item through melding, or null when unknown
+ * (the item's own value counts toward it, so the room left for materia is cap - value)
+ */
+export function getStatCap(data: MateriaData, item: Item, paramId: number): number | null {
+  const slotCategory = item.equipStats?.equipSlotCategory;
+  if (!slotCategory) return null;
+  const levelValue = data.statCaps.levels[item.itemLevel]?.[paramId];
+  const modifier = data.statCaps.slotModifiers[paramId]?.[slotCategory];
+  if (levelValue === undefined || modifier === undefined) return null;
+  return Math.round(levelValue * modifier / 1000);
+}
+
+/**
+ * All materia grouped by stat, highest grade first
+ */
+export function getMateriaByStat(data: MateriaData): { paramId: number; paramName: string; materia: (MateriaInfo & { itemId: number })[] }[] {
+  const groups = new Map<number, { paramId: number; paramName: string; materia: (MateriaInfo & { itemId: number })[] }>();
+  for (const [id, info] of Object.entries(data.materia)) {
+    let group = groups.get(info.paramId);
+    if (!group) {
+      group = { paramId: info.paramId, paramName: info.paramName, materia: [] };
+      groups.set(info.paramId, group);
+    }
+    group.materia.push({ ...info, itemId: Number(id) });
+  }
+  for (const group of groups.values()) {
+    group.materia.sort((a, b) => b.grade - a.grade);
+  }
+  return Array.from(groups.values()).sort((a, b) => a.paramId - b.paramId);
+}
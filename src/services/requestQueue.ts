@@ -0,0 +1,74 @@
+// Rate-limited fetch queue for Universalis requests
+// Universalis allows about 25 requests per second and 8 simultaneous connections per client;
+// staying under both and backing off on 429 keeps large price lists from being throttled
+
+const MAX_CONCURRENT = 6;
+const MIN_INTERVAL_MS = 50;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+
+interface QueuedRequest {
+  url: string;
+  attempt: number;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+const queue: QueuedRequest[] = [];
+let active = 0;
+let nextStartAt = 0;
+let pausedUntil = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function getBackoffMs(response: Response, attempt: number): number {
+  const retryAfter = parseInt(response.headers.get('Retry-After') ?? '', 10);
+  if (!Number.isNaN(retryAfter)) return retryAfter * 1000;
+  return BASE_BACKOFF_MS * 2 ** attempt;
+}
+
+function run(request: QueuedRequest): void {
+  active++;
+  fetch(request.url)
+    .then(response => {
+      if ((response.status === 429 || response.status === 503) && request.attempt < MAX_RETRIES) {
+        // Throttled: hold the whole queue, then retry this request first
+        pausedUntil = Date.now() + getBackoffMs(response, request.attempt);
+        queue.unshift({ ...request, attempt: request.attempt + 1 });
+        return;
+      }
+      request.resolve(response);
+    })
+    .catch(request.reject)
+    .finally(() => {
+      active--;
+      pump();
+    });
+}
+
+function pump(): void {
+  while (active < MAX_CONCURRENT && queue.length > 0) {
+    const now = Date.now();
+    const wait = Math.max(nextStartAt, pausedUntil) - now;
+    if (wait > 0) {
+      if (!timer) {
+        timer = setTimeout(() => {
+          timer = null;
+          pump();
+        }, wait);
+      }
+      return;
+    }
+    nextStartAt = now + MIN_INTERVAL_MS;
+    run(queue.shift()!);
+  }
+}
+
+/**
+ * fetch() through the shared queue: limited concurrency and rate, retried with back-off when throttled
+ */
+export function queuedFetch(url: string): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    queue.push({ url, attempt: 0, resolve, reject });
+    pump();
+  });
+}
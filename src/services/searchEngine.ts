@@ -0,0 +1,353 @@
+// Search engine using FlexSearch
+// Runs inside searchWorker.ts; owns the index and the filter/sort pipeline
+import FlexSearch from 'flexsearch';
+import type { Item, MultilingualNames, SearchFilters, SearchHit, SearchMatch, SearchSort } from '../types';
+import { parseSearchQuery, matchesQueryNode, getStatValue } from './searchQuery';
+import { readCachedData, writeCachedData } from './dataCache';
+import { buildSearchNames, normalizeForSearch, scoreMatch, type SearchName } from './searchRanking';
+import { buildPhoneticKeys, matchPhonetic, preparePhoneticQuery, type PhoneticKeys } from './searchPhonetics';
+import { compareItemsBy, DEFAULT_SORT } from './searchSort';
+
+// Cache key for the exported FlexSearch index; bump when index options change
+const INDEX_CACHE_KEY = 'flexsearch-index-v1';
+
+// FlexSearch index for items - using any to handle the dynamic nature of FlexSearch
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let itemIndex: any = null;
+let itemsMap: Map<number, Item> = new Map();
+let multilingualNames: MultilingualNames = {};
+// Pre-normalized names per item, so each keystroke doesn't re-normalize 40k+ names
+let searchNames: Map<number, SearchName[]> = new Map();
+// Pinyin/zhuyin/romaji/word keys per item; filled in the background after load
+let phoneticKeys: Map<number, PhoneticKeys> = new Map();
+let indexReady = false;
+// Bumped on every load so an outdated background build can stop early
+let indexGeneration = 0;
+
+/**
+ * Load items and names into the engine.
+ * Populates itemsMap immediately, defers FlexSearch indexing to background
+ * so searches can use the substring fallback while the index builds.
+ * With a data version, a previously exported index is restored from IndexedDB instead.
+ */
+export function loadSearchData(items: Record<number, Item>, names: MultilingualNames, version: string | null): void {
+  multilingualNames = names;
+  itemsMap = new Map(
+    Object.entries(items).map(([id, item]) => [parseInt(id), item as Item])
+  );
+  searchNames = new Map();
+  for (const [id, item] of itemsMap) {
+    searchNames.set(id, buildSearchNames(item.name, multilingualNames[id]));
+  }
+  phoneticKeys = new Map();
+  itemIndex = null;
+  indexReady = false;
+
+  console.log(`Items map ready with ${itemsMap.size} items, loading FlexSearch index in background...`);
+
+  loadIndexAsync(version).then(() => buildPhoneticKeysAsync(indexGeneration));
+}
+
+/**
+ * Swap in full item data; names are unchanged, so the index and phonetic keys stay valid
+ */
+export function updateSearchItems(items: Record<number, Item>): void {
+  for (const [id, item] of Object.entries(items)) {
+    itemsMap.set(parseInt(id), item);
+  }
+}
+
+function createIndex() {
+  return new FlexSearch.Index({
+    tokenize: 'full',
+    resolution: 9,
+    cache: true,
+  });
+}
+
+async function loadIndexAsync(version: string | null): Promise<void> {
+  const generation = ++indexGeneration;
+
+  if (version) {
+    const chunks = await readCachedData<[string, string][]>(INDEX_CACHE_KEY, version);
+    if (generation !== indexGeneration) return;
+    if (chunks) {
+      try {
+        const index = createIndex();
+        for (const [key, data] of chunks) {
+          index.import(key, data);
+        }
+        itemIndex = index;
+        indexReady = true;
+        console.log(`FlexSearch index restored from cache (${version})`);
+        return;
+      } catch (e) {
+        console.warn('Failed to restore cached search index, rebuilding:', e);
+      }
+    }
+  }
+
+  const index = await buildIndexAsync(generation);
+  if (!index) return;
+
+  itemIndex = index;
+  indexReady = true;
+  console.log(`FlexSearch index ready with ${itemsMap.size} items`);
+
+  if (version) {
+    const chunks: [string, string][] = [];
+    index.export((key: string, data: string) => {
+      chunks.push([key, data]);
+    });
+    writeCachedData(INDEX_CACHE_KEY, version, chunks);
+  }
+}
+
+/**
+ * Build the FlexSearch index in batches; returns null if a newer load superseded it
+ */
+async function buildIndexAsync(generation: number): Promise<ReturnType<typeof createIndex> | null> {
+  const index = createIndex();
+
+  const entries = Array.from(itemsMap.entries());
+  const BATCH_SIZE = 2000;
+
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    const batch = entries.slice(i, i + BATCH_SIZE);
+    for (const [id, item] of batch) {
+      const searchParts = [item.name];
+      const multiNames = multilingualNames[id];
+      if (multiNames) {
+        if (multiNames.en) searchParts.push(multiNames.en);
+        if (multiNames.ja) searchParts.push(multiNames.ja);
+        if (multiNames.cn) searchParts.push(multiNames.cn);
+      }
+      index.add(id, searchParts.join(' '));
+    }
+    // Yield between batches so queued search requests can be answered
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (generation !== indexGeneration) return null;
+  }
+
+  return index;
+}
+
+/**
+ * Build phonetic keys in batches; items without keys yet simply skip phonetic matching
+ */
+async function buildPhoneticKeysAsync(generation: number): Promise<void> {
+  if (generation !== indexGeneration) return;
+
+  const entries = Array.from(searchNames.entries());
+  const BATCH_SIZE = 2000;
+
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    for (const [id, names] of entries.slice(i, i + BATCH_SIZE)) {
+      phoneticKeys.set(id, buildPhoneticKeys(names));
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (generation !== indexGeneration) return;
+  }
+
+  console.log(`Phonetic keys ready for ${phoneticKeys.size} items`);
+}
+
+/**
+ * Create a matcher for free-text query clauses against all names (TC, EN, JA, CN),
+ * normalizing each distinct term once per search
+ */
+function createTextMatcher(): (item: Item, text: string) => boolean {
+  const normalizedTerms = new Map<string, string>();
+  return (item, text) => {
+    let needle = normalizedTerms.get(text);
+    if (needle === undefined) {
+      needle = normalizeForSearch(text);
+      normalizedTerms.set(text, needle);
+    }
+    return (searchNames.get(item.id) ?? []).some(entry => entry.normalized.includes(needle));
+  };
+}
+
+/**
+ * Search for items matching the query and filters
+ */
+export function runSearch(
+  filters: SearchFilters,
+  limit = 100,
+  sort: SearchSort = DEFAULT_SORT
+): { hits: SearchHit[]; total: number } {
+  if (itemsMap.size === 0) {
+    console.warn('Search index not initialized');
+    return { hits: [], total: 0 };
+  }
+
+  let results: Item[];
+
+  // Split advanced query syntax into lookup text and per-item clauses
+  const parsedQuery = parseSearchQuery(filters.query);
+  const queryText = parsedQuery.text.trim();
+  const matchText = createTextMatcher();
+
+  // Normalize query for better Unicode matching (handles different input methods)
+  const query = normalizeForSearch(queryText);
+  const phoneticQuery = preparePhoneticQuery(query);
+  const phoneticMatches = new Map<number, SearchMatch>();
+
+  if (queryText) {
+    // Use FlexSearch if index is ready, otherwise skip to substring search
+    const flexSearchIds = new Set<number>();
+    if (indexReady && itemIndex) {
+      const searchResults = itemIndex.search(queryText, { limit: 5000 }) as number[];
+      for (const id of searchResults) flexSearchIds.add(id);
+      results = searchResults
+        .map((id: number) => itemsMap.get(id))
+        .filter((item): item is Item => item !== undefined);
+    } else {
+      results = [];
+    }
+
+    // Also do substring search across all names (TC, EN, JA, CN) for better CJK support
+    // This catches cases where FlexSearch tokenization doesn't match partial strings
+    for (const [id, item] of itemsMap) {
+      if (flexSearchIds.has(id)) continue; // Already in results
+
+      const names = searchNames.get(id);
+      if (!names) continue;
+      if (names.some(entry => entry.normalized.includes(query))) {
+        results.push(item);
+        continue;
+      }
+
+      // Then pinyin/zhuyin initials, romaji and English typos
+      const keys = phoneticKeys.get(id);
+      const phonetic = keys && phoneticQuery ? matchPhonetic(keys, phoneticQuery, names) : null;
+      if (phonetic) {
+        phoneticMatches.set(id, phonetic);
+        results.push(item);
+      }
+    }
+  } else {
+    // No query, return all items
+    results = Array.from(itemsMap.values());
+  }
+
+  // Apply filters
+  results = results.filter(item => {
+    // Category filter
+    if (filters.categoryId !== null && item.categoryId !== filters.categoryId) {
+      return false;
+    }
+
+    // Item Level filter
+    if (item.itemLevel < filters.minLevel || item.itemLevel > filters.maxLevel) {
+      return false;
+    }
+
+    // Equip Level filter
+    if (filters.minEquipLevel !== 1 || filters.maxEquipLevel !== 100) {
+      if (item.equipLevel < filters.minEquipLevel || item.equipLevel > filters.maxEquipLevel) {
+        return false;
+      }
+    }
+
+    // Craftable filter
+    if (filters.craftableOnly && !item.isCraftable) {
+      return false;
+    }
+
+    // Gatherable filter
+    if (filters.gatherableOnly && !item.isGatherable) {
+      return false;
+    }
+
+    // HQ filter
+    if (filters.canBeHq !== null) {
+      if (filters.canBeHq && !item.canBeHq) return false;
+      if (!filters.canBeHq && item.canBeHq) return false;
+    }
+
+    // Tradeable filter
+    if (filters.tradeable !== null) {
+      // isUntradable is true when item cannot be traded
+      const isTradeable = !item.isUntradable;
+      if (filters.tradeable && !isTradeable) return false;
+      if (!filters.tradeable && isTradeable) return false;
+    }
+
+    // Rarity filter
+    if (filters.rarity !== null && item.rarity !== filters.rarity) {
+      return false;
+    }
+
+    // Patch filter
+    if (filters.patch !== null && item.patch !== filters.patch) {
+      return false;
+    }
+
+    // Job filter - check if item can be worn by any of the selected jobs
+    if (filters.selectedJobs.length > 0) {
+      // Items must have equipStats with classJobCategoryName to be filtered by job
+      if (!item.equipStats?.classJobCategoryName) {
+        return false;
+      }
+      // Check if any selected job is in the classJobCategoryName
+      const itemJobs = item.equipStats.classJobCategoryName.split(/\s+/);
+      const hasMatchingJob = filters.selectedJobs.some(job => itemJobs.includes(job));
+      if (!hasMatchingJob) {
+        return false;
+      }
+    }
+
+    // Equipment filters (materia, dye, melding, unique, stat minimums)
+    if (filters.minMateriaSlots > 0 && (item.equipStats?.materiaSlots ?? 0) < filters.minMateriaSlots) {
+      return false;
+    }
+    if (filters.minDyeCount > 0 && (item.equipStats?.dyeCount ?? 0) < filters.minDyeCount) {
+      return false;
+    }
+    if (filters.advancedMelding && !item.equipStats?.isAdvancedMeldingPermitted) {
+      return false;
+    }
+    if (filters.unique !== null && !!item.equipStats?.isUnique !== filters.unique) {
+      return false;
+    }
+    if (filters.statFilters.some(({ stat, min }) => getStatValue(item, stat) < min)) {
+      return false;
+    }
+
+    // Advanced query clauses (field terms, negation, OR groups)
+    if (parsedQuery.filter && !matchesQueryNode(item, parsedQuery.filter, matchText)) {
+      return false;
+    }
+
+    return true;
+  });
+
+  // Score by relevance across all languages, then sort by score and item level
+  const hits = results.map(item => {
+    if (!queryText) return { item, score: 0, match: undefined };
+    const { score, match } = scoreMatch(searchNames.get(item.id) ?? [], query, phoneticMatches.get(item.id));
+    return { item, score, match };
+  });
+
+  hits.sort((a, b) => {
+    // A chosen sort key comes first; relevance breaks ties
+    const byKey = compareItemsBy(sort.key, a.item, b.item);
+    if (byKey !== 0) return sort.desc ? -byKey : byKey;
+    if (a.score !== b.score) return b.score - a.score;
+    // Then sort by item level (descending)
+    return b.item.itemLevel - a.item.itemLevel;
+  });
+
+  const total = hits.length;
+
+  // Limit results
+  return {
+    hits: hits.slice(0, limit).map(({ item, score, match }) => ({
+      id: item.id,
+      score,
+      match,
+    })),
+    total,
+  };
+}
@@ -0,0 +1,231 @@
+// Tolerant matching for search input that doesn't literally appear in a name:
+// Simplified/Traditional folding, pinyin and zhuyin initials for Chinese names,
+// romaji for Japanese names, and typo tolerance for English names.
+import { Converter } from 'opencc-js/t2cn';
+import { pinyin } from 'pinyin-pro';
+import { isKana, toRomaji } from 'wanakana';
+import type { SearchMatch } from '../types';
+
+// Taiwan Traditional -> Simplified; applied to both names and queries so either script matches
+const toSimplified = Converter({ from: 'tw', to: 'cn' });
+
+// Pinyin initial -> zhuyin symbol (two-letter initials first)
+const ZHUYIN_INITIALS: [string, string][] = [
+  ['zh', 'ㄓ'], ['ch', 'ㄔ'], ['sh', 'ㄕ'],
+  ['b', 'ㄅ'], ['p', 'ㄆ'], ['m', 'ㄇ'], ['f', 'ㄈ'],
+  ['d', 'ㄉ'], ['t', 'ㄊ'], ['n', 'ㄋ'], ['l', 'ㄌ'],
+  ['g', 'ㄍ'], ['k', 'ㄎ'], ['h', 'ㄏ'],
+  ['j', 'ㄐ'], ['q', 'ㄑ'], ['x', 'ㄒ'],
+  ['r', 'ㄖ'], ['z', 'ㄗ'], ['c', 'ㄘ'], ['s', 'ㄙ'],
+];
+
+// Zhuyin symbol of syllables without an initial (y/w spellings and bare finals)
+const ZHUYIN_FINALS: [string, string][] = [
+  ['yu', 'ㄩ'], ['yv', 'ㄩ'], ['y', 'ㄧ'], ['w', 'ㄨ'],
+  ['ang', 'ㄤ'], ['an', 'ㄢ'], ['ai', 'ㄞ'], ['ao', 'ㄠ'], ['a', 'ㄚ'],
+  ['eng', 'ㄥ'], ['en', 'ㄣ'], ['ei', 'ㄟ'], ['er', 'ㄦ'], ['e', 'ㄜ'],
+  ['ou', 'ㄡ'], ['o', 'ㄛ'],
+];
+
+const CJK_CHAR = /[㐀-鿿豈-﫿]/;
+const ZHUYIN_QUERY = /^[ㄅ-ㄯˊˇˋ˙\s]+$/;
+const ZHUYIN_TONES = /[ˊˇˋ˙\s]/g;
+const LATIN_QUERY = /^[a-z\s]+$/;
+
+// Shortest queries worth matching phonetically; shorter ones match far too much
+const MIN_INITIALS_LENGTH = 2;
+const MIN_ROMAJI_LENGTH = 3;
+const MIN_TYPO_LENGTH = 4;
+
+// Phonetic forms of an item's names, built once per item
+export interface PhoneticKeys {
+  initials: string[];   // Pinyin initials per Chinese name, e.g. "jjd" for 精金錠
+  zhuyin: string[];     // Zhuyin initials per Chinese name, e.g. "ㄐㄐㄉ"
+  romaji: string;       // Folded romaji of the Japanese name
+  words: string[];      // Lowercase words of the English name
+}
+
+// A query prepared once per search for all phonetic checks
+export interface PhoneticQuery {
+  initials: string | null;
+  zhuyin: string | null;
+  romaji: string | null;
+  words: string[] | null;
+}
+
+/**
+ * Fold Traditional Chinese characters to Simplified (no-op for other text)
+ */
+export function foldChinese(text: string): string {
+  return CJK_CHAR.test(text) ? toSimplified(text) : text;
+}
+
+function syllableToZhuyin(syllable: string): string {
+  for (const [prefix, symbol] of ZHUYIN_INITIALS) {
+    if (syllable.startsWith(prefix)) return symbol;
+  }
+  for (const [prefix, symbol] of ZHUYIN_FINALS) {
+    if (syllable.startsWith(prefix)) return symbol;
+  }
+  return '';
+}
+
+/**
+ * Pinyin and zhuyin initials of a (folded) Chinese name; non-Chinese letters and digits are kept
+ */
+function chineseInitials(name: string): { initials: string; zhuyin: string } {
+  let initials = '';
+  let zhuyin = '';
+  const chars = Array.from(name);
+  const syllables = pinyin(name, { toneType: 'none', type: 'array', v: true });
+
+  syllables.forEach((syllable, i) => {
+    if (CJK_CHAR.test(chars[i] ?? '')) {
+      initials += syllable[0];
+      zhuyin += syllableToZhuyin(syllable);
+    } else if (/^[a-z0-9]$/.test(syllable)) {
+      initials += syllable;
+      zhuyin += syllable;
+    }
+  });
+
+  return { initials, zhuyin };
+}
+
+/**
+ * Fold romaji so long vowels and spelling variants compare equal ("pooshon" = "poshon")
+ */
+function foldRomaji(text: string): string {
+  return text
+    .replace(/[^a-z]/g, '')
+    .replace(/ou/g, 'o')
+    .replace(/([aeiou])\1+/g, '$1');
+}
+
+function kanaToRomaji(text: string): string {
+  // Drop the long-vowel mark and separators before converting
+  return foldRomaji(toRomaji(text.replace(/[ー・\s]/g, '')).toLowerCase());
+}
+
+/**
+ * Build the phonetic keys of an item from its names (TC/CN names already folded)
+ */
+export function buildPhoneticKeys(names: { lang: string; name: string; normalized: string }[]): PhoneticKeys {
+  const keys: PhoneticKeys = { initials: [], zhuyin: [], romaji: '', words: [] };
+
+  for (const entry of names) {
+    if (entry.lang === 'tc' || entry.lang === 'cn') {
+      const { initials, zhuyin } = chineseInitials(entry.normalized);
+      if (!keys.initials.includes(initials)) {
+        keys.initials.push(initials);
+        keys.zhuyin.push(zhuyin);
+      }
+    } else if (entry.lang === 'ja') {
+      keys.romaji = kanaToRomaji(entry.name);
+    } else if (entry.lang === 'en') {
+      keys.words = entry.normalized.split(/[^a-z0-9]+/).filter(Boolean);
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Prepare a normalized query for phonetic matching; null when no phonetic form applies
+ */
+export function preparePhoneticQuery(query: string): PhoneticQuery | null {
+  const q = query.trim();
+  if (!q) return null;
+
+  if (ZHUYIN_QUERY.test(q)) {
+    return { initials: null, zhuyin: q.replace(ZHUYIN_TONES, ''), romaji: null, words: null };
+  }
+
+  if (isKana(q.replace(/[ー・\s]/g, ''))) {
+    const romaji = kanaToRomaji(q);
+    return romaji ? { initials: null, zhuyin: null, romaji, words: null } : null;
+  }
+
+  if (LATIN_QUERY.test(q)) {
+    const compact = q.replace(/\s+/g, '');
+    const romaji = foldRomaji(compact);
+    return {
+      initials: compact.length >= MIN_INITIALS_LENGTH ? compact : null,
+      zhuyin: null,
+      romaji: romaji.length >= MIN_ROMAJI_LENGTH ? romaji : null,
+      words: q.split(/\s+/).filter(Boolean),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Levenshtein distance, giving up (returning max + 1) once it exceeds max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function typoTolerance(word: string): number {
+  return word.length >= 8 ? 2 : 1;
+}
+
+/**
+ * Every query word must match a name word: short words by prefix, longer ones
+ * within a small edit distance of the whole word or of a same-length prefix (still typing)
+ */
+function matchesWithTypos(queryWords: string[], words: string[]): boolean {
+  if (!queryWords.some(word => word.length >= MIN_TYPO_LENGTH)) return false;
+
+  return queryWords.every(queryWord => {
+    if (queryWord.length < MIN_TYPO_LENGTH) {
+      return words.some(word => word.startsWith(queryWord));
+    }
+    const max = typoTolerance(queryWord);
+    return words.some(word =>
+      editDistance(queryWord, word, max) <= max ||
+      (word.length > queryWord.length && editDistance(queryWord, word.slice(0, queryWord.length), max) <= max)
+    );
+  });
+}
+
+/**
+ * Match a prepared query against an item's phonetic keys.
+ * Returns the language whose name matched, or null.
+ */
+export function matchPhonetic(
+  keys: PhoneticKeys,
+  query: PhoneticQuery,
+  names: { lang: string; name: string }[]
+): SearchMatch | null {
+  const nameOf = (lang: string) => names.find(entry => entry.lang === lang)?.name ?? names[0].name;
+
+  if (query.zhuyin && keys.zhuyin.some(zhuyin => zhuyin.includes(query.zhuyin!))) {
+    return { kind: 'phonetic', lang: 'tc', name: nameOf('tc') };
+  }
+  if (query.initials && keys.initials.some(initials => initials.includes(query.initials!))) {
+    return { kind: 'phonetic', lang: 'tc', name: nameOf('tc') };
+  }
+  if (query.romaji && keys.romaji.includes(query.romaji)) {
+    return { kind: 'phonetic', lang: 'ja', name: nameOf('ja') };
+  }
+  if (query.words && keys.words.length > 0 && matchesWithTypos(query.words, keys.words)) {
+    return { kind: 'fuzzy', lang: 'en', name: nameOf('en') };
+  }
+  return null;
+}
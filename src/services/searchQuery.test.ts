@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchFilters } from '../types';
+import { formatSearchQuery, liftQueryFilters } from './searchQuery';
+
+// Mirrors DEFAULT_FILTERS in useSearch
+const DEFAULTS: SearchFilters = {
+  query: '',
+  categoryId: null,
+  minLevel: 1,
+  maxLevel: 999,
+  minEquipLevel: 1,
+  maxEquipLevel: 100,
+  classJobId: null,
+  selectedJobs: [],
+  craftableOnly: false,
+  gatherableOnly: false,
+  canBeHq: null,
+  tradeable: null,
+  rarity: null,
+  patch: null,
+  statFilters: [],
+  minMateriaSlots: 0,
+  minDyeCount: 0,
+  advancedMelding: false,
+  unique: null,
+};
+
+function roundTrip(filters: SearchFilters): SearchFilters {
+  const { filters: lifted, rest } = liftQueryFilters(formatSearchQuery(filters));
+  return { ...DEFAULTS, ...lifted, query: rest };
+}
+
+describe('formatSearchQuery', () => {
+  const cases: [string, Partial<SearchFilters>][] = [
+    ['query text', { query: '精金' }],
+    ['item level range', { minLevel: 600, maxLevel: 690 }],
+    ['item level minimum', { minLevel: 600 }],
+    ['equip level maximum', { maxEquipLevel: 90 }],
+    ['jobs', { selectedJobs: ['WHM', 'SCH'] }],
+    ['category', { categoryId: 12 }],
+    ['rarity', { rarity: 3 }],
+    ['patch', { patch: '7.1' }],
+    ['craftable', { craftableOnly: true }],
+    ['gatherable', { gatherableOnly: true }],
+    ['HQ only', { canBeHq: true }],
+    ['NQ only', { canBeHq: false }],
+    ['tradeable', { tradeable: true }],
+    ['untradeable', { tradeable: false }],
+    ['stats', { statFilters: [{ stat: '暴擊', min: 200 }, { stat: '直擊 值', min: 100 }] }],
+    ['materia slots', { minMateriaSlots: 2 }],
+    ['dye channels', { minDyeCount: 1 }],
+    ['advanced melding', { advancedMelding: true }],
+    ['unique', { unique: true }],
+    ['not unique', { unique: false }],
+  ];
+
+  it.each(cases)('round-trips %s through the parser', (_name, overrides) => {
+    const filters = { ...DEFAULTS, ...overrides };
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+
+  it('round-trips every filter at once', () => {
+    const filters = cases.reduce<SearchFilters>((all, [, overrides]) => ({ ...all, ...overrides }), DEFAULTS);
+    expect(roundTrip(filters)).toEqual(filters);
+  });
+
+  it('writes the unique filter in a form bare words cannot be mistaken for', () => {
+    expect(formatSearchQuery({ ...DEFAULTS, unique: true })).toBe('is:unique');
+    expect(liftQueryFilters('unique')).toEqual({ filters: {}, rest: 'unique' });
+  });
+});
@@ -0,0 +1,714 @@
+// Search query language parser
+// Syntax: `ilvl:>=690 job:WHM hq craftable patch:7.1 "精金" -材料 (木材 OR 石材)`
+// Equipment: `stat:暴擊>=200 slots:>=2 dye:>=1 overmeld is:unique`
+import type { Item, ItemStat, SearchFilters, StatFilter } from '../types';
+
+export type QueryFieldKey = 'ilvl' | 'lv' | 'job' | 'cat' | 'rarity' | 'patch' | 'id' | 'slots' | 'dye' | 'stat';
+export type QueryFlag = 'hq' | 'craftable' | 'gatherable' | 'tradeable' | 'unique' | 'overmeld';
+export type CompareOp = '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'field'; key: QueryFieldKey; op: CompareOp; value: string; to?: string; stat?: string }
+  | { type: 'flag'; flag: QueryFlag };
+
+// Top-level (AND-ed) clause with its original source text
+export interface QueryClause {
+  node: QueryNode;
+  raw: string;
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  // Positive top-level text terms, used for index lookup
+  text: string;
+  // Remaining clauses that must be evaluated per item (null = none)
+  filter: QueryNode | null;
+}
+
+// Name matcher used when evaluating text terms inside OR / NOT groups
+// (normalizing the term and names is up to the caller)
+export type TextMatcher = (item: Item, text: string) => boolean;
+
+const FIELD_ALIASES: Record<string, QueryFieldKey> = {
+  ilvl: 'ilvl',
+  il: 'ilvl',
+  lv: 'lv',
+  lvl: 'lv',
+  level: 'lv',
+  job: 'job',
+  jobs: 'job',
+  cat: 'cat',
+  category: 'cat',
+  rarity: 'rarity',
+  patch: 'patch',
+  id: 'id',
+  slots: 'slots',
+  materia: 'slots',
+  dye: 'dye',
+  stat: 'stat',
+};
+
+// Accepted after `is:` / `has:`
+const FLAG_ALIASES: Record<string, QueryFlag> = {
+  hq: 'hq',
+  craftable: 'craftable',
+  craft: 'craftable',
+  gatherable: 'gatherable',
+  gather: 'gatherable',
+  tradeable: 'tradeable',
+  tradable: 'tradeable',
+  trade: 'tradeable',
+  unique: 'unique',
+  overmeld: 'overmeld',
+};
+
+// Accepted on their own; everyday words like `craft` or `unique` stay search text
+const BARE_FLAGS: Record<string, QueryFlag> = {
+  hq: 'hq',
+  craftable: 'craftable',
+  gatherable: 'gatherable',
+  tradeable: 'tradeable',
+  tradable: 'tradeable',
+  overmeld: 'overmeld',
+};
+
+const RARITY_NAMES: Record<string, string> = {
+  white: '1',
+  green: '2',
+  blue: '3',
+  purple: '4',
+  pink: '7',
+};
+
+// Default level bounds (must match useSearch DEFAULT_FILTERS)
+const ITEM_LEVEL_MIN = 1;
+const ITEM_LEVEL_MAX = 999;
+const EQUIP_LEVEL_MIN = 1;
+const EQUIP_LEVEL_MAX = 100;
+
+interface Token {
+  type: 'word' | 'quoted' | 'lparen' | 'rparen' | 'or' | 'not';
+  value: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (ch === '|') {
+      tokens.push({ type: 'or', value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    // Negation prefix only when directly attached to a term
+    if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: 'not', value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      const close = input.indexOf('"', i + 1);
+      const end = close === -1 ? input.length : close + 1;
+      const value = input.slice(i + 1, close === -1 ? input.length : close);
+      tokens.push({ type: 'quoted', value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    // Bare word, allowing a quoted value after `key:`
+    const start = i;
+    while (i < input.length && !/[\s()|]/.test(input[i])) {
+      if (input[i] === '"') {
+        const close = input.indexOf('"', i + 1);
+        i = close === -1 ? input.length : close + 1;
+      } else {
+        i++;
+      }
+    }
+    const value = input.slice(start, i);
+    tokens.push({ type: value === 'OR' ? 'or' : 'word', value, start, end: i });
+  }
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  if (value.startsWith('"')) {
+    return value.endsWith('"') && value.length > 1 ? value.slice(1, -1) : value.slice(1);
+  }
+  return value;
+}
+
+/**
+ * Parse a stat term, e.g. `stat:暴擊>=200`, `stat:"Critical Hit">200`; a bare name means "has the stat"
+ */
+function parseStatField(rawValue: string): QueryNode | null {
+  const match = rawValue.match(/^"?([^"]+?)"?(>=|<=|>|<|=)(\d+)$/);
+  if (match) {
+    return { type: 'field', key: 'stat', op: match[2] as CompareOp, value: match[3], stat: match[1].trim() };
+  }
+  const stat = unquote(rawValue).trim();
+  return stat ? { type: 'field', key: 'stat', op: '>', value: '0', stat } : null;
+}
+
+/**
+ * Parse a `key:value` field term, e.g. `ilvl:>=690`, `lv:80..90`, `job:WHM,SCH`
+ */
+function parseField(key: QueryFieldKey, rawValue: string): QueryNode | null {
+  if (key === 'stat') return parseStatField(rawValue);
+
+  let value = unquote(rawValue).trim();
+  let op: CompareOp = '=';
+
+  const opMatch = value.match(/^(>=|<=|>|<|=)/);
+  if (opMatch) {
+    op = opMatch[1] as CompareOp;
+    value = value.slice(opMatch[1].length).trim();
+  }
+  if (!value) return null;
+
+  if (key === 'rarity') {
+    value = RARITY_NAMES[value.toLowerCase()] ?? value;
+  }
+  if (key === 'job') {
+    value = value.toUpperCase();
+  }
+
+  // Range form: `a..b`
+  if (op === '=' && value.includes('..')) {
+    const [from, to] = value.split('..');
+    if (from && to) return { type: 'field', key, op: '>=', value: from, to };
+    if (from) return { type: 'field', key, op: '>=', value: from };
+    if (to) return { type: 'field', key, op: '<=', value: to };
+    return null;
+  }
+
+  return { type: 'field', key, op, value };
+}
+
+function parseWord(token: Token): QueryNode | null {
+  if (token.type === 'quoted') {
+    return token.value ? { type: 'text', value: token.value } : null;
+  }
+
+  const word = token.value;
+  const colon = word.indexOf(':');
+  if (colon > 0) {
+    const key = word.slice(0, colon).toLowerCase();
+    const rest = word.slice(colon + 1);
+    if (key === 'is' || key === 'has') {
+      const flag = FLAG_ALIASES[rest.toLowerCase()];
+      if (flag) return { type: 'flag', flag };
+    }
+    const field = FIELD_ALIASES[key];
+    if (field) return parseField(field, rest);
+    if (key === 'name') {
+      const value = unquote(rest);
+      return value ? { type: 'text', value } : null;
+    }
+  }
+
+  const flag = BARE_FLAGS[word.toLowerCase()];
+  if (flag) return { type: 'flag', flag };
+
+  return { type: 'text', value: word };
+}
+
+class Parser {
+  private pos = 0;
+  private readonly tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  /**
+   * Parse a sequence of AND-ed clauses until end of input or a closing paren
+   */
+  parseSequence(nested: boolean): { node: QueryNode; start: number; end: number }[] {
+    const clauses: { node: QueryNode; start: number; end: number }[] = [];
+
+    while (this.pos < this.tokens.length) {
+      const token = this.peek()!;
+      if (token.type === 'rparen') {
+        if (nested) break;
+        this.pos++; // Stray closing paren at top level
+        continue;
+      }
+      if (token.type === 'or') {
+        this.pos++; // Dangling OR
+        continue;
+      }
+
+      const start = token.start;
+      const node = this.parseOr();
+      const end = this.tokens[this.pos - 1]?.end ?? start;
+      if (node) clauses.push({ node, start, end });
+    }
+
+    return clauses;
+  }
+
+  private parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = this.parseUnary();
+    if (first) children.push(first);
+
+    while (this.peek()?.type === 'or') {
+      this.pos++;
+      const next = this.parseUnary();
+      if (next) children.push(next);
+    }
+
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.peek();
+    if (!token) return null;
+
+    if (token.type === 'not') {
+      this.pos++;
+      const child = this.parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+
+    if (token.type === 'lparen') {
+      this.pos++;
+      const children = this.parseSequence(true).map(c => c.node);
+      if (this.peek()?.type === 'rparen') this.pos++;
+      if (children.length === 0) return null;
+      return children.length === 1 ? children[0] : { type: 'and', children };
+    }
+
+    if (token.type === 'word' || token.type === 'quoted') {
+      this.pos++;
+      return parseWord(token);
+    }
+
+    // Unexpected token (e.g. `)` or OR): let the caller handle it
+    return null;
+  }
+}
+
+/**
+ * Parse a search query into top-level clauses, lookup text and a per-item filter
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const tokens = tokenize(query);
+  const parsed = new Parser(tokens).parseSequence(false);
+
+  const clauses: QueryClause[] = parsed.map(c => ({
+    node: c.node,
+    raw: query.slice(c.start, c.end),
+  }));
+
+  const textParts: string[] = [];
+  const filterNodes: QueryNode[] = [];
+  for (const clause of clauses) {
+    if (clause.node.type === 'text') {
+      textParts.push(clause.node.value);
+    } else {
+      filterNodes.push(clause.node);
+    }
+  }
+
+  let filter: QueryNode | null = null;
+  if (filterNodes.length === 1) filter = filterNodes[0];
+  else if (filterNodes.length > 1) filter = { type: 'and', children: filterNodes };
+
+  return { clauses, text: textParts.join(' '), filter };
+}
+
+/**
+ * Get the free-text part of a query (used for highlighting matched names)
+ */
+export function getQueryText(query: string): string {
+  return parseSearchQuery(query).text;
+}
+
+/**
+ * Replace the free-text part of a query, keeping its structured terms
+ * (e.g. picking a category suggestion turns `精金 hq` into `hq cat:12`)
+ */
+export function replaceQueryText(query: string, replacement: string): string {
+  const kept = parseSearchQuery(query).clauses
+    .filter(clause => clause.node.type !== 'text')
+    .map(clause => clause.raw);
+  if (replacement) kept.push(replacement);
+  return kept.join(' ');
+}
+
+/**
+ * Compare patch versions numerically ("6.5" < "7.0" < "7.05")
+ */
+export function compareVersion(a: string, b: string): number {
+  const [aMajor = 0, aMinor = 0] = a.split('.').map(Number);
+  const [bMajor = 0, bMinor = 0] = b.split('.').map(Number);
+  if (aMajor !== bMajor) return aMajor - bMajor;
+  return aMinor - bMinor;
+}
+
+function compare(diff: number, op: CompareOp): boolean {
+  switch (op) {
+    case '=': return diff === 0;
+    case '>': return diff > 0;
+    case '>=': return diff >= 0;
+    case '<': return diff < 0;
+    case '<=': return diff <= 0;
+  }
+}
+
+function matchNumber(actual: number, op: CompareOp, value: string, to?: string): boolean {
+  const expected = Number(value);
+  if (Number.isNaN(expected)) return false;
+  if (!compare(actual - expected, op)) return false;
+  if (to !== undefined) {
+    const upper = Number(to);
+    if (Number.isNaN(upper) || actual > upper) return false;
+  }
+  return true;
+}
+
+// English stat names and common abbreviations -> BaseParam id (item data only has TC names)
+const STAT_ALIASES: Record<string, number> = {
+  strength: 1, str: 1,
+  dexterity: 2, dex: 2,
+  vitality: 3, vit: 3,
+  intelligence: 4, int: 4,
+  mind: 5, mnd: 5,
+  piety: 6, pie: 6,
+  gp: 10,
+  cp: 11,
+  tenacity: 19, ten: 19,
+  'direct hit': 22, 'direct hit rate': 22, dh: 22,
+  'critical hit': 27, crit: 27,
+  determination: 44, det: 44,
+  'skill speed': 45, sks: 45,
+  'spell speed': 46, sps: 46,
+  craftsmanship: 70,
+  control: 71,
+  gathering: 72,
+  perception: 73,
+};
+
+/**
+ * Value of a named stat on an item, including the HQ bonus when the item can be HQ (0 if absent)
+ */
+export function getStatValue(item: Item, statName: string): number {
+  const name = statName.toLowerCase();
+  const aliasId = STAT_ALIASES[name];
+  const isStat = (stat: ItemStat) => stat.id === aliasId || stat.name.toLowerCase() === name;
+  const base = item.equipStats?.stats.find(isStat);
+  const bonus = item.canBeHq ? item.equipStats?.hqStats?.find(isStat) : undefined;
+  return (base?.value ?? 0) + (bonus?.value ?? 0);
+}
+
+function matchField(item: Item, node: Extract<QueryNode, { type: 'field' }>): boolean {
+  switch (node.key) {
+    case 'slots':
+      return matchNumber(item.equipStats?.materiaSlots ?? 0, node.op, node.value, node.to);
+    case 'dye':
+      return matchNumber(item.equipStats?.dyeCount ?? 0, node.op, node.value, node.to);
+    case 'stat':
+      return matchNumber(getStatValue(item, node.stat ?? ''), node.op, node.value, node.to);
+    case 'ilvl':
+      return matchNumber(item.itemLevel, node.op, node.value, node.to);
+    case 'lv':
+      return matchNumber(item.equipLevel, node.op, node.value, node.to);
+    case 'rarity':
+      return matchNumber(item.rarity, node.op, node.value, node.to);
+    case 'id':
+      return matchNumber(item.id, node.op, node.value, node.to);
+    case 'patch': {
+      if (!item.patch) return false;
+      if (!compare(compareVersion(item.patch, node.value), node.op)) return false;
+      return node.to === undefined || compareVersion(item.patch, node.to) <= 0;
+    }
+    case 'job': {
+      if (!item.equipStats?.classJobCategoryName) return false;
+      const itemJobs = item.equipStats.classJobCategoryName.split(/\s+/);
+      return node.value.split(',').some(job => itemJobs.includes(job));
+    }
+    case 'cat': {
+      if (/^\d+$/.test(node.value)) return item.categoryId === parseInt(node.value, 10);
+      return item.categoryName.toLowerCase().includes(node.value.toLowerCase());
+    }
+  }
+}
+
+function matchFlag(item: Item, flag: QueryFlag): boolean {
+  switch (flag) {
+    case 'hq': return item.canBeHq;
+    case 'craftable': return !!item.isCraftable;
+    case 'gatherable': return !!item.isGatherable;
+    case 'tradeable': return !item.isUntradable;
+    case 'unique': return !!item.equipStats?.isUnique;
+    case 'overmeld': return !!item.equipStats?.isAdvancedMeldingPermitted;
+  }
+}
+
+// Field keys and flags that read from full item data (equipStats beyond the job list)
+const EQUIP_FIELD_KEYS = new Set<QueryFieldKey>(['slots', 'dye', 'stat']);
+const EQUIP_FLAGS = new Set<QueryFlag>(['unique', 'overmeld']);
+
+function usesEquipStats(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.some(usesEquipStats);
+    case 'not':
+      return usesEquipStats(node.child);
+    case 'field':
+      return EQUIP_FIELD_KEYS.has(node.key);
+    case 'flag':
+      return EQUIP_FLAGS.has(node.flag);
+    case 'text':
+      return false;
+  }
+}
+
+/**
+ * Whether a query has equipment terms that need full item data to evaluate
+ */
+export function queryUsesEquipStats(query: string): boolean {
+  return parseSearchQuery(query).clauses.some(clause => usesEquipStats(clause.node));
+}
+
+/**
+ * Evaluate a query node against an item
+ */
+export function matchesQueryNode(item: Item, node: QueryNode, matchText: TextMatcher): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesQueryNode(item, child, matchText));
+    case 'or':
+      return node.children.some(child => matchesQueryNode(item, child, matchText));
+    case 'not':
+      return !matchesQueryNode(item, node.child, matchText);
+    case 'field':
+      return matchField(item, node);
+    case 'flag':
+      return matchFlag(item, node.flag);
+    case 'text':
+      return matchText(item, node.value);
+  }
+}
+
+function parseIntStrict(value: string): number | null {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * Apply a numeric field clause to a min/max level pair.
+ * Returns false if the clause can't be expressed as a plain range.
+ */
+function liftRange(
+  node: Extract<QueryNode, { type: 'field' }>,
+  range: { min: number; max: number }
+): boolean {
+  const value = parseIntStrict(node.value);
+  if (value === null) return false;
+
+  if (node.to !== undefined) {
+    const to = parseIntStrict(node.to);
+    if (to === null) return false;
+    range.min = Math.max(range.min, value);
+    range.max = Math.min(range.max, to);
+    return true;
+  }
+
+  switch (node.op) {
+    case '=': range.min = Math.max(range.min, value); range.max = Math.min(range.max, value); break;
+    case '>': range.min = Math.max(range.min, value + 1); break;
+    case '>=': range.min = Math.max(range.min, value); break;
+    case '<': range.max = Math.min(range.max, value - 1); break;
+    case '<=': range.max = Math.min(range.max, value); break;
+  }
+  return true;
+}
+
+/**
+ * Lower bound of a `>=` / `>` clause; null for anything that isn't a plain minimum
+ */
+function liftMinimum(node: Extract<QueryNode, { type: 'field' }>): number | null {
+  const value = parseIntStrict(node.value);
+  if (value === null || node.to !== undefined) return null;
+  if (node.op === '>=') return value;
+  if (node.op === '>') return value + 1;
+  return null;
+}
+
+/**
+ * Split a query into structured filters (for the URL params) and the remaining query.
+ * Only positive top-level clauses that map 1:1 onto a SearchFilters field are lifted.
+ */
+export function liftQueryFilters(query: string): { filters: Partial<SearchFilters>; rest: string } {
+  const { clauses } = parseSearchQuery(query);
+  const filters: Partial<SearchFilters> = {};
+  const itemLevel = { min: ITEM_LEVEL_MIN, max: ITEM_LEVEL_MAX };
+  const equipLevel = { min: EQUIP_LEVEL_MIN, max: EQUIP_LEVEL_MAX };
+  const rest: string[] = [];
+
+  const lift = (node: QueryNode): boolean => {
+    if (node.type === 'flag') {
+      switch (node.flag) {
+        case 'hq': if (filters.canBeHq !== undefined) return false; filters.canBeHq = true; return true;
+        case 'tradeable': if (filters.tradeable !== undefined) return false; filters.tradeable = true; return true;
+        case 'craftable': filters.craftableOnly = true; return true;
+        case 'gatherable': filters.gatherableOnly = true; return true;
+        case 'overmeld': filters.advancedMelding = true; return true;
+        case 'unique': if (filters.unique !== undefined) return false; filters.unique = true; return true;
+      }
+    }
+
+    if (node.type === 'not' && node.child.type === 'flag') {
+      if (node.child.flag === 'unique' && filters.unique === undefined) {
+        filters.unique = false;
+        return true;
+      }
+      if (node.child.flag === 'hq' && filters.canBeHq === undefined) {
+        filters.canBeHq = false;
+        return true;
+      }
+      if (node.child.flag === 'tradeable' && filters.tradeable === undefined) {
+        filters.tradeable = false;
+        return true;
+      }
+      return false;
+    }
+
+    if (node.type !== 'field') return false;
+
+    switch (node.key) {
+      case 'ilvl':
+        return liftRange(node, itemLevel);
+      case 'lv':
+        return liftRange(node, equipLevel);
+      case 'job':
+        if (node.op !== '=' || filters.selectedJobs) return false;
+        filters.selectedJobs = node.value.split(',').filter(Boolean);
+        return true;
+      case 'cat': {
+        const id = parseIntStrict(node.value);
+        if (node.op !== '=' || id === null || filters.categoryId !== undefined) return false;
+        filters.categoryId = id;
+        return true;
+      }
+      case 'rarity': {
+        const rarity = parseIntStrict(node.value);
+        if (node.op !== '=' || rarity === null || filters.rarity !== undefined) return false;
+        filters.rarity = rarity;
+        return true;
+      }
+      case 'patch':
+        if (node.op !== '=' || node.to !== undefined || filters.patch !== undefined) return false;
+        filters.patch = node.value;
+        return true;
+      case 'slots': {
+        const min = liftMinimum(node);
+        if (min === null || filters.minMateriaSlots !== undefined) return false;
+        filters.minMateriaSlots = min;
+        return true;
+      }
+      case 'dye': {
+        const min = liftMinimum(node);
+        if (min === null || filters.minDyeCount !== undefined) return false;
+        filters.minDyeCount = min;
+        return true;
+      }
+      case 'stat': {
+        const min = liftMinimum(node);
+        const stat = node.stat;
+        if (min === null || !stat) return false;
+        const statFilters: StatFilter[] = filters.statFilters ?? [];
+        if (statFilters.some(f => f.stat === stat)) return false;
+        filters.statFilters = [...statFilters, { stat, min }];
+        return true;
+      }
+      default:
+        return false;
+    }
+  };
+
+  for (const clause of clauses) {
+    if (!lift(clause.node)) rest.push(clause.raw);
+  }
+
+  if (itemLevel.min !== ITEM_LEVEL_MIN) filters.minLevel = itemLevel.min;
+  if (itemLevel.max !== ITEM_LEVEL_MAX) filters.maxLevel = itemLevel.max;
+  if (equipLevel.min !== EQUIP_LEVEL_MIN) filters.minEquipLevel = equipLevel.min;
+  if (equipLevel.max !== EQUIP_LEVEL_MAX) filters.maxEquipLevel = equipLevel.max;
+
+  return { filters, rest: rest.join(' ') };
+}
+
+function formatRange(key: string, min: number, max: number, defaultMin: number, defaultMax: number): string | null {
+  const hasMin = min !== defaultMin;
+  const hasMax = max !== defaultMax;
+  if (hasMin && hasMax) return min === max ? `${key}:${min}` : `${key}:${min}..${max}`;
+  if (hasMin) return `${key}:>=${min}`;
+  if (hasMax) return `${key}:<=${max}`;
+  return null;
+}
+
+/**
+ * Build the full query string for a set of filters (inverse of liftQueryFilters)
+ */
+export function formatSearchQuery(filters: SearchFilters): string {
+  const terms: string[] = [];
+
+  if (filters.query.trim()) terms.push(filters.query.trim());
+
+  const itemLevel = formatRange('ilvl', filters.minLevel, filters.maxLevel, ITEM_LEVEL_MIN, ITEM_LEVEL_MAX);
+  if (itemLevel) terms.push(itemLevel);
+  const equipLevel = formatRange('lv', filters.minEquipLevel, filters.maxEquipLevel, EQUIP_LEVEL_MIN, EQUIP_LEVEL_MAX);
+  if (equipLevel) terms.push(equipLevel);
+
+  if (filters.selectedJobs.length > 0) terms.push(`job:${filters.selectedJobs.join(',')}`);
+  if (filters.categoryId !== null) terms.push(`cat:${filters.categoryId}`);
+  if (filters.rarity !== null) terms.push(`rarity:${filters.rarity}`);
+  if (filters.patch !== null) terms.push(`patch:${filters.patch}`);
+  if (filters.craftableOnly) terms.push('craftable');
+  if (filters.gatherableOnly) terms.push('gatherable');
+  if (filters.canBeHq !== null) terms.push(filters.canBeHq ? 'hq' : '-hq');
+  if (filters.tradeable !== null) terms.push(filters.tradeable ? 'tradeable' : '-tradeable');
+
+  for (const { stat, min } of filters.statFilters) {
+    const name = /[\s"()|:<>=]/.test(stat) ? `"${stat}"` : stat;
+    terms.push(`stat:${name}>=${min}`);
+  }
+  if (filters.minMateriaSlots > 0) terms.push(`slots:>=${filters.minMateriaSlots}`);
+  if (filters.minDyeCount > 0) terms.push(`dye:>=${filters.minDyeCount}`);
+  if (filters.advancedMelding) terms.push('overmeld');
+  if (filters.unique !== null) terms.push(filters.unique ? 'is:unique' : '-is:unique');
+
+  return terms.join(' ');
+}
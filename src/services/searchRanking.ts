@@ -0,0 +1,112 @@
+// Search relevance scoring
+// Ranks results by how well the query matches any of the item's names:
+// exact > prefix > word boundary > substring > phonetic > typo > index-only (FlexSearch token) match,
+// weighted by the language that matched.
+import type { SearchMatch, SearchMatchKind, SearchMatchLang } from '../types';
+import { foldChinese } from './searchPhonetics';
+
+// Pre-normalized item name for one language
+export interface SearchName {
+  lang: SearchMatchLang;
+  name: string;
+  normalized: string;
+}
+
+// Base score per match kind; tiers are far enough apart that language
+// weight and name coverage never reorder them
+const KIND_SCORES: Record<SearchMatchKind, number> = {
+  exact: 100,
+  prefix: 60,
+  word: 40,
+  substring: 20,
+  phonetic: 15,
+  fuzzy: 12,
+  index: 10,
+};
+
+// TC is the display language, so its matches rank slightly higher
+const LANG_WEIGHTS: Record<SearchMatchLang, number> = {
+  tc: 1,
+  cn: 0.95,
+  ja: 0.9,
+  en: 0.9,
+};
+
+// Characters that start a new "word" in item names (spaces, separators, brackets)
+const WORD_BOUNDARY = /[\s\-_'"()[\]（）「」『』【】・·:：,，.。/]/;
+
+/**
+ * Normalize text for matching (handles different input methods).
+ * Chinese is folded to Simplified so Simplified input finds Traditional names.
+ */
+export function normalizeForSearch(text: string): string {
+  return foldChinese(text.toLowerCase().normalize('NFC'));
+}
+
+/**
+ * Build the searchable names (TC, EN, JA, CN) of an item
+ */
+export function buildSearchNames(
+  name: string,
+  multiNames?: { en?: string; ja?: string; cn?: string }
+): SearchName[] {
+  const names: SearchName[] = [{ lang: 'tc', name, normalized: normalizeForSearch(name) }];
+  if (multiNames) {
+    for (const lang of ['en', 'ja', 'cn'] as const) {
+      const value = multiNames[lang];
+      if (value) names.push({ lang, name: value, normalized: normalizeForSearch(value) });
+    }
+  }
+  return names;
+}
+
+function classifyMatch(normalized: string, query: string): SearchMatchKind | null {
+  if (normalized === query) return 'exact';
+  const index = normalized.indexOf(query);
+  if (index === -1) return null;
+  if (index === 0) return 'prefix';
+
+  // Any later occurrence may sit on a word boundary even if the first doesn't
+  for (let i = index; i !== -1; i = normalized.indexOf(query, i + 1)) {
+    if (WORD_BOUNDARY.test(normalized[i - 1])) return 'word';
+  }
+  return 'substring';
+}
+
+/**
+ * Score how well a normalized query matches an item's names.
+ * Without a direct match, falls back to the given phonetic/typo match, then to an
+ * index-only match (FlexSearch token hits).
+ */
+export function scoreMatch(
+  names: SearchName[],
+  query: string,
+  fallback?: SearchMatch | null
+): { score: number; match: SearchMatch } {
+  let best: { score: number; match: SearchMatch } | null = null;
+
+  for (const entry of names) {
+    const kind = classifyMatch(entry.normalized, query);
+    if (!kind) continue;
+
+    // Coverage (0-1] prefers shorter names within the same tier, e.g. "木材" over "木材桌"
+    const coverage = query.length / Math.max(entry.normalized.length, 1);
+    const score = KIND_SCORES[kind] * LANG_WEIGHTS[entry.lang] + coverage;
+
+    if (!best || score > best.score) {
+      best = { score, match: { kind, lang: entry.lang, name: entry.name } };
+    }
+  }
+
+  if (best) return best;
+
+  if (fallback) {
+    return { score: KIND_SCORES[fallback.kind] * LANG_WEIGHTS[fallback.lang], match: fallback };
+  }
+
+  const primary = names[0];
+  return {
+    score: KIND_SCORES.index,
+    match: { kind: 'index', lang: primary.lang, name: primary.name },
+  };
+}
@@ -1,22 +1,25 @@
-// Search service using FlexSearch
-import FlexSearch from 'flexsearch';
-import type { Item, SearchFilters, SearchResult } from '../types';
+// Search service: item lookups on the main thread, queries via the search worker
+import type {
+  Item,
+  MultilingualNames,
+  SearchFilters,
+  SearchResult,
+  SearchSort,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from '../types';
+import { DEFAULT_SORT } from './searchSort';
 
-// Multilingual names type
-interface MultilingualNames {
-  [itemId: string]: {
-    en?: string;
-    ja?: string;
-    cn?: string;
-  };
-}
-
-// FlexSearch index for items - using any to handle the dynamic nature of FlexSearch
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let itemIndex: any = null;
 let itemsMap: Map<number, Item> = new Map();
 let multilingualNames: MultilingualNames = {};
-let indexReady = false;
+
+// Search worker owns the FlexSearch index and the filter/sort pipeline
+let searchWorker: Worker | null = null;
+let nextRequestId = 1;
+const pendingSearches = new Map<number, {
+  resolve: (result: SearchResultWithTotal) => void;
+  reject: (error: Error) => void;
+}>();
 
 /**
  * Set multilingual names data for search
@@ -32,50 +35,76 @@ export function getMultilingualNames(itemId: number): { en?: string; ja?: string
   return multilingualNames[itemId];
 }
 
+function getSearchWorker(): Worker {
+  if (searchWorker) return searchWorker;
+
+  const worker = new Worker(
+    new URL('./searchWorker.ts', import.meta.url),
+    { type: 'module' }
+  );
+
+  worker.onmessage = (e: MessageEvent<SearchWorkerResponse>) => {
+    const response = e.data;
+    const pending = pendingSearches.get(response.id);
+    if (!pending) return; // Cancelled
+    pendingSearches.delete(response.id);
+
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+      return;
+    }
+
+    pending.resolve({
+      results: response.hits
+        .map((hit): SearchResult | null => {
+          const item = itemsMap.get(hit.id);
+          return item ? { item, score: hit.score, match: hit.match } : null;
+        })
+        .filter((result): result is SearchResult => result !== null),
+      total: response.total,
+    });
+  };
+
+  worker.onerror = (e) => {
+    console.error('Search worker error:', e.message);
+    for (const pending of pendingSearches.values()) {
+      pending.reject(new Error(e.message));
+    }
+    pendingSearches.clear();
+  };
+
+  searchWorker = worker;
+  return worker;
+}
+
+function postToWorker(request: SearchWorkerRequest): void {
+  getSearchWorker().postMessage(request);
+}
+
 /**
  * Initialize the search index with items data.
- * Populates itemsMap immediately, defers FlexSearch indexing to background.
+ * Populates itemsMap immediately; the worker builds the FlexSearch index in background,
+ * or restores it from the IndexedDB cache when the data version matches.
  */
-export function initializeSearchIndex(items: Record<number, Item>): void {
+export function initializeSearchIndex(items: Record<number, Item>, version: string | null = null): void {
   itemsMap = new Map(
     Object.entries(items).map(([id, item]) => [parseInt(id), item as Item])
   );
 
-  console.log(`Items map ready with ${itemsMap.size} items, building FlexSearch index in background...`);
+  console.log(`Items map ready with ${itemsMap.size} items, sending to search worker...`);
 
-  // Build FlexSearch index asynchronously in small batches to avoid blocking UI
-  buildIndexAsync();
+  postToWorker({ type: 'init', items, names: multilingualNames, version });
 }
 
-async function buildIndexAsync(): Promise<void> {
-  const index = new FlexSearch.Index({
-    tokenize: 'full',
-    resolution: 9,
-    cache: true,
-  });
-
-  const entries = Array.from(itemsMap.entries());
-  const BATCH_SIZE = 2000;
-
-  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
-    const batch = entries.slice(i, i + BATCH_SIZE);
-    for (const [id, item] of batch) {
-      const searchParts = [item.name];
-      const multiNames = multilingualNames[id];
-      if (multiNames) {
-        if (multiNames.en) searchParts.push(multiNames.en);
-        if (multiNames.ja) searchParts.push(multiNames.ja);
-        if (multiNames.cn) searchParts.push(multiNames.cn);
-      }
-      index.add(id, searchParts.join(' '));
-    }
-    // Yield to main thread between batches
-    await new Promise(resolve => setTimeout(resolve, 0));
+/**
+ * Replace items with their full data (equipStats etc.) once items.json is loaded,
+ * so lookups and equipment filters see it
+ */
+export function updateSearchItems(items: Record<number, Item>): void {
+  for (const [id, item] of Object.entries(items)) {
+    itemsMap.set(parseInt(id), item);
   }
-
-  itemIndex = index;
-  indexReady = true;
-  console.log(`FlexSearch index ready with ${entries.length} items`);
+  postToWorker({ type: 'update', items });
 }
 
 /**
@@ -87,154 +116,37 @@ export interface SearchResultWithTotal {
 }
 
 /**
- * Search for items matching the query and filters
+ * Search for items matching the query and filters (runs in the search worker).
+ * Aborting the signal cancels the request and rejects with an AbortError.
  */
-export function searchItems(filters: SearchFilters, limit = 100): SearchResultWithTotal {
+export function searchItems(
+  filters: SearchFilters,
+  limit = 100,
+  signal?: AbortSignal,
+  sort: SearchSort = DEFAULT_SORT
+): Promise<SearchResultWithTotal> {
   if (itemsMap.size === 0) {
     console.warn('Search index not initialized');
-    return { results: [], total: 0 };
+    return Promise.resolve({ results: [], total: 0 });
   }
 
-  let results: Item[];
-
-  if (filters.query.trim()) {
-    // Normalize query for better Unicode matching (handles different input methods)
-    const query = filters.query.trim().toLowerCase().normalize('NFC');
-
-    // Use FlexSearch if index is ready, otherwise skip to substring search
-    const flexSearchIds = new Set<number>();
-    if (indexReady && itemIndex) {
-      const searchResults = itemIndex.search(filters.query, { limit: 5000 }) as number[];
-      for (const id of searchResults) flexSearchIds.add(id);
-      results = searchResults
-        .map((id: number) => itemsMap.get(id))
-        .filter((item): item is Item => item !== undefined);
-    } else {
-      results = [];
-    }
-
-    // Also do substring search across all names (TC, EN, JA, CN) for better CJK support
-    // This catches cases where FlexSearch tokenization doesn't match partial strings
-    for (const [id, item] of itemsMap) {
-      if (flexSearchIds.has(id)) continue; // Already in results
-
-      // Check TC name
-      if (item.name.toLowerCase().normalize('NFC').includes(query)) {
-        results.push(item);
-        continue;
-      }
-
-      // Check multilingual names
-      const multiNames = multilingualNames[id];
-      if (multiNames) {
-        const enMatch = multiNames.en && multiNames.en.toLowerCase().normalize('NFC').includes(query);
-        const jaMatch = multiNames.ja && multiNames.ja.toLowerCase().normalize('NFC').includes(query);
-        const cnMatch = multiNames.cn && multiNames.cn.toLowerCase().normalize('NFC').includes(query);
-
-        if (enMatch || jaMatch || cnMatch) {
-          results.push(item);
-        }
-      }
-    }
-  } else {
-    // No query, return all items
-    results = Array.from(itemsMap.values());
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Search cancelled', 'AbortError'));
   }
 
-  // Apply filters
-  results = results.filter(item => {
-    // Category filter
-    if (filters.categoryId !== null && item.categoryId !== filters.categoryId) {
-      return false;
-    }
-
-    // Item Level filter
-    if (item.itemLevel < filters.minLevel || item.itemLevel > filters.maxLevel) {
-      return false;
-    }
-
-    // Equip Level filter
-    if (filters.minEquipLevel !== 1 || filters.maxEquipLevel !== 100) {
-      if (item.equipLevel < filters.minEquipLevel || item.equipLevel > filters.maxEquipLevel) {
-        return false;
-      }
-    }
-
-    // Craftable filter
-    if (filters.craftableOnly && !item.isCraftable) {
-      return false;
-    }
-
-    // Gatherable filter
-    if (filters.gatherableOnly && !item.isGatherable) {
-      return false;
-    }
-
-    // HQ filter
-    if (filters.canBeHq !== null) {
-      if (filters.canBeHq && !item.canBeHq) return false;
-      if (!filters.canBeHq && item.canBeHq) return false;
-    }
-
-    // Tradeable filter
-    if (filters.tradeable !== null) {
-      // isUntradable is true when item cannot be traded
-      const isTradeable = !item.isUntradable;
-      if (filters.tradeable && !isTradeable) return false;
-      if (!filters.tradeable && isTradeable) return false;
-    }
-
-    // Rarity filter
-    if (filters.rarity !== null && item.rarity !== filters.rarity) {
-      return false;
-    }
+  const id = nextRequestId++;
 
-    // Patch filter
-    if (filters.patch !== null && item.patch !== filters.patch) {
-      return false;
-    }
-
-    // Job filter - check if item can be worn by any of the selected jobs
-    if (filters.selectedJobs.length > 0) {
-      // Items must have equipStats with classJobCategoryName to be filtered by job
-      if (!item.equipStats?.classJobCategoryName) {
-        return false;
-      }
-      // Check if any selected job is in the classJobCategoryName
-      const itemJobs = item.equipStats.classJobCategoryName.split(/\s+/);
-      const hasMatchingJob = filters.selectedJobs.some(job => itemJobs.includes(job));
-      if (!hasMatchingJob) {
-        return false;
-      }
-    }
+  return new Promise((resolve, reject) => {
+    pendingSearches.set(id, { resolve, reject });
 
-    return true;
-  });
+    signal?.addEventListener('abort', () => {
+      if (!pendingSearches.delete(id)) return;
+      postToWorker({ type: 'cancel', id });
+      reject(new DOMException('Search cancelled', 'AbortError'));
+    }, { once: true });
 
-  // Sort by relevance (items matching query should be first) and then by level
-  results.sort((a, b) => {
-    // If there's a query, items with exact name match come first
-    if (filters.query.trim()) {
-      const queryLower = filters.query.toLowerCase();
-      const aExact = a.name.toLowerCase().includes(queryLower);
-      const bExact = b.name.toLowerCase().includes(queryLower);
-      if (aExact && !bExact) return -1;
-      if (!aExact && bExact) return 1;
-    }
-    // Then sort by item level (descending)
-    return b.itemLevel - a.itemLevel;
+    postToWorker({ type: 'search', id, filters, sort, limit });
   });
-
-  const total = results.length;
-
-  // Limit results
-  return {
-    results: results.slice(0, limit).map(item => ({
-      item,
-      score: 1, // FlexSearch doesn't provide scores in this version
-    })),
-    total,
-  };
 }
 
 /**
@@ -291,5 +203,20 @@ export function getAllPatches(): string[] {
   });
 }
 
+/**
+ * Get the names of all equipment stats, most common first (needs full item data)
+ */
+export function getEquipStatNames(): string[] {
+  const counts = new Map<string, number>();
+  for (const item of itemsMap.values()) {
+    for (const stat of item.equipStats?.stats ?? []) {
+      counts.set(stat.name, (counts.get(stat.name) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([name]) => name);
+}
+
 // Re-export from useItemData for convenience
 export { getRecipesForItem } from '../hooks/useItemData';
@@ -0,0 +1,74 @@
+// Result ordering for search
+// Sorting by item fields happens in the search worker before results are paged;
+// market price is only known on the main thread, so price sorts the loaded page.
+import type { Item, SearchSort, SearchSortKey } from '../types';
+import { compareVersion } from './searchQuery';
+
+export const DEFAULT_SORT: SearchSort = { key: 'relevance', desc: true };
+
+export const SORT_OPTIONS: { key: SearchSortKey; label: string }[] = [
+  { key: 'relevance', label: '相關度' },
+  { key: 'ilvl', label: '物品等級' },
+  { key: 'elvl', label: '裝備等級' },
+  { key: 'patch', label: '版本' },
+  { key: 'rarity', label: '稀有度' },
+  { key: 'name', label: '名稱 (筆畫)' },
+  { key: 'zhuyin', label: '名稱 (注音)' },
+  { key: 'price', label: '市場價格' },
+];
+
+// Direction used when a sort key is first picked: numbers high-to-low, names and price low-to-high
+export const DEFAULT_SORT_DESC: Record<SearchSortKey, boolean> = {
+  relevance: true,
+  ilvl: true,
+  elvl: true,
+  patch: true,
+  rarity: true,
+  name: false,
+  zhuyin: false,
+  price: false,
+};
+
+const SORT_KEYS = new Set<string>(SORT_OPTIONS.map(option => option.key));
+
+export function isSortKey(value: string): value is SearchSortKey {
+  return SORT_KEYS.has(value);
+}
+
+// zh-TW collations; stroke order is ICU's default for Traditional Chinese
+const strokeCollator = new Intl.Collator('zh-TW-u-co-stroke');
+const zhuyinCollator = new Intl.Collator('zh-TW-u-co-zhuyin');
+
+/**
+ * Compare two items by a field sort key (ascending); 0 for 'relevance' and 'price'
+ */
+export function compareItemsBy(key: SearchSortKey, a: Item, b: Item): number {
+  switch (key) {
+    case 'ilvl':
+      return a.itemLevel - b.itemLevel;
+    case 'elvl':
+      return a.equipLevel - b.equipLevel;
+    case 'patch':
+      // Items without a patch sort as oldest
+      return compareVersion(a.patch ?? '0.0', b.patch ?? '0.0');
+    case 'rarity':
+      return a.rarity - b.rarity;
+    case 'name':
+      return strokeCollator.compare(a.name, b.name);
+    case 'zhuyin':
+      return zhuyinCollator.compare(a.name, b.name);
+    case 'relevance':
+    case 'price':
+      return 0;
+  }
+}
+
+/**
+ * Compare market prices ascending; items without a price always sort last
+ */
+export function comparePrices(a: number | null | undefined, b: number | null | undefined, desc: boolean): number {
+  const aMissing = a == null;
+  const bMissing = b == null;
+  if (aMissing || bMissing) return Number(aMissing) - Number(bMissing);
+  return desc ? b - a : a - b;
+}
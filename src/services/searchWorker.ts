@@ -0,0 +1,65 @@
+// Web Worker for item search
+// Keeps the FlexSearch index and the filter/sort pipeline off the main thread
+
+import type { SearchFilters, SearchSort, SearchWorkerRequest, SearchWorkerResponse } from '../types';
+import { loadSearchData, runSearch, updateSearchItems } from './searchEngine';
+
+interface QueuedSearch {
+  filters: SearchFilters;
+  sort: SearchSort;
+  limit: number;
+}
+
+// Searches are queued and run on the next tick, so a `cancel` that arrives
+// before a search starts drops it instead of wasting a full scan
+const queue = new Map<number, QueuedSearch>();
+let scheduled = false;
+
+function respond(response: SearchWorkerResponse): void {
+  postMessage(response);
+}
+
+function processQueue(): void {
+  scheduled = false;
+
+  const next = queue.entries().next();
+  if (next.done) return;
+
+  const [id, { filters, sort, limit }] = next.value;
+  queue.delete(id);
+
+  try {
+    const { hits, total } = runSearch(filters, limit, sort);
+    respond({ type: 'result', id, hits, total });
+  } catch (e: unknown) {
+    respond({ type: 'error', id, message: String(e) });
+  }
+
+  scheduleQueue();
+}
+
+function scheduleQueue(): void {
+  if (scheduled || queue.size === 0) return;
+  scheduled = true;
+  setTimeout(processQueue, 0);
+}
+
+onmessage = (e: MessageEvent<SearchWorkerRequest>) => {
+  const request = e.data;
+
+  switch (request.type) {
+    case 'init':
+      loadSearchData(request.items, request.names, request.version);
+      break;
+    case 'update':
+      updateSearchItems(request.items);
+      break;
+    case 'search':
+      queue.set(request.id, { filters: request.filters, sort: request.sort, limit: request.limit });
+      scheduleQueue();
+      break;
+    case 'cancel':
+      queue.delete(request.id);
+      break;
+  }
+};
@@ -0,0 +1,107 @@
+// Worlds and data centers for the market server choice
+import type { DataCenter, World } from '../types';
+
+// Used until worlds.json loads, or if it can't be loaded
+const FALLBACK_DATA_CENTERS: DataCenter[] = [
+  {
+    name: '陸行鳥',
+    region: '繁中服',
+    worlds: [
+      { id: 4028, name: '伊弗利特' },
+      { id: 4029, name: '迦樓羅' },
+      { id: 4030, name: '利維坦' },
+      { id: 4031, name: '鳳凰' },
+      { id: 4032, name: '奧汀' },
+      { id: 4033, name: '巴哈姆特' },
+      { id: 4034, name: '拉姆' },
+      { id: 4035, name: '泰坦' },
+    ],
+  },
+];
+
+// Display names for Universalis region names
+const REGION_LABELS: Record<string, string> = {
+  '繁中服': '繁中服',
+  'Japan': '日本',
+  'North-America': '北美',
+  'Europe': '歐洲',
+  'Oceania': '大洋洲',
+  '中国': '中國',
+  '한국': '韓國',
+};
+
+let cachedDataCenters: DataCenter[] | null = null;
+let dataCentersPromise: Promise<DataCenter[]> | null = null;
+
+/**
+ * Load worlds.json once; resolves to the TC data center alone if the file is missing
+ */
+export async function loadDataCenters(): Promise<DataCenter[]> {
+  if (cachedDataCenters) return cachedDataCenters;
+  if (dataCentersPromise) return dataCentersPromise;
+
+  dataCentersPromise = (async () => {
+    try {
+      const response = await fetch(`${import.meta.env.BASE_URL}data/worlds.json`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = (await response.json()) as { dataCenters: DataCenter[] };
+      cachedDataCenters = data.dataCenters.length > 0 ? data.dataCenters : FALLBACK_DATA_CENTERS;
+    } catch (e) {
+      console.error('Failed to load world data:', e);
+      cachedDataCenters = FALLBACK_DATA_CENTERS;
+    }
+    return cachedDataCenters;
+  })();
+  return dataCentersPromise;
+}
+
+/**
+ * Data centers loaded so far (the fallback list before loadDataCenters resolves)
+ */
+export function getDataCenters(): DataCenter[] {
+  return cachedDataCenters ?? FALLBACK_DATA_CENTERS;
+}
+
+/**
+ * Get all worlds as a flat list
+ */
+export function getAllWorlds(): World[] {
+  return getDataCenters().flatMap(dc => dc.worlds);
+}
+
+/**
+ * World ids a market server covers: one world, a data center's worlds or a region's worlds
+ */
+export function getServerWorldIds(server: string, dataCenters: DataCenter[] = getDataCenters()): number[] {
+  const dc = dataCenters.find(d => d.name === server);
+  if (dc) return dc.worlds.map(w => w.id);
+  const regionWorlds = dataCenters.filter(d => d.region === server).flatMap(d => d.worlds);
+  if (regionWorlds.length > 0) return regionWorlds.map(w => w.id);
+  const world = dataCenters.flatMap(d => d.worlds).find(w => w.name === server);
+  return world ? [world.id] : [];
+}
+
+export function getRegionLabel(region: string): string {
+  return REGION_LABELS[region] ?? region;
+}
+
+/**
+ * Regions with more than one data center, where querying the whole region adds something
+ */
+export function getMultiDcRegions(dataCenters: DataCenter[]): string[] {
+  const counts = new Map<string, number>();
+  for (const dc of dataCenters) {
+    counts.set(dc.region, (counts.get(dc.region) ?? 0) + 1);
+  }
+  return Array.from(counts.entries()).filter(([, count]) => count > 1).map(([region]) => region);
+}
+
+/**
+ * Readable name of a market server: a world, data center or region name
+ */
+export function getMarketServerLabel(server: string, dataCenters: DataCenter[] = getDataCenters()): string {
+  if (REGION_LABELS[server] !== undefined && !dataCenters.some(dc => dc.name === server)) {
+    return `${getRegionLabel(server)}全區`;
+  }
+  return server;
+}
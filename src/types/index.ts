@@ -48,6 +48,7 @@ export interface EquipmentStats {
   isAdvancedMeldingPermitted?: boolean;
   dyeCount?: number;
   isUnique?: boolean;
+  equipSlotCategory?: number;     // EquipSlotCategory id (1 = one-handed main hand, 13 = two-handed, ...)
   sellPrice?: number;
   gcSealPrice?: number;           // Grand Company seal value
 }
@@ -202,6 +203,18 @@ export interface MarketHistory {
   worldID?: number;    // Available when querying data center
 }
 
+// Sale history for a time window (Universalis history endpoint)
+export interface MarketHistoryData {
+  itemID: number;
+  lastUploadTime: number;
+  entries: MarketHistory[];
+  regularSaleVelocity: number;
+  nqSaleVelocity: number;
+  hqSaleVelocity: number;
+  worldName?: string;
+  dcName?: string;
+}
+
 // World/Server types
 export interface World {
   id: number;
@@ -230,13 +243,82 @@ export interface SearchFilters {
   tradeable: boolean | null;      // null = any, true = tradeable, false = untradeable
   rarity: number | null;          // 1-4 (white, green, blue, purple)
   patch: string | null;           // e.g., "7.0", "6.5"
+  // Equipment filters (need full item data)
+  statFilters: StatFilter[];      // Minimum stat values, e.g. 暴擊 >= 200
+  minMateriaSlots: number;        // 0 = any
+  minDyeCount: number;            // 0 = any
+  advancedMelding: boolean;       // Only items that allow advanced melding
+  unique: boolean | null;         // null = any, true = unique only, false = not unique
+}
+
+// Minimum value for a named equipment stat; HQ items are compared with their HQ bonus added
+export interface StatFilter {
+  stat: string;                   // Stat name as in ItemStat.name
+  min: number;
 }
 
 export interface SearchResult {
   item: Item;
   score: number;
+  match?: SearchMatch;            // Why the item matched the query (absent without query text)
+}
+
+// How a search result matched the query text
+export type SearchMatchKind = 'exact' | 'prefix' | 'word' | 'substring' | 'phonetic' | 'fuzzy' | 'index';
+export type SearchMatchLang = 'tc' | 'en' | 'ja' | 'cn';
+
+export interface SearchMatch {
+  kind: SearchMatchKind;
+  lang: SearchMatchLang;
+  name: string;                   // The name that matched, in that language
+}
+
+// Result ordering; 'relevance' is the default match-quality order.
+// 'name' sorts by stroke count, 'zhuyin' by bopomofo order.
+export type SearchSortKey = 'relevance' | 'ilvl' | 'elvl' | 'patch' | 'rarity' | 'name' | 'zhuyin' | 'price';
+
+export interface SearchSort {
+  key: SearchSortKey;
+  desc: boolean;
+}
+
+// Results list layout and the columns shown in table mode
+export type ResultsViewMode = 'cards' | 'table';
+
+export type ResultColumnId =
+  | 'ilvl' | 'elvl' | 'category' | 'patch' | 'rarity' | 'jobs' | 'hq' | 'stackSize'
+  | 'physicalDamage' | 'magicDamage' | 'autoAttack' | 'delay'
+  | 'physicalDefense' | 'magicDefense' | 'blockRate' | 'blockStrength'
+  | 'stats' | 'materiaSlots' | 'sellPrice' | 'price';
+
+// Multilingual item names keyed by item ID
+export interface MultilingualNames {
+  [itemId: string]: {
+    en?: string;
+    ja?: string;
+    cn?: string;
+  };
+}
+
+// Search hit returned by the search worker (resolved to an Item on the main thread)
+export interface SearchHit {
+  id: number;
+  score: number;
+  match?: SearchMatch;
 }
 
+// Search worker protocol (main thread -> searchWorker.ts)
+export type SearchWorkerRequest =
+  | { type: 'init'; items: Record<number, Item>; names: MultilingualNames; version: string | null }
+  | { type: 'update'; items: Record<number, Item> }
+  | { type: 'search'; id: number; filters: SearchFilters; sort: SearchSort; limit: number }
+  | { type: 'cancel'; id: number };
+
+// Search worker protocol (searchWorker.ts -> main thread)
+export type SearchWorkerResponse =
+  | { type: 'result'; id: number; hits: SearchHit[]; total: number }
+  | { type: 'error'; id: number; message: string };
+
 // Data files structure
 export interface ItemsData {
   items: Record<number, Item>;
@@ -352,7 +434,7 @@ export interface CraftingTreeNode {
   depth: number;                   // Tree depth level
   isCollapsed?: boolean;           // UI collapse state
   listings?: ListingInfo[];        // Recent listings for tooltip
-  lastUploadTime?: number;         // Market data last upload time (Unix timestamp in seconds)
+  lastUploadTime?: number;         // Market data last upload time (Unix timestamp in milliseconds)
 }
 
 // Price check list item for tracking items to compare prices
@@ -361,3 +443,44 @@ export interface PriceCheckListItem {
   quantity: number;
   addedAt: number;
 }
+
+// Materia stat bonus (from materia.json)
+export interface MateriaInfo {
+  paramId: number;                 // BaseParam id
+  paramName: string;
+  value: number;
+  grade: number;                   // 0 = I, 1 = II, ...
+}
+
+// Materia and the per-stat meld caps of equipment
+export interface MateriaData {
+  materia: Record<number, MateriaInfo>;   // By materia item ID
+  statCaps: {
+    levels: Record<number, Record<number, number>>;          // itemLevel -> paramId -> base value
+    slotModifiers: Record<number, Record<number, number>>;   // paramId -> equipSlotCategory -> per-mille
+  };
+}
+
+// Gear set planner
+export type GearSlotId =
+  | 'mainHand' | 'offHand'
+  | 'head' | 'body' | 'hands' | 'legs' | 'feet'
+  | 'earrings' | 'necklace' | 'bracelets' | 'ring1' | 'ring2';
+
+export interface GearPiece {
+  itemId: number;
+  hq: boolean;
+  materia: number[];               // Materia item IDs in meld order
+}
+
+export interface GearSet {
+  name: string;
+  job: string;                     // Job abbreviation, e.g. "WHM"
+  pieces: Partial<Record<GearSlotId, GearPiece>>;
+}
+
+// Gear set saved in the browser
+export interface SavedGearSet extends GearSet {
+  id: string;
+  savedAt: number;
+}
@@ -0,0 +1,290 @@
+// Buy-vs-craft optimiser: picks the cheapest way to obtain every node of a priced crafting tree
+import type { CraftingTreeNode } from '../types';
+import { quoteBuy } from './listingCost';
+import { getCraftCount, type QualityFilter } from './craftingTree';
+import { formatPrice } from '../services/universalisApi';
+
+export type CraftChoice =
+  | 'owned'        // Fully covered by owned stock
+  | 'buy-nq'
+  | 'buy-hq'
+  | 'custom'       // Bought at the user's custom price
+  | 'craft'
+  | 'unavailable'  // No listings and no recipe
+  | 'skip';        // Not needed: its parent is bought or covered by stock
+
+export interface CraftPlanNode {
+  itemId: number;
+  need: number;                 // Units this node needs, given the choices above it
+  ownedUsed: number;            // Units taken from owned stock
+  choice: CraftChoice;          // How the rest (need - ownedUsed) is obtained
+  cost: number | null;          // Gil for the rest; null when it can't be obtained
+  shortfall: number;            // Units the chosen listings can't supply
+  reason: string;               // Why this choice won, for display
+  children: CraftPlanNode[];    // Parallel to the tree node's children
+}
+
+export const CRAFT_CHOICE_LABELS: Record<CraftChoice, string> = {
+  owned: '用庫存',
+  'buy-nq': '買NQ',
+  'buy-hq': '買HQ',
+  custom: '自訂價',
+  craft: '製作',
+  unavailable: '無法取得',
+  skip: '不需要',
+};
+
+export const CRAFT_CHOICE_CLASSES: Record<CraftChoice, string> = {
+  owned: 'bg-green-500/20 text-green-400',
+  'buy-nq': 'bg-green-500/20 text-green-400',
+  'buy-hq': 'bg-yellow-500/20 text-yellow-400',
+  custom: 'bg-[var(--ffxiv-highlight)]/20 text-[var(--ffxiv-highlight)]',
+  craft: 'bg-blue-500/20 text-blue-400',
+  unavailable: 'bg-[var(--ffxiv-error)]/20 text-[var(--ffxiv-error)]',
+  skip: 'bg-[var(--ffxiv-bg-tertiary)] text-[var(--ffxiv-muted)]',
+};
+
+interface Option {
+  choice: CraftChoice;
+  cost: number;
+  shortfall: number;
+  children?: CraftPlanNode[];
+  pool?: Map<number, number>;
+}
+
+/**
+ * Children needed to craft `quantity` of a node, from its recipe rather than the tree's fixed quantities
+ */
+function childNeeds(node: CraftingTreeNode, quantity: number): number[] {
+  if (!node.recipe) return node.children.map(() => 0);
+  const crafts = getCraftCount(node.recipe, quantity);
+  const amounts = new Map(node.recipe.ingredients.map(i => [i.itemId, i.amount]));
+  return node.children.map(child => (amounts.get(child.item.id) ?? 0) * crafts);
+}
+
+function skipPlan(node: CraftingTreeNode, reason: string): CraftPlanNode {
+  return {
+    itemId: node.item.id,
+    need: 0,
+    ownedUsed: 0,
+    choice: 'skip',
+    cost: 0,
+    shortfall: 0,
+    reason,
+    children: node.children.map(child => skipPlan(child, reason)),
+  };
+}
+
+function buyOptions(
+  node: CraftingTreeNode,
+  quantity: number,
+  customPrices: Record<number, number>,
+  qualityFilter: QualityFilter
+): Option[] {
+  const customPrice = customPrices[node.item.id];
+  if (customPrice !== undefined) {
+    return [{ choice: 'custom', cost: customPrice * quantity, shortfall: 0 }];
+  }
+
+  const options: Option[] = [];
+  if (qualityFilter !== 'hq') {
+    const quote = quoteBuy(node, quantity, false);
+    if (quote) options.push({ choice: 'buy-nq', ...quote });
+  }
+  if (qualityFilter !== 'nq') {
+    const quote = quoteBuy(node, quantity, true);
+    if (quote) options.push({ choice: 'buy-hq', ...quote });
+  }
+  return options;
+}
+
+/**
+ * Craft from children, threading owned stock through them in order
+ * Null when any child can't be obtained
+ */
+function craftOption(
+  node: CraftingTreeNode,
+  quantity: number,
+  pool: Map<number, number>,
+  customPrices: Record<number, number>,
+  qualityFilter: QualityFilter
+): Option | null {
+  if (!node.recipe || node.children.length === 0) return null;
+
+  const childPool = new Map(pool);
+  const needs = childNeeds(node, quantity);
+  const children: CraftPlanNode[] = [];
+  let cost = 0;
+  let shortfall = 0;
+
+  node.children.forEach((child, i) => {
+    const plan = solveNode(child, needs[i], childPool, customPrices, qualityFilter);
+    children.push(plan);
+    if (plan.cost === null) {
+      cost = NaN;
+    } else {
+      cost += plan.cost;
+      shortfall += plan.shortfall;
+    }
+  });
+
+  if (Number.isNaN(cost)) return null;
+  return { choice: 'craft', cost: Math.ceil(cost), shortfall, children, pool: childPool };
+}
+
+/**
+ * Explain the winner against the runner-up
+ */
+function describe(best: Option, others: Option[], quantity: number, ownedUsed: number): string {
+  const prefix = ownedUsed > 0 ? `用庫存 ${ownedUsed} 個，其餘 ${quantity} 個：` : '';
+  if (best.choice === 'custom') return `${prefix}使用自訂價格`;
+
+  const runnerUp = others
+    .filter(o => o !== best)
+    .sort((a, b) => a.cost - b.cost)[0];
+
+  if (!runnerUp) {
+    return best.choice === 'craft'
+      ? `${prefix}市場無上架，只能製作`
+      : `${prefix}無配方，只能購買`;
+  }
+
+  const diff = runnerUp.cost - best.cost;
+  const label = CRAFT_CHOICE_LABELS[best.choice];
+  const vs = CRAFT_CHOICE_LABELS[runnerUp.choice];
+  return diff > 0
+    ? `${prefix}${label}比${vs}省 ${formatPrice(diff)} gil`
+    : `${prefix}${label}與${vs}價格相同`;
+}
+
+/**
+ * Cheapest way to get `need` units of one node
+ * Owned stock is used first since it costs nothing; the pool is only consumed
+ * by a subtree when crafting it is actually chosen
+ */
+function solveNode(
+  node: CraftingTreeNode,
+  need: number,
+  pool: Map<number, number>,
+  customPrices: Record<number, number>,
+  qualityFilter: QualityFilter
+): CraftPlanNode {
+  const id = node.item.id;
+  const ownedUsed = Math.min(need, pool.get(id) ?? 0);
+  if (ownedUsed > 0) pool.set(id, (pool.get(id) ?? 0) - ownedUsed);
+  const rest = need - ownedUsed;
+
+  if (rest === 0) {
+    return {
+      ...skipPlan(node, need > 0 ? '由上層的庫存涵蓋' : '上層不需要製作'),
+      need,
+      ownedUsed,
+      choice: need > 0 ? 'owned' : 'skip',
+      reason: need > 0 ? `庫存足夠 (${ownedUsed} 個)` : '上層不需要製作',
+    };
+  }
+
+  const options = buyOptions(node, rest, customPrices, qualityFilter);
+  const craft = craftOption(node, rest, pool, customPrices, qualityFilter);
+  if (craft) options.push(craft);
+
+  if (options.length === 0) {
+    return {
+      ...skipPlan(node, '上層無法取得'),
+      need,
+      ownedUsed,
+      choice: 'unavailable',
+      cost: null,
+      reason: '市場無上架且無法製作',
+    };
+  }
+
+  // Cheapest wins; a full supply beats a cheaper quote that the market can't fill
+  const best = options.reduce((a, b) => {
+    if ((a.shortfall > 0) !== (b.shortfall > 0)) return a.shortfall > 0 ? b : a;
+    return b.cost < a.cost ? b : a;
+  });
+
+  if (best.pool) {
+    for (const [key, value] of best.pool) pool.set(key, value);
+  }
+
+  const reason = describe(best, options, rest, ownedUsed);
+  return {
+    itemId: id,
+    need,
+    ownedUsed,
+    choice: best.choice,
+    cost: best.cost,
+    shortfall: best.shortfall,
+    reason,
+    children: best.children ?? node.children.map(child =>
+      skipPlan(child, ownedUsed > 0 ? '上層使用庫存或直購' : '上層直購')
+    ),
+  };
+}
+
+/**
+ * Optimise a priced crafting tree
+ * The root is always crafted; every material below it is bought, crafted or taken from owned stock,
+ * whichever makes the total cheapest. Owned stock is shared across the whole tree
+ */
+export function solveCraftPlan(
+  tree: CraftingTreeNode,
+  ownedMaterials: Record<number, number>,
+  customPrices: Record<number, number>,
+  qualityFilter: QualityFilter
+): CraftPlanNode {
+  const pool = new Map(
+    Object.entries(ownedMaterials)
+      .filter(([, qty]) => qty > 0)
+      .map(([id, qty]) => [Number(id), qty] as const)
+  );
+
+  const craft = craftOption(tree, tree.quantity, pool, customPrices, qualityFilter);
+  return {
+    itemId: tree.item.id,
+    need: tree.quantity,
+    ownedUsed: 0,
+    choice: craft ? 'craft' : 'unavailable',
+    cost: craft?.cost ?? null,
+    shortfall: craft?.shortfall ?? 0,
+    reason: craft ? '依各材料的最佳選擇製作' : '有材料無法取得',
+    children: craft?.children ?? tree.children.map(child => skipPlan(child, '有材料無法取得')),
+  };
+}
+
+export interface ItemPlanSummary {
+  need: number;
+  ownedUsed: number;
+  choices: Partial<Record<CraftChoice, number>>;   // Units per choice
+  cost: number;
+  reasons: string[];
+}
+
+/**
+ * Merge plan nodes of the same item, for views that list each material once
+ */
+export function summarizePlanByItem(plan: CraftPlanNode): Map<number, ItemPlanSummary> {
+  const summaries = new Map<number, ItemPlanSummary>();
+
+  const visit = (node: CraftPlanNode) => {
+    for (const child of node.children) {
+      let summary = summaries.get(child.itemId);
+      if (!summary) {
+        summary = { need: 0, ownedUsed: 0, choices: {}, cost: 0, reasons: [] };
+        summaries.set(child.itemId, summary);
+      }
+      summary.need += child.need;
+      summary.ownedUsed += child.ownedUsed;
+      const units = child.choice === 'owned' || child.choice === 'skip' ? child.need : child.need - child.ownedUsed;
+      summary.choices[child.choice] = (summary.choices[child.choice] ?? 0) + units;
+      summary.cost += child.cost ?? 0;
+      if (!summary.reasons.includes(child.reason)) summary.reasons.push(child.reason);
+      visit(child);
+    }
+  };
+  visit(plan);
+
+  return summaries;
+}
@@ -0,0 +1,50 @@
+// Profit of crafting an item to sell on the market board
+import type { CraftingTreeNode, MarketData, Recipe } from '../types';
+
+// Market board sales tax, the usual 5% outside tax-free cities
+export const MARKET_TAX_RATE = 0.05;
+
+export interface CraftProfit {
+  recipe: Recipe;
+  materialCost: number | null;   // One craft, each material bought or crafted, whichever is cheaper
+  salePrice: number | null;      // Per unit: cheapest listing of the sold quality, else its average sale price
+  velocity: number;              // Units sold per day
+  profit: number | null;         // Per craft, after tax
+  margin: number | null;         // Profit / material cost
+}
+
+/**
+ * Price the item would sell for: undercut the cheapest listing, or use the average sale when nothing is listed
+ */
+function getSalePrice(data: MarketData, hq: boolean): number | null {
+  const listed = hq ? data.minPriceHQ : data.minPriceNQ;
+  if (listed > 0) return listed;
+  const average = hq ? data.averagePriceHQ : data.averagePriceNQ;
+  return average > 0 ? Math.round(average) : null;
+}
+
+/**
+ * Work out one craft's profit from a priced tree (built with the recipe's result amount as quantity)
+ * sellHq only applies to items that can be HQ
+ */
+export function calculateCraftProfit(
+  recipe: Recipe,
+  tree: CraftingTreeNode,
+  saleData: MarketData | undefined,
+  sellHq: boolean
+): CraftProfit {
+  const hq = sellHq && tree.item.canBeHq;
+  const materialCost = tree.craftCost;
+  const salePrice = saleData ? getSalePrice(saleData, hq) : null;
+  const velocity = saleData ? (hq ? saleData.hqSaleVelocity : saleData.nqSaleVelocity) ?? 0 : 0;
+
+  let profit: number | null = null;
+  let margin: number | null = null;
+  if (materialCost !== null && salePrice !== null) {
+    const revenue = salePrice * recipe.resultAmount * (1 - MARKET_TAX_RATE);
+    profit = Math.floor(revenue - materialCost);
+    margin = materialCost > 0 ? profit / materialCost : null;
+  }
+
+  return { recipe, materialCost, salePrice, velocity, profit, margin };
+}
@@ -0,0 +1,109 @@
+// Step-by-step craft queue: every intermediate craft of a project, ordered so ingredients are made first
+import type { Recipe } from '../types';
+import { CRYSTAL_IDS } from './craftingTree';
+import type { MaterialLine } from './materialList';
+
+export interface CraftStepIngredient {
+  itemId: number;
+  amount: number;               // For all of the step's crafts
+  crafted: boolean;             // Made by an earlier step
+}
+
+export interface CraftStep {
+  key: string;
+  itemId: number;
+  recipe: Recipe;
+  craftTypeName: string;
+  crafts: number;
+  produced: number;             // crafts × resultAmount; can exceed the need when a craft yields several
+  stage: number;                // 0 for crafts from raw materials; otherwise one past its latest crafted ingredient
+  ingredients: CraftStepIngredient[];
+}
+
+// A checked-off step and what it did to the owned-materials store, so it can be undone
+export interface CompletedCraftStep {
+  key: string;
+  itemId: number;
+  produced: number;
+  consumed: Record<number, number>;
+}
+
+/**
+ * Order the craft lines of a material list into steps
+ * Sorted by stage, then grouped by job within a stage
+ */
+export function buildCraftQueue(lines: MaterialLine[], showCrystals: boolean): CraftStep[] {
+  const craftLines = new Map<number, MaterialLine & { recipe: Recipe }>();
+  for (const line of lines) {
+    if (line.kind === 'craft' && line.recipe) craftLines.set(line.itemId, { ...line, recipe: line.recipe });
+  }
+
+  const stages = new Map<number, number>();
+  const getStage = (itemId: number, visiting: Set<number>): number => {
+    const known = stages.get(itemId);
+    if (known !== undefined) return known;
+    const line = craftLines.get(itemId);
+    if (!line || visiting.has(itemId)) return -1;
+
+    visiting.add(itemId);
+    const stage = 1 + Math.max(-1, ...line.recipe.ingredients.map(i => getStage(i.itemId, visiting)));
+    visiting.delete(itemId);
+    stages.set(itemId, stage);
+    return stage;
+  };
+
+  const steps = Array.from(craftLines.values()).map(line => ({
+    key: `${line.itemId}:${line.recipe.id}`,
+    itemId: line.itemId,
+    recipe: line.recipe,
+    craftTypeName: line.craftTypeName,
+    crafts: line.crafts,
+    produced: line.crafts * line.recipe.resultAmount,
+    stage: getStage(line.itemId, new Set()),
+    ingredients: line.recipe.ingredients
+      .filter(i => showCrystals || !CRYSTAL_IDS.has(i.itemId))
+      .map(i => ({ itemId: i.itemId, amount: i.amount * line.crafts, crafted: craftLines.has(i.itemId) })),
+  }));
+
+  return steps.sort((a, b) => a.stage - b.stage || a.craftTypeName.localeCompare(b.craftTypeName));
+}
+
+/**
+ * What checking off a step does to the store: ingredients used up (as far as they're owned) and the result added
+ */
+export function completeCraftStep(step: CraftStep, ownedMaterials: Record<number, number>): CompletedCraftStep {
+  const consumed: Record<number, number> = {};
+  for (const ingredient of step.recipe.ingredients) {
+    const used = Math.min(ingredient.amount * step.crafts, ownedMaterials[ingredient.itemId] ?? 0);
+    if (used > 0) consumed[ingredient.itemId] = used;
+  }
+  return { key: step.key, itemId: step.itemId, produced: step.produced, consumed };
+}
+
+/**
+ * Store changes for a completed step; negate to undo it
+ */
+export function getCraftStepDeltas(completed: CompletedCraftStep, sign: 1 | -1): Record<number, number> {
+  const deltas: Record<number, number> = {};
+  for (const [id, amount] of Object.entries(completed.consumed)) {
+    deltas[Number(id)] = -amount * sign;
+  }
+  deltas[completed.itemId] = (deltas[completed.itemId] ?? 0) + completed.produced * sign;
+  return deltas;
+}
+
+/**
+ * Owned stock as it was before the completed steps, so the queue stays put while steps are checked off
+ */
+export function getStockBeforeSteps(
+  ownedMaterials: Record<number, number>,
+  completed: CompletedCraftStep[]
+): Record<number, number> {
+  const stock = { ...ownedMaterials };
+  for (const step of completed) {
+    for (const [id, delta] of Object.entries(getCraftStepDeltas(step, -1))) {
+      stock[Number(id)] = Math.max(0, (stock[Number(id)] ?? 0) + delta);
+    }
+  }
+  return stock;
+}
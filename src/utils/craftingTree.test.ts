@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import type { Item, MarketData, MarketListing, Recipe } from '../types';
+import {
+  applyPrices,
+  buildCraftingTree,
+  calculateCosts,
+  calculateTotals,
+  getCraftCount,
+  MAX_DEPTH,
+  type TreeDataSource,
+} from './craftingTree';
+
+// Fixture items start at 100; 2-19 are crystals
+const CRYSTAL = 2;
+
+function item(id: number): Item {
+  return { id, name: `Item ${id}` } as Item;
+}
+
+function recipe(id: number, itemId: number, ingredients: [number, number][], resultAmount = 1): Recipe {
+  return {
+    id,
+    itemId,
+    craftType: 0,
+    craftTypeName: '木工',
+    recipeLevel: 1,
+    stars: 0,
+    ingredients: ingredients.map(([ingredientId, amount]) => ({ itemId: ingredientId, amount })),
+    resultAmount,
+  };
+}
+
+function source(recipes: Recipe[]): TreeDataSource {
+  return {
+    getItem: (id) => item(id),
+    getRecipes: (id) => recipes.filter(r => r.itemId === id),
+  };
+}
+
+function listing(pricePerUnit: number, quantity: number, hq = false, worldName = 'Tonberry'): MarketListing {
+  return { pricePerUnit, quantity, hq, worldName } as MarketListing;
+}
+
+function market(itemID: number, listings: MarketListing[]): MarketData {
+  return { itemID, listings, minPriceNQ: 0, minPriceHQ: 0, lastUploadTime: 1000 } as unknown as MarketData;
+}
+
+// 100 <- 101 x2, 102 x1, crystal x3; 101 <- 103 x4 (yields 3)
+const RECIPES = [
+  recipe(1, 100, [[101, 2], [102, 1], [CRYSTAL, 3]]),
+  recipe(2, 101, [[103, 4]], 3),
+];
+
+describe('getCraftCount', () => {
+  it('rounds up when a craft yields several', () => {
+    expect(getCraftCount(RECIPES[1], 8)).toBe(3);
+    expect(getCraftCount(RECIPES[1], 9)).toBe(3);
+    expect(getCraftCount(RECIPES[0], 5)).toBe(5);
+  });
+});
+
+describe('buildCraftingTree', () => {
+  it('rolls quantities up through resultAmount', () => {
+    const tree = buildCraftingTree(100, 4, source(RECIPES), { showCrystals: false })!;
+    const intermediate = tree.children.find(c => c.item.id === 101)!;
+
+    expect(intermediate.quantity).toBe(8);
+    // 8 needed, 3 per craft: 3 crafts of 4 each
+    expect(intermediate.children[0].quantity).toBe(12);
+    expect(intermediate.children[0].depth).toBe(2);
+  });
+
+  it('filters crystals unless asked for them', () => {
+    const without = buildCraftingTree(100, 1, source(RECIPES), { showCrystals: false })!;
+    const withCrystals = buildCraftingTree(100, 1, source(RECIPES), { showCrystals: true })!;
+
+    expect(without.children.map(c => c.item.id)).toEqual([101, 102]);
+    expect(withCrystals.children.map(c => c.item.id)).toEqual([101, 102, CRYSTAL]);
+  });
+
+  it('cuts cycles', () => {
+    const cyclic = [recipe(1, 100, [[101, 1]]), recipe(2, 101, [[100, 1], [102, 1]])];
+    const tree = buildCraftingTree(100, 1, source(cyclic), { showCrystals: false })!;
+
+    expect(tree.children[0].children.map(c => c.item.id)).toEqual([102]);
+  });
+
+  it('stops below MAX_DEPTH', () => {
+    // A chain 100 <- 101 <- 102 <- ... longer than the depth limit
+    const chain = Array.from({ length: MAX_DEPTH + 5 }, (_, i) => recipe(i + 1, 100 + i, [[101 + i, 1]]));
+    let node = buildCraftingTree(100, 1, source(chain), { showCrystals: false });
+    let deepest = 0;
+    while (node) {
+      deepest = node.depth;
+      node = node.children[0] ?? null;
+    }
+
+    expect(deepest).toBe(MAX_DEPTH);
+  });
+
+  it('uses the root recipe and the selector when given', () => {
+    const recipes = [...RECIPES, recipe(3, 100, [[104, 1]]), recipe(4, 101, [[105, 1]])];
+    const tree = buildCraftingTree(100, 1, source(recipes), {
+      showCrystals: false,
+      rootRecipe: recipes[0],
+      selectRecipe: (_id, options) => options[options.length - 1],
+    })!;
+
+    expect(tree.recipe?.id).toBe(1);
+    expect(tree.children[0].recipe?.id).toBe(4);
+  });
+
+  it('returns null for unknown items', () => {
+    expect(buildCraftingTree(100, 1, { getItem: () => undefined, getRecipes: () => [] }, { showCrystals: false })).toBeNull();
+  });
+});
+
+describe('pricing', () => {
+  const prices: Record<number, MarketData> = {
+    100: market(100, [listing(1000, 1, true, 'Ixion'), listing(800, 1)]),
+    101: market(101, [listing(50, 5), listing(60, 10, false, 'Ixion')]),
+    102: market(102, [listing(30, 5, true), listing(20, 5)]),
+    103: market(103, [listing(5, 12)]),
+  };
+
+  function pricedTree() {
+    const tree = buildCraftingTree(100, 4, source(RECIPES), { showCrystals: false })!;
+    applyPrices(tree, prices);
+    return tree;
+  }
+
+  it('applies the cheapest price and server per quality', () => {
+    const tree = pricedTree();
+
+    expect(tree.marketPriceNQ).toBe(800);
+    expect(tree.marketPriceHQ).toBe(1000);
+    expect(tree.serverHQ).toBe('Ixion');
+    expect(tree.lastUploadTime).toBe(1000);
+    expect(tree.children[0].listings?.map(l => l.price)).toEqual([50, 60]);
+    expect(tree.children[1].marketPriceHQ).toBe(30);
+  });
+
+  it('costs crafts from the cheaper of buying and crafting each material', () => {
+    const tree = pricedTree();
+    calculateCosts(tree);
+    const intermediate = tree.children[0];
+
+    // 101: 12 x 103 at 5
+    expect(intermediate.craftCost).toBe(60);
+    // 101 x8 buys whole stacks, 5x50 + 10x60 = 850, so crafting (60) wins; 102 x4 takes the stack of 5 at 20
+    expect(tree.craftCost).toBe(60 + 100);
+  });
+
+  it('prices materials at custom prices when set', () => {
+    const tree = pricedTree();
+    calculateCosts(tree, { 101: 1, 102: 10 });
+
+    expect(tree.craftCost).toBe(8 + 40);
+  });
+
+  it('leaves the craft cost empty when a material has no price', () => {
+    const tree = buildCraftingTree(100, 1, source(RECIPES), { showCrystals: false })!;
+    applyPrices(tree, { 101: prices[101] });
+    calculateCosts(tree);
+
+    expect(tree.craftCost).toBeNull();
+  });
+
+  it('totals the craft cost against buying HQ', () => {
+    const tree = pricedTree();
+    calculateCosts(tree);
+
+    // Only one HQ listing of 1; the other 3 are priced at the dearest listing
+    expect(calculateTotals(tree)).toEqual({ craftCost: 160, buyCostHQ: 4000 });
+    expect(calculateTotals(tree, { 100: 500 })).toEqual({ craftCost: 160, buyCostHQ: 2000 });
+  });
+
+  it('gives the same output for the same input', () => {
+    const a = pricedTree();
+    const b = pricedTree();
+    calculateCosts(a);
+    calculateCosts(b);
+
+    expect(a).toEqual(b);
+  });
+});
@@ -0,0 +1,263 @@
+// Crafting tree engine shared by the item crafting tree, the price check list and the profit scanner
+// Pure: item and recipe lookups are passed in, so the same input always builds the same tree
+import type { CraftingTreeNode, Item, ListingInfo, MarketData, Recipe } from '../types';
+import { quoteBuy, quoteCheapestBuy } from './listingCost';
+import { firstRecipe, type RecipeSelector } from './recipeChoice';
+
+// Crystal item IDs (2-19)
+export const CRYSTAL_IDS = new Set([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+
+export const MAX_DEPTH = 10;
+
+// Quality filter type
+export type QualityFilter = 'both' | 'nq' | 'hq';
+
+export interface TreeDataSource {
+  getItem: (itemId: number) => Item | undefined;
+  getRecipes: (itemId: number) => Recipe[];
+}
+
+export interface BuildTreeOptions {
+  showCrystals: boolean;
+  rootRecipe?: Recipe;              // Fixes the root's recipe; selectRecipe picks the rest
+  selectRecipe?: RecipeSelector;
+}
+
+/**
+ * Crafts needed for a quantity, rounding up when a craft yields several
+ */
+export function getCraftCount(recipe: Recipe, quantity: number): number {
+  return recipe.resultAmount > 1 ? Math.ceil(quantity / recipe.resultAmount) : quantity;
+}
+
+function buildNode(
+  itemId: number,
+  quantity: number,
+  visitedIds: Set<number>,
+  depth: number,
+  source: TreeDataSource,
+  options: BuildTreeOptions
+): CraftingTreeNode | null {
+  // Depth limit
+  if (depth > MAX_DEPTH) return null;
+
+  // Cycle detection
+  if (visitedIds.has(itemId)) return null;
+
+  const item = source.getItem(itemId);
+  if (!item) return null;
+
+  // Skip crystals if not showing them
+  if (!options.showCrystals && CRYSTAL_IDS.has(itemId)) return null;
+
+  // Clone visited set for this branch
+  const newVisited = new Set(visitedIds);
+  newVisited.add(itemId);
+
+  const selectRecipe = options.selectRecipe ?? firstRecipe;
+  const recipe = depth === 0 && options.rootRecipe
+    ? options.rootRecipe
+    : selectRecipe(itemId, source.getRecipes(itemId));
+
+  const node: CraftingTreeNode = {
+    item,
+    recipe,
+    quantity,
+    marketPriceNQ: null,
+    marketPriceHQ: null,
+    serverNQ: '',
+    serverHQ: '',
+    craftCost: null,
+    children: [],
+    depth,
+  };
+
+  if (recipe) {
+    const numCrafts = getCraftCount(recipe, quantity);
+    for (const ingredient of recipe.ingredients) {
+      const childNode = buildNode(ingredient.itemId, ingredient.amount * numCrafts, newVisited, depth + 1, source, options);
+      if (childNode) {
+        node.children.push(childNode);
+      }
+    }
+  }
+
+  return node;
+}
+
+/**
+ * Build the crafting tree for a quantity of an item
+ * Cycles and anything deeper than MAX_DEPTH are cut off
+ */
+export function buildCraftingTree(
+  itemId: number,
+  quantity: number,
+  source: TreeDataSource,
+  options: BuildTreeOptions
+): CraftingTreeNode | null {
+  return buildNode(itemId, quantity, new Set(), 0, source, options);
+}
+
+/**
+ * Collect all unique item IDs from one or more trees
+ */
+export function collectAllItemIds(...trees: (CraftingTreeNode | null)[]): Set<number> {
+  const ids = new Set<number>();
+
+  function collectFromNode(node: CraftingTreeNode) {
+    ids.add(node.item.id);
+    for (const child of node.children) {
+      collectFromNode(child);
+    }
+  }
+
+  for (const tree of trees) {
+    if (tree) collectFromNode(tree);
+  }
+
+  return ids;
+}
+
+/**
+ * Find the cheapest listing of one quality and its server
+ * Falls back to the summary minimum when there are no listings of that quality
+ */
+export function findCheapest(priceData: MarketData, hq: boolean): { price: number | null; server: string } {
+  const minPrice = hq ? priceData.minPriceHQ : priceData.minPriceNQ;
+  if (!priceData.listings || priceData.listings.length === 0) {
+    return { price: minPrice > 0 ? minPrice : null, server: '' };
+  }
+
+  let cheapestPrice: number | null = null;
+  let cheapestServer = '';
+
+  for (const listing of priceData.listings) {
+    if (listing.hq === hq) {
+      if (cheapestPrice === null || listing.pricePerUnit < cheapestPrice) {
+        cheapestPrice = listing.pricePerUnit;
+        cheapestServer = listing.worldName || '';
+      }
+    }
+  }
+
+  if (cheapestPrice === null && minPrice > 0) {
+    cheapestPrice = minPrice;
+  }
+
+  return { price: cheapestPrice, server: cheapestServer };
+}
+
+/**
+ * Extract listings sorted by price, for the tooltip and for walking stacks when pricing quantities
+ */
+export function extractListings(priceData: MarketData): ListingInfo[] {
+  if (!priceData.listings || priceData.listings.length === 0) {
+    return [];
+  }
+
+  return [...priceData.listings]
+    .sort((a, b) => a.pricePerUnit - b.pricePerUnit)
+    .map(listing => ({
+      price: listing.pricePerUnit,
+      quantity: listing.quantity,
+      server: listing.worldName || '',
+      hq: listing.hq,
+      lastReviewTime: listing.lastReviewTime,
+    }));
+}
+
+/**
+ * Apply market prices to tree nodes
+ */
+export function applyPrices(node: CraftingTreeNode, prices: Record<number, MarketData>): void {
+  const priceData = prices[node.item.id];
+
+  if (priceData) {
+    const nqResult = findCheapest(priceData, false);
+    const hqResult = findCheapest(priceData, true);
+
+    node.marketPriceNQ = nqResult.price;
+    node.marketPriceHQ = hqResult.price;
+    node.serverNQ = nqResult.server;
+    node.serverHQ = hqResult.server;
+    node.listings = extractListings(priceData);
+    node.lastUploadTime = priceData.lastUploadTime;
+  }
+
+  for (const child of node.children) {
+    applyPrices(child, prices);
+  }
+}
+
+/**
+ * Copy the node structure so prices can be reapplied without mutating rendered state
+ */
+export function cloneTree(node: CraftingTreeNode): CraftingTreeNode {
+  return { ...node, children: node.children.map(cloneTree) };
+}
+
+/**
+ * Calculate costs for each node (bottom-up)
+ * Always uses cheapest materials (NQ or HQ) for craft cost calculation,
+ * priced by walking their listings so bulk quantities cost what the market actually asks
+ * Custom prices override market prices when set
+ */
+export function calculateCosts(node: CraftingTreeNode, customPrices: Record<number, number> = {}): void {
+  for (const child of node.children) {
+    calculateCosts(child, customPrices);
+  }
+
+  // If no recipe, can only buy
+  if (!node.recipe || node.children.length === 0) {
+    node.craftCost = null;
+    return;
+  }
+
+  let craftCost = 0;
+  for (const child of node.children) {
+    const childCraftCost = child.craftCost;
+    const customPrice = customPrices[child.item.id];
+    const childBuyCost = customPrice !== undefined
+      ? customPrice * child.quantity
+      : quoteCheapestBuy(child, child.quantity)?.cost ?? null;
+
+    let cheapestChildCost: number | null = null;
+
+    if (childCraftCost !== null && childBuyCost !== null) {
+      cheapestChildCost = Math.min(childCraftCost, childBuyCost);
+    } else if (childCraftCost !== null) {
+      cheapestChildCost = childCraftCost;
+    } else if (childBuyCost !== null) {
+      cheapestChildCost = childBuyCost;
+    }
+
+    if (cheapestChildCost === null) {
+      node.craftCost = null;
+      return;
+    }
+
+    craftCost += cheapestChildCost;
+  }
+
+  node.craftCost = Math.ceil(craftCost);
+}
+
+/**
+ * Calculate total costs for the root item
+ * Compares: HQ buy price vs craft cost (using cheapest materials)
+ * Custom prices override market prices when set
+ */
+export function calculateTotals(
+  tree: CraftingTreeNode,
+  customPrices: Record<number, number> = {}
+): { craftCost: number; buyCostHQ: number } {
+  const craftCost = tree.craftCost ?? 0;
+
+  // Use custom price if set, otherwise HQ listings for buy comparison
+  const customPrice = customPrices[tree.item.id];
+  const buyCostHQ = customPrice !== undefined
+    ? customPrice * tree.quantity
+    : quoteBuy(tree, tree.quantity, true)?.cost ?? 0;
+
+  return { craftCost, buyCostHQ };
+}
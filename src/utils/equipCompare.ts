@@ -0,0 +1,88 @@
+// Equipment values for side-by-side comparison, with HQ bonuses applied
+import type { EquipmentStats } from '../types';
+
+// Weapon/defense fields shown as cards in EquipmentStatsView
+export type EquipBaseKey =
+  | 'physicalDamage'
+  | 'magicDamage'
+  | 'autoAttack'
+  | 'delay'
+  | 'physicalDefense'
+  | 'magicDefense'
+  | 'blockRate'
+  | 'blockStrength';
+
+// HQ bonus params (BaseParam{Special}) that raise weapon damage and defense instead of a stat
+const HQ_BASE_PARAMS: Partial<Record<EquipBaseKey, number>> = {
+  physicalDamage: 12,
+  magicDamage: 13,
+  physicalDefense: 21,
+  magicDefense: 24,
+};
+
+// Fields where a lower value is the better one
+export const LOWER_IS_BETTER: ReadonlySet<EquipBaseKey> = new Set(['delay']);
+
+export interface EquipValues {
+  base: Record<EquipBaseKey, number>;
+  stats: Map<number, { name: string; value: number }>;  // By BaseParam id
+}
+
+/**
+ * HQ bonus per BaseParam id (empty when the item can't be HQ)
+ */
+export function getHqBonusMap(equipStats: EquipmentStats, canBeHq?: boolean): Map<number, number> {
+  const bonuses = new Map<number, number>();
+  if (canBeHq && equipStats.hqStats) {
+    for (const stat of equipStats.hqStats) {
+      bonuses.set(stat.id, stat.value);
+    }
+  }
+  return bonuses;
+}
+
+/**
+ * Resolve the comparable values of a piece of equipment, optionally as HQ
+ */
+export function getEquipValues(equipStats: EquipmentStats, hq: boolean): EquipValues {
+  const bonuses = hq ? getHqBonusMap(equipStats, true) : new Map<number, number>();
+  const withBonus = (key: EquipBaseKey) => {
+    const value = equipStats[key] ?? 0;
+    const paramId = HQ_BASE_PARAMS[key];
+    return value > 0 && paramId !== undefined ? value + (bonuses.get(paramId) ?? 0) : value;
+  };
+
+  const physicalDamage = withBonus('physicalDamage');
+  const magicDamage = withBonus('magicDamage');
+  const delay = equipStats.delay ?? 0;
+  // Same formula as the data build: damage / 3 * delay / 1000
+  const damage = Math.max(physicalDamage, magicDamage);
+  const autoAttack = damage > 0 && delay > 0 ? parseFloat((damage / 3 * delay / 1000).toFixed(2)) : 0;
+
+  const stats = new Map<number, { name: string; value: number }>();
+  for (const stat of equipStats.stats) {
+    stats.set(stat.id, { name: stat.name, value: stat.value + (bonuses.get(stat.id) ?? 0) });
+  }
+
+  return {
+    base: {
+      physicalDamage,
+      magicDamage,
+      autoAttack,
+      delay,
+      physicalDefense: withBonus('physicalDefense'),
+      magicDefense: withBonus('magicDefense'),
+      blockRate: equipStats.blockRate ?? 0,
+      blockStrength: equipStats.blockStrength ?? 0,
+    },
+    stats,
+  };
+}
+
+/**
+ * HQ bonus to a weapon/defense field, if any
+ */
+export function getBaseHqBonus(key: EquipBaseKey, hqBonuses: Map<number, number>): number | undefined {
+  const paramId = HQ_BASE_PARAMS[key];
+  return paramId !== undefined ? hqBonuses.get(paramId) : undefined;
+}
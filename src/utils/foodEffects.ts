@@ -0,0 +1,68 @@
+// Food and medicine effects: actual stat gains for a set of base stats
+import type { FoodBonus, Item } from '../types';
+
+// Combat stats a consumable can raise, by BaseParam id
+export const COMBAT_PARAMS: { id: number; name: string }[] = [
+  { id: 1, name: '力量' },
+  { id: 2, name: '靈巧' },
+  { id: 4, name: '智力' },
+  { id: 5, name: '精神' },
+  { id: 3, name: '耐力' },
+  { id: 27, name: '暴擊' },
+  { id: 44, name: '信念' },
+  { id: 22, name: '直擊' },
+  { id: 45, name: '技能速度' },
+  { id: 46, name: '詠唱速度' },
+  { id: 19, name: '堅韌' },
+  { id: 6, name: '信仰' },
+];
+
+const COMBAT_PARAM_IDS = new Set(COMBAT_PARAMS.map(param => param.id));
+
+export const FOOD_CATEGORY_ID = 46;
+export const MEDICINE_CATEGORY_ID = 44;
+
+/**
+ * Stat gained from one bonus: relative bonuses are a percentage of the base, capped at max
+ */
+export function calculateFoodBonus(bonus: FoodBonus, baseValue: number, isHq: boolean): number {
+  const percent = isHq ? bonus.valueHq : bonus.value;
+  const max = isHq ? bonus.maxHq : bonus.max;
+
+  if (bonus.isRelative) {
+    return Math.min(Math.floor(baseValue * percent / 100), max);
+  }
+  return percent;
+}
+
+export interface ConsumableGain {
+  paramId: number;
+  paramName: string;
+  gain: number;
+  capped: boolean;                 // The max was reached, so more base stat adds nothing
+}
+
+/**
+ * Combat stat gains of a food or medicine for the given base stats (by BaseParam id);
+ * HQ values only apply when the item can be HQ
+ */
+export function getConsumableGains(item: Item, baseStats: Record<number, number>, hq: boolean): ConsumableGain[] {
+  const isHq = hq && !!item.canBeHq;
+  return (item.foodEffects?.bonuses ?? [])
+    .filter(bonus => COMBAT_PARAM_IDS.has(bonus.paramId))
+    .map(bonus => {
+      const base = baseStats[bonus.paramId] ?? 0;
+      const gain = calculateFoodBonus(bonus, base, isHq);
+      const percent = isHq ? bonus.valueHq : bonus.value;
+      const capped = bonus.isRelative && Math.floor(base * percent / 100) >= (isHq ? bonus.maxHq : bonus.max);
+      return { paramId: bonus.paramId, paramName: bonus.paramName, gain, capped };
+    });
+}
+
+/**
+ * Whether an item is a food or medicine with at least one combat stat bonus
+ */
+export function isCombatConsumable(item: Item): boolean {
+  if (item.categoryId !== FOOD_CATEGORY_ID && item.categoryId !== MEDICINE_CATEGORY_ID) return false;
+  return !!item.foodEffects?.bonuses.some(bonus => COMBAT_PARAM_IDS.has(bonus.paramId));
+}
@@ -0,0 +1,282 @@
+// Gear set planner: slots, materia melding, stat totals and URL encoding
+import type { EquipmentStats, GearPiece, GearSet, GearSlotId, Item, MateriaData } from '../types';
+import { getEquipValues } from './equipCompare';
+import { getStatCap } from '../services/materiaData';
+
+export interface GearSlot {
+  id: GearSlotId;
+  label: string;
+  categoryIds: number[];           // ItemUICategory ids that fit the slot
+}
+
+// Same weapon categories as the filter panel's 武器 group
+const WEAPON_CATEGORY_IDS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 84, 87, 88, 89, 96, 97, 98, 105, 106, 107, 108, 109, 110, 111];
+// Crafter and gatherer tools alternate primary/secondary per class; 99 is the fisher's secondary tool
+const PRIMARY_TOOL_CATEGORY_IDS = [12, 14, 16, 18, 20, 22, 24, 26, 28, 30, 32];
+const SECONDARY_TOOL_CATEGORY_IDS = [13, 15, 17, 19, 21, 23, 25, 27, 29, 31, 99];
+const SHIELD_CATEGORY_ID = 11;
+
+export const GEAR_SLOTS: GearSlot[] = [
+  { id: 'mainHand', label: '主手', categoryIds: [...WEAPON_CATEGORY_IDS, ...PRIMARY_TOOL_CATEGORY_IDS] },
+  { id: 'offHand', label: '副手', categoryIds: [SHIELD_CATEGORY_ID, ...SECONDARY_TOOL_CATEGORY_IDS] },
+  { id: 'head', label: '頭部', categoryIds: [34] },
+  { id: 'body', label: '身體', categoryIds: [35] },
+  { id: 'hands', label: '手臂', categoryIds: [37] },
+  { id: 'legs', label: '腿部', categoryIds: [36] },
+  { id: 'feet', label: '腳部', categoryIds: [38] },
+  { id: 'earrings', label: '耳飾', categoryIds: [41] },
+  { id: 'necklace', label: '項鍊', categoryIds: [40] },
+  { id: 'bracelets', label: '手鐲', categoryIds: [42] },
+  { id: 'ring1', label: '戒指', categoryIds: [43] },
+  { id: 'ring2', label: '戒指', categoryIds: [43] },
+];
+
+const SLOT_IDS = new Set<string>(GEAR_SLOTS.map(slot => slot.id));
+
+export const GEAR_JOB_GROUPS: { name: string; jobs: { abbr: string; name: string }[] }[] = [
+  {
+    name: '坦克',
+    jobs: [
+      { abbr: 'PLD', name: '騎士' },
+      { abbr: 'WAR', name: '戰士' },
+      { abbr: 'DRK', name: '暗黑騎士' },
+      { abbr: 'GNB', name: '絕槍戰士' },
+    ],
+  },
+  {
+    name: '治療',
+    jobs: [
+      { abbr: 'WHM', name: '白魔法師' },
+      { abbr: 'SCH', name: '學者' },
+      { abbr: 'AST', name: '占星術士' },
+      { abbr: 'SGE', name: '賢者' },
+    ],
+  },
+  {
+    name: '近戰',
+    jobs: [
+      { abbr: 'MNK', name: '武僧' },
+      { abbr: 'DRG', name: '龍騎士' },
+      { abbr: 'NIN', name: '忍者' },
+      { abbr: 'SAM', name: '武士' },
+      { abbr: 'RPR', name: '鐮刀師' },
+      { abbr: 'VPR', name: '蝮蛇劍士' },
+    ],
+  },
+  {
+    name: '遠程',
+    jobs: [
+      { abbr: 'BRD', name: '吟遊詩人' },
+      { abbr: 'MCH', name: '機工士' },
+      { abbr: 'DNC', name: '舞者' },
+    ],
+  },
+  {
+    name: '法系',
+    jobs: [
+      { abbr: 'BLM', name: '黑魔法師' },
+      { abbr: 'SMN', name: '召喚師' },
+      { abbr: 'RDM', name: '赤魔法師' },
+      { abbr: 'PCT', name: '繪靈法師' },
+    ],
+  },
+  {
+    name: '製作',
+    jobs: [
+      { abbr: 'CRP', name: '木工師' },
+      { abbr: 'BSM', name: '鍛造師' },
+      { abbr: 'ARM', name: '甲冑師' },
+      { abbr: 'GSM', name: '金工師' },
+      { abbr: 'LTW', name: '皮革師' },
+      { abbr: 'WVR', name: '裁縫師' },
+      { abbr: 'ALC', name: '鍊金術師' },
+      { abbr: 'CUL', name: '烹調師' },
+    ],
+  },
+  {
+    name: '採集',
+    jobs: [
+      { abbr: 'MIN', name: '採礦師' },
+      { abbr: 'BTN', name: '園藝師' },
+      { abbr: 'FSH', name: '釣魚師' },
+    ],
+  },
+];
+
+export const DEFAULT_GEAR_JOB = 'PLD';
+
+// Jobs that equip something in the off hand: shields and secondary tools
+const OFF_HAND_JOBS = new Set(['PLD', ...GEAR_JOB_GROUPS.slice(-2).flatMap(group => group.jobs.map(job => job.abbr))]);
+
+export function isGearJob(abbr: string): boolean {
+  return GEAR_JOB_GROUPS.some(group => group.jobs.some(job => job.abbr === abbr));
+}
+
+/**
+ * Slots a job can fill
+ */
+export function getSlotsForJob(job: string): GearSlot[] {
+  return GEAR_SLOTS.filter(slot => slot.id !== 'offHand' || OFF_HAND_JOBS.has(job));
+}
+
+/**
+ * Whether an item goes in a slot and can be worn by the job
+ */
+export function fitsSlot(item: Item, slot: GearSlot, job: string): boolean {
+  if (!slot.categoryIds.includes(item.categoryId)) return false;
+  const jobs = item.equipStats?.classJobCategoryName?.split(/\s+/) ?? [];
+  return jobs.includes(job);
+}
+
+/**
+ * Materia that fit an item: its guaranteed slots, or five with advanced melding (overmelding)
+ */
+export function getMeldSlotCount(item: Item): number {
+  const slots = item.equipStats?.materiaSlots ?? 0;
+  if (slots === 0) return 0;
+  return item.equipStats?.isAdvancedMeldingPermitted ? 5 : slots;
+}
+
+// One stat's materia on a piece, after the item's cap
+export interface MeldResult {
+  paramId: number;
+  paramName: string;
+  added: number;                   // Amount that counts
+  wasted: number;                  // Amount lost to the cap
+}
+
+export interface PieceStats {
+  stats: Map<number, { name: string; value: number }>;   // By BaseParam id, materia included
+  melds: MeldResult[];
+}
+
+/**
+ * Stats of one piece with HQ bonuses and materia applied, materia limited by the item's stat caps
+ */
+export function getPieceStats(item: Item, piece: GearPiece, data: MateriaData | null): PieceStats {
+  const stats = item.equipStats
+    ? getEquipValues(item.equipStats, piece.hq && !!item.canBeHq).stats
+    : new Map<number, { name: string; value: number }>();
+
+  // Total materia per stat
+  const meldTotals = new Map<number, { paramName: string; total: number }>();
+  for (const materiaId of piece.materia) {
+    const info = data?.materia[materiaId];
+    if (!info) continue;
+    const entry = meldTotals.get(info.paramId) ?? { paramName: info.paramName, total: 0 };
+    entry.total += info.value;
+    meldTotals.set(info.paramId, entry);
+  }
+
+  const melds: MeldResult[] = [];
+  for (const [paramId, { paramName, total }] of meldTotals) {
+    const current = stats.get(paramId)?.value ?? 0;
+    const cap = data ? getStatCap(data, item, paramId) : null;
+    const room = cap === null ? total : Math.max(0, cap - current);
+    const added = Math.min(total, room);
+    melds.push({ paramId, paramName, added, wasted: total - added });
+    stats.set(paramId, { name: stats.get(paramId)?.name ?? paramName, value: current + added });
+  }
+
+  return { stats, melds };
+}
+
+export interface GearSetTotals {
+  equipStats: EquipmentStats;      // Summed stats, shown through EquipmentStatsView
+  wastedMelds: { slot: GearSlotId; paramName: string; amount: number }[];
+  warnings: string[];
+}
+
+/**
+ * Sum a gear set: weapon numbers from the main hand, defense and stats from every piece
+ */
+export function getGearSetTotals(
+  set: GearSet,
+  getItem: (id: number) => Item | undefined,
+  data: MateriaData | null
+): GearSetTotals {
+  const totals: EquipmentStats = { stats: [] };
+  const stats = new Map<number, { name: string; value: number }>();
+  const wastedMelds: GearSetTotals['wastedMelds'] = [];
+  const warnings: string[] = [];
+
+  const addTo = (key: 'physicalDefense' | 'magicDefense' | 'blockRate' | 'blockStrength', value: number) => {
+    if (value > 0) totals[key] = (totals[key] ?? 0) + value;
+  };
+
+  for (const slot of getSlotsForJob(set.job)) {
+    const piece = set.pieces[slot.id];
+    const item = piece ? getItem(piece.itemId) : undefined;
+    if (!piece || !item?.equipStats) continue;
+
+    const values = getEquipValues(item.equipStats, piece.hq && !!item.canBeHq);
+    if (slot.id === 'mainHand') {
+      if (values.base.physicalDamage > 0) totals.physicalDamage = values.base.physicalDamage;
+      if (values.base.magicDamage > 0) totals.magicDamage = values.base.magicDamage;
+      if (values.base.delay > 0) totals.delay = values.base.delay;
+      if (values.base.autoAttack > 0) totals.autoAttack = values.base.autoAttack;
+    }
+    addTo('physicalDefense', values.base.physicalDefense);
+    addTo('magicDefense', values.base.magicDefense);
+    addTo('blockRate', values.base.blockRate);
+    addTo('blockStrength', values.base.blockStrength);
+
+    const pieceStats = getPieceStats(item, piece, data);
+    for (const [paramId, stat] of pieceStats.stats) {
+      const entry = stats.get(paramId) ?? { name: stat.name, value: 0 };
+      entry.value += stat.value;
+      stats.set(paramId, entry);
+    }
+    for (const meld of pieceStats.melds) {
+      if (meld.wasted > 0) wastedMelds.push({ slot: slot.id, paramName: meld.paramName, amount: meld.wasted });
+    }
+  }
+
+  // Unique rings can't be worn twice
+  const ring1 = set.pieces.ring1;
+  const ring2 = set.pieces.ring2;
+  if (ring1 && ring2 && ring1.itemId === ring2.itemId && getItem(ring1.itemId)?.equipStats?.isUnique) {
+    warnings.push('兩個戒指為同一件稀有物品，無法同時裝備');
+  }
+
+  totals.stats = Array.from(stats.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([id, stat]) => ({ id, name: stat.name, value: stat.value }));
+
+  return { equipStats: totals, wastedMelds, warnings };
+}
+
+/**
+ * Encode pieces for a URL: "head.41012h.41758-41758_body.41013"
+ */
+export function encodeGearPieces(pieces: GearSet['pieces']): string {
+  return GEAR_SLOTS
+    .filter(slot => pieces[slot.id])
+    .map(slot => {
+      const piece = pieces[slot.id]!;
+      const parts = [slot.id, `${piece.itemId}${piece.hq ? 'h' : ''}`];
+      if (piece.materia.length > 0) parts.push(piece.materia.join('-'));
+      return parts.join('.');
+    })
+    .join('_');
+}
+
+/**
+ * Decode pieces from a URL, skipping anything malformed
+ */
+export function decodeGearPieces(value: string): GearSet['pieces'] {
+  const pieces: GearSet['pieces'] = {};
+  for (const part of value.split('_')) {
+    const [slotId, itemPart, materiaPart] = part.split('.');
+    const match = itemPart?.match(/^(\d+)(h?)$/);
+    if (!SLOT_IDS.has(slotId) || !match) continue;
+    pieces[slotId as GearSlotId] = {
+      itemId: parseInt(match[1], 10),
+      hq: match[2] === 'h',
+      materia: materiaPart
+        ? materiaPart.split('-').map(id => parseInt(id, 10)).filter(id => !Number.isNaN(id)).slice(0, 5)
+        : [],
+    };
+  }
+  return pieces;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { ListingInfo } from '../types';
+import { quoteBuy, quoteCheapestBuy } from './listingCost';
+
+function listing(price: number, quantity: number, hq = false): ListingInfo {
+  return { price, quantity, hq, server: 'Tonberry', lastReviewTime: 0 };
+}
+
+function node(listings: ListingInfo[], marketPriceNQ: number | null = null, marketPriceHQ: number | null = null) {
+  return { listings, marketPriceNQ, marketPriceHQ };
+}
+
+describe('quoteBuy', () => {
+  it('charges the whole stack when the need is smaller than the cheapest stack', () => {
+    expect(quoteBuy(node([listing(10, 99)]), 1, false)).toEqual({ cost: 990, shortfall: 0, surplus: 98 });
+  });
+
+  it('prefers a small dearer stack over a huge cheap one for a small need', () => {
+    expect(quoteBuy(node([listing(10, 99), listing(50, 2)]), 2, false)).toEqual({ cost: 100, shortfall: 0, surplus: 0 });
+  });
+
+  it('takes several stacks and reports the units left over', () => {
+    expect(quoteBuy(node([listing(10, 5), listing(12, 5), listing(100, 1)]), 8, false))
+      .toEqual({ cost: 50 + 60, shortfall: 0, surplus: 2 });
+  });
+
+  it('prices units the listings cannot supply at the dearest listing', () => {
+    expect(quoteBuy(node([listing(10, 2), listing(20, 1)]), 5, false)).toEqual({ cost: 20 + 20 + 2 * 20, shortfall: 2, surplus: 0 });
+  });
+
+  it('only walks listings of the asked quality', () => {
+    const listings = [listing(10, 5), listing(30, 5, true)];
+    expect(quoteBuy(node(listings), 5, true)).toEqual({ cost: 150, shortfall: 0, surplus: 0 });
+  });
+
+  it('falls back to the unit price without listings', () => {
+    expect(quoteBuy(node([], 40), 3, false)).toEqual({ cost: 120, shortfall: 0, surplus: 0 });
+    expect(quoteBuy(node([], 40), 3, true)).toBeNull();
+  });
+});
+
+describe('quoteCheapestBuy', () => {
+  it('picks the cheaper quality', () => {
+    const listings = [listing(10, 99), listing(30, 3, true)];
+    expect(quoteCheapestBuy(node(listings), 3)).toEqual({ cost: 90, shortfall: 0, surplus: 0 });
+  });
+});
@@ -0,0 +1,55 @@
+// Cost of buying a quantity from the actual market listings rather than the cheapest unit price
+import type { CraftingTreeNode } from '../types';
+
+export interface BuyQuote {
+  cost: number;        // Whole stacks at their own prices; any shortfall priced at the dearest listing
+  shortfall: number;   // Units the listings can't supply
+  surplus: number;     // Units bought beyond the quantity, since stacks can't be split
+}
+
+type PricedNode = Pick<CraftingTreeNode, 'marketPriceNQ' | 'marketPriceHQ' | 'listings'>;
+
+/**
+ * Buy one quality's listings as whole stacks until the quantity is covered, each time taking
+ * the stack with the lowest cost per unit still needed (the same rule as the shopping route)
+ * Falls back to the cheapest unit price when there are no listings of that quality to walk
+ */
+export function quoteBuy(node: PricedNode, quantity: number, hq: boolean): BuyQuote | null {
+  const available = (node.listings ?? []).filter(l => l.hq === hq);
+
+  if (available.length === 0) {
+    const price = hq ? node.marketPriceHQ : node.marketPriceNQ;
+    return price !== null ? { cost: price * quantity, shortfall: 0, surplus: 0 } : null;
+  }
+
+  const dearest = Math.max(...available.map(l => l.price));
+  let cost = 0;
+  let remaining = quantity;
+  while (remaining > 0 && available.length > 0) {
+    let bestIndex = 0;
+    let bestRate = Infinity;
+    available.forEach((listing, index) => {
+      const rate = (listing.price * listing.quantity) / Math.min(listing.quantity, remaining);
+      if (rate < bestRate) {
+        bestRate = rate;
+        bestIndex = index;
+      }
+    });
+    const [listing] = available.splice(bestIndex, 1);
+    cost += listing.price * listing.quantity;
+    remaining -= listing.quantity;
+  }
+
+  const shortfall = Math.max(0, remaining);
+  return { cost: cost + shortfall * dearest, shortfall, surplus: Math.max(0, -remaining) };
+}
+
+/**
+ * Cheaper of the NQ and HQ quotes, used for materials
+ */
+export function quoteCheapestBuy(node: PricedNode, quantity: number): BuyQuote | null {
+  const nq = quoteBuy(node, quantity, false);
+  const hq = quoteBuy(node, quantity, true);
+  if (nq && hq) return hq.cost < nq.cost ? hq : nq;
+  return nq ?? hq;
+}
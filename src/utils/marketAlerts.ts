@@ -0,0 +1,66 @@
+// Market price alert rules and their evaluation against Universalis data
+import type { MarketData, MarketListing } from '../types';
+
+// 'below': cheapest listing drops under a price; 'undercut': someone lists cheaper than a retainer
+export type MarketAlertKind = 'below' | 'undercut';
+export type MarketAlertQuality = 'any' | 'nq' | 'hq';
+
+export interface MarketAlertRule {
+  id: string;
+  itemId: number;
+  kind: MarketAlertKind;
+  server: string;              // World, data center or region to watch
+  quality: MarketAlertQuality;
+  threshold: number;           // Price per unit for 'below'
+  retainerName: string;        // Retainer to watch for 'undercut'
+  enabled: boolean;
+}
+
+export interface MarketAlertResult {
+  met: boolean;
+  price: number | null;        // Cheapest matching listing
+  world: string;               // World of that listing
+  ownPrice?: number;           // Retainer's cheapest listing, for 'undercut'
+}
+
+function matchesQuality(listing: MarketListing, quality: MarketAlertQuality): boolean {
+  return quality === 'any' || listing.hq === (quality === 'hq');
+}
+
+function cheapest(listings: MarketListing[]): MarketListing | null {
+  return listings.reduce<MarketListing | null>(
+    (min, l) => (!min || l.pricePerUnit < min.pricePerUnit ? l : min),
+    null
+  );
+}
+
+/**
+ * Check one rule against the item's market data
+ */
+export function evaluateMarketAlert(rule: MarketAlertRule, data: MarketData | null): MarketAlertResult {
+  const listings = (data?.listings ?? []).filter(l => matchesQuality(l, rule.quality));
+  const lowest = cheapest(listings);
+  const result: MarketAlertResult = {
+    met: false,
+    price: lowest?.pricePerUnit ?? null,
+    world: lowest?.worldName ?? '',
+  };
+
+  if (rule.kind === 'below') {
+    result.met = result.price !== null && result.price < rule.threshold;
+    return result;
+  }
+
+  // Undercut: the retainer's cheapest listing isn't the cheapest any more
+  const retainer = rule.retainerName.trim();
+  const own = cheapest(listings.filter(l => l.retainerName === retainer));
+  if (!retainer || !own) return result;
+  const others = cheapest(listings.filter(l => l.retainerName !== retainer));
+  result.ownPrice = own.pricePerUnit;
+  result.met = !!others && others.pricePerUnit < own.pricePerUnit;
+  if (others) {
+    result.price = others.pricePerUnit;
+    result.world = others.worldName ?? '';
+  }
+  return result;
+}
@@ -0,0 +1,87 @@
+// Market health: how fast an item sells, how much is listed and how current the data is
+import type { MarketData } from '../types';
+import { toMillis } from '../services/universalisApi';
+
+export type MarketStaleness = 'fresh' | 'aging' | 'stale';
+
+// Upload age limits, in hours, for the staleness levels
+const FRESH_HOURS = 12;
+const AGING_HOURS = 72;
+
+export interface MarketHealth {
+  velocity: number;                // Units sold per day, NQ and HQ together
+  unitsForSale: number;
+  daysOfSupply: number | null;     // Days the listed units last at the current velocity; null = nothing sells
+  sellThrough: number | null;      // Share of a week's supply (listed + sold) that sells within the week
+  typicalStackSize: number | null; // Most common stack size among the listings
+  priceSpread: number | null;      // How far the median listing sits above the cheapest, as a fraction
+  uploadAgeHours: number | null;   // Hours since anyone uploaded this item's market board
+  staleness: MarketStaleness | null;
+}
+
+export const STALENESS_LABELS: Record<MarketStaleness, string> = {
+  fresh: '資料新',
+  aging: '資料偏舊',
+  stale: '資料過舊',
+};
+
+export const STALENESS_COLORS: Record<MarketStaleness, string> = {
+  fresh: 'var(--ffxiv-success)',
+  aging: 'var(--ffxiv-warning)',
+  stale: 'var(--ffxiv-error)',
+};
+
+function getTypicalStackSize(histogram: Record<string, number> | undefined): number | null {
+  let best: number | null = null;
+  let bestCount = 0;
+  for (const [size, count] of Object.entries(histogram ?? {})) {
+    if (count > bestCount) {
+      best = Number(size);
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function getPriceSpread(data: MarketData): number | null {
+  const prices = (data.listings ?? []).map(l => l.pricePerUnit).sort((a, b) => a - b);
+  if (prices.length < 2 || prices[0] <= 0) return null;
+  const median = prices[Math.floor(prices.length / 2)];
+  return (median - prices[0]) / prices[0];
+}
+
+export function getStaleness(uploadAgeHours: number): MarketStaleness {
+  if (uploadAgeHours <= FRESH_HOURS) return 'fresh';
+  if (uploadAgeHours <= AGING_HOURS) return 'aging';
+  return 'stale';
+}
+
+export function getMarketHealth(data: MarketData, now: number = Date.now()): MarketHealth {
+  const velocity = data.regularSaleVelocity ?? 0;
+  const unitsForSale = data.unitsForSale ?? 0;
+  const weeklySales = velocity * 7;
+
+  const uploadAgeHours = data.lastUploadTime
+    ? Math.max(0, (now - toMillis(data.lastUploadTime)) / 3600000)
+    : null;
+
+  return {
+    velocity,
+    unitsForSale,
+    daysOfSupply: velocity > 0 ? unitsForSale / velocity : null,
+    sellThrough: weeklySales + unitsForSale > 0 ? weeklySales / (weeklySales + unitsForSale) : null,
+    typicalStackSize: getTypicalStackSize(data.stackSizeHistogram),
+    priceSpread: getPriceSpread(data),
+    uploadAgeHours,
+    staleness: uploadAgeHours !== null ? getStaleness(uploadAgeHours) : null,
+  };
+}
+
+/**
+ * Short label for a day count: under a day in hours, otherwise days
+ */
+export function formatDays(days: number): string {
+  if (days < 1) return `${Math.max(1, Math.round(days * 24))} 小時`;
+  if (days < 10) return `${days.toFixed(1)} 天`;
+  return `${Math.round(days)} 天`;
+}
@@ -0,0 +1,289 @@
+// Flattened shopping and gathering list for a crafting project, split by how each material is obtained
+import type { CraftingTreeNode, GatheringPoint, ItemSource, Recipe, VendorInfo } from '../types';
+import { CRYSTAL_IDS, getCraftCount, type QualityFilter } from './craftingTree';
+import { solveCraftPlan, type CraftPlanNode } from './craftPlan';
+import { quoteCheapestBuy } from './listingCost';
+import { formatPrice } from '../services/universalisApi';
+
+export type MaterialStepKind = 'market' | 'vendor' | 'gather' | 'drop' | 'craft';
+
+// In the order the steps are done: collect everything, then craft bottom-up
+export const MATERIAL_STEP_KINDS: MaterialStepKind[] = ['market', 'vendor', 'gather', 'drop', 'craft'];
+
+export const MATERIAL_STEP_LABELS: Record<MaterialStepKind, string> = {
+  market: '市場購買',
+  vendor: 'NPC 商店',
+  gather: '採集',
+  drop: '掉落/副本/其他',
+  craft: '製作',
+};
+
+export interface MaterialLine {
+  kind: MaterialStepKind;
+  itemId: number;
+  quantity: number;             // Still to obtain, net of owned stock
+  owned: number;                // Units covered by owned stock
+  cost: number | null;          // Gil, for market and vendor lines
+  custom: boolean;              // Market line priced at the user's custom price
+  vendors: VendorInfo[];
+  points: GatheringPoint[];
+  sources: ItemSource[];        // Drop/duty sources
+  crafts: number;               // Craft lines: number of crafts for the combined quantity
+  craftTypeName: string;
+  recipe: Recipe | null;        // Craft lines: the recipe the tree uses
+  depth: number;                // Deepest use in the trees; crafts run deepest first
+}
+
+export interface MaterialDataSource {
+  getSources: (itemId: number) => ItemSource[];
+  getGatheringPoints: (itemId: number) => GatheringPoint[];
+}
+
+export interface MaterialListOptions {
+  qualityFilter: QualityFilter;
+  gatherWhenPossible: boolean;  // Gatherable materials go on the gathering list even when buying is cheaper
+  showCrystals: boolean;
+}
+
+const DROP_SOURCE_TYPES = new Set<ItemSource['type']>([
+  'drop', 'duty', 'instance', 'treasure', 'voyage', 'venture', 'quest', 'desynth', 'gcshop', 'specialshop',
+]);
+
+/**
+ * Cheapest gil price at an NPC shop, if any
+ */
+export function getVendorPrice(sources: ItemSource[]): { price: number; vendors: VendorInfo[] } | null {
+  let best: { price: number; vendors: VendorInfo[] } | null = null;
+  for (const source of sources) {
+    const isGilShop = source.type === 'vendor' || (source.type === 'gilshop' && source.currency === 'gil');
+    if (!isGilShop) continue;
+    const price = source.price ?? Math.min(...(source.vendors ?? []).map(v => v.price));
+    if (!Number.isFinite(price) || price <= 0) continue;
+    if (!best || price < best.price) best = { price, vendors: source.vendors ?? [] };
+  }
+  return best;
+}
+
+/**
+ * Sum owned units a plan used, so the next tree only sees what's left
+ */
+function consumeStock(plan: CraftPlanNode, stock: Record<number, number>): void {
+  if (plan.ownedUsed > 0) stock[plan.itemId] = (stock[plan.itemId] ?? 0) - plan.ownedUsed;
+  plan.children.forEach(child => consumeStock(child, stock));
+}
+
+/**
+ * Build the list for one or more priced trees (roots are the items being crafted)
+ * Market choices follow the buy-vs-craft plan; materials the market can't supply
+ * go to NPC shops, gathering or drops, and are crafted when they have a recipe.
+ * Owned stock is shared across the trees in order
+ */
+export function buildMaterialList(
+  trees: CraftingTreeNode[],
+  ownedMaterials: Record<number, number>,
+  customPrices: Record<number, number>,
+  source: MaterialDataSource,
+  options: MaterialListOptions
+): MaterialLine[] {
+  const lines = new Map<string, MaterialLine>();
+  const stock = { ...ownedMaterials };
+
+  const add = (kind: MaterialStepKind, node: CraftingTreeNode, quantity: number, owned: number, fields: Partial<MaterialLine> = {}) => {
+    const key = getMaterialLineKey({ kind, itemId: node.item.id });
+    const existing = lines.get(key);
+    if (existing) {
+      existing.quantity += quantity;
+      existing.owned += owned;
+      if (existing.cost !== null || fields.cost != null) {
+        existing.cost = (existing.cost ?? 0) + (fields.cost ?? 0);
+      }
+      existing.depth = Math.max(existing.depth, node.depth);
+      return;
+    }
+    lines.set(key, {
+      kind,
+      itemId: node.item.id,
+      quantity,
+      owned,
+      cost: null,
+      custom: false,
+      vendors: [],
+      points: [],
+      sources: [],
+      crafts: 0,
+      craftTypeName: '',
+      recipe: null,
+      depth: node.depth,
+      ...fields,
+    });
+  };
+
+  // Bought: from an NPC shop when that's no dearer than the market
+  const purchase = (node: CraftingTreeNode, quantity: number, owned: number, cost: number | null, custom: boolean) => {
+    const points = source.getGatheringPoints(node.item.id);
+    const vendor = getVendorPrice(source.getSources(node.item.id));
+    if (options.gatherWhenPossible && points.length > 0) {
+      add('gather', node, quantity, owned, { points });
+    } else if (vendor && (cost === null || vendor.price * quantity <= cost)) {
+      add('vendor', node, quantity, owned, { cost: vendor.price * quantity, vendors: vendor.vendors });
+    } else {
+      add('market', node, quantity, owned, { cost, custom });
+    }
+  };
+
+  // Not on the market: shop, gather, craft, or whatever drops it
+  const obtain = (node: CraftingTreeNode, quantity: number, owned: number) => {
+    const sources = source.getSources(node.item.id);
+    const points = source.getGatheringPoints(node.item.id);
+    const vendor = getVendorPrice(sources);
+    if (vendor) {
+      add('vendor', node, quantity, owned, { cost: vendor.price * quantity, vendors: vendor.vendors });
+    } else if (points.length > 0) {
+      add('gather', node, quantity, owned, { points });
+    } else if (node.recipe && node.children.length > 0) {
+      const crafts = getCraftCount(node.recipe, quantity);
+      add('craft', node, quantity, owned, { craftTypeName: node.recipe.craftTypeName, recipe: node.recipe });
+      const amounts = new Map(node.recipe.ingredients.map(i => [i.itemId, i.amount]));
+      node.children.forEach(child => expand(child, (amounts.get(child.item.id) ?? 0) * crafts));
+    } else {
+      add('drop', node, quantity, owned, { sources: sources.filter(s => DROP_SOURCE_TYPES.has(s.type)) });
+    }
+  };
+
+  // Below an unobtainable node the plan skipped everything, so each material is planned again here
+  const expand = (node: CraftingTreeNode, need: number) => {
+    const id = node.item.id;
+    const owned = Math.min(need, Math.max(0, stock[id] ?? 0));
+    stock[id] = (stock[id] ?? 0) - owned;
+    const rest = need - owned;
+    if (rest === 0) return;
+
+    const customPrice = customPrices[id];
+    const buyCost = customPrice !== undefined ? customPrice * rest : quoteCheapestBuy(node, rest)?.cost ?? null;
+    const plan = node.recipe && node.children.length > 0
+      ? solveCraftPlan({ ...node, quantity: rest }, stock, customPrices, options.qualityFilter)
+      : null;
+
+    if (node.recipe && plan?.choice === 'craft' && plan.cost !== null && (buyCost === null || plan.cost < buyCost)) {
+      consumeStock(plan, stock);
+      add('craft', node, rest, owned, {
+        craftTypeName: node.recipe.craftTypeName,
+        recipe: node.recipe,
+      });
+      node.children.forEach((child, i) => visit(child, plan.children[i]));
+    } else if (buyCost !== null) {
+      purchase(node, rest, owned, buyCost, customPrice !== undefined);
+    } else {
+      obtain(node, rest, owned);
+    }
+  };
+
+  function visit(node: CraftingTreeNode, plan: CraftPlanNode) {
+    const rest = plan.need - plan.ownedUsed;
+    switch (plan.choice) {
+      case 'skip':
+      case 'owned':
+        return;
+      case 'craft':
+        if (!node.recipe) return;
+        add('craft', node, rest, plan.ownedUsed, {
+          craftTypeName: node.recipe.craftTypeName,
+          recipe: node.recipe,
+        });
+        node.children.forEach((child, i) => visit(child, plan.children[i]));
+        return;
+      case 'unavailable':
+        obtain(node, rest, plan.ownedUsed);
+        return;
+      default:
+        purchase(node, rest, plan.ownedUsed, plan.cost, plan.choice === 'custom');
+    }
+  }
+
+  for (const tree of trees) {
+    // A list entry that isn't crafted is itself the material
+    if (!tree.recipe || tree.children.length === 0) {
+      expand(tree, tree.quantity);
+      continue;
+    }
+
+    const plan = solveCraftPlan(tree, stock, customPrices, options.qualityFilter);
+    consumeStock(plan, stock);
+    visit(tree, plan);
+  }
+
+  // Crafts are counted once for the combined quantity, so leftovers from a multi-yield craft cover other branches
+  for (const line of lines.values()) {
+    if (line.recipe) line.crafts = getCraftCount(line.recipe, line.quantity);
+  }
+
+  return Array.from(lines.values())
+    .filter(line => line.quantity > 0 && (options.showCrystals || !CRYSTAL_IDS.has(line.itemId)))
+    .sort((a, b) =>
+      MATERIAL_STEP_KINDS.indexOf(a.kind) - MATERIAL_STEP_KINDS.indexOf(b.kind) ||
+      (a.kind === 'craft' ? b.depth - a.depth : 0)
+    );
+}
+
+/**
+ * One-line summary of where a drop/duty material comes from
+ */
+export function describeSource(source: ItemSource): string {
+  const names = source.instanceNames ?? source.mobNames ?? source.mapNames ?? source.voyageNames
+    ?? (source.questName ? [source.questName] : []);
+  return names.length > 0 ? `${source.typeName}: ${names.slice(0, 3).join('、')}${names.length > 3 ? '…' : ''}` : source.typeName;
+}
+
+/**
+ * Where to go for a line, as plain text
+ */
+export function describeLineDetail(line: MaterialLine): string {
+  switch (line.kind) {
+    case 'market':
+      return line.cost !== null ? `${line.custom ? '自訂價 ' : '約 '}${formatPrice(line.cost)} gil` : '';
+    case 'vendor': {
+      const vendor = line.vendors[0];
+      const place = vendor ? `${vendor.npcName} (${vendor.zoneName}${vendor.x !== undefined ? ` ${vendor.x.toFixed(1)}, ${vendor.y?.toFixed(1)}` : ''})` : '';
+      return `${place} ${line.cost !== null ? `${formatPrice(line.cost)} gil` : ''}`.trim();
+    }
+    case 'gather': {
+      const point = line.points[0];
+      if (!point) return '';
+      const more = line.points.length > 1 ? ` 等 ${line.points.length} 處` : '';
+      return `${point.gatheringTypeName} Lv.${point.level} ${point.placeName} (${point.x.toFixed(1)}, ${point.y.toFixed(1)})${more}`;
+    }
+    case 'drop':
+      return line.sources.length > 0 ? line.sources.map(describeSource).join(' / ') : '未知取得方式';
+    case 'craft':
+      return `${line.craftTypeName} ${line.crafts} 次`;
+  }
+}
+
+/**
+ * Stable key for a line, for remembering which lines are checked off
+ */
+export function getMaterialLineKey(line: Pick<MaterialLine, 'kind' | 'itemId'>): string {
+  return `${line.kind}:${line.itemId}`;
+}
+
+/**
+ * The whole list as text, for copying or printing
+ */
+export function formatMaterialListText(
+  lines: MaterialLine[],
+  getName: (itemId: number) => string,
+  checked: Set<string> = new Set()
+): string {
+  return MATERIAL_STEP_KINDS
+    .map(kind => {
+      const kindLines = lines.filter(l => l.kind === kind);
+      if (kindLines.length === 0) return null;
+      const rows = kindLines.map(line => {
+        const detail = describeLineDetail(line);
+        return `${checked.has(getMaterialLineKey(line)) ? '☑' : '☐'} ${getName(line.itemId)} x${line.quantity}${detail ? `  ${detail}` : ''}`;
+      });
+      return [`【${MATERIAL_STEP_LABELS[kind]}】`, ...rows].join('\n');
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
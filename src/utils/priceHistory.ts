@@ -0,0 +1,123 @@
+// Sale history aggregation for the price history charts
+import type { MarketHistory } from '../types';
+
+export interface DailyPricePoint {
+  date: string;                    // Local date, "MM/DD"
+  timestamp: number;               // Local midnight, seconds
+  nqMedian: number | null;
+  nqMin: number | null;
+  hqMedian: number | null;
+  hqMin: number | null;
+  nqVolume: number;                // Units sold
+  hqVolume: number;
+}
+
+export interface WorldPriceSummary {
+  worldName: string;
+  sales: number;
+  volume: number;
+  median: number;
+  min: number;
+}
+
+/**
+ * Median of a list of numbers (null when empty)
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[mid - 1] + sorted[mid]) / 2) : sorted[mid];
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+/**
+ * Drop sales priced outside 1.5× the interquartile range, NQ and HQ separately
+ * (too few sales to judge are kept as they are)
+ */
+export function trimOutliers(entries: MarketHistory[]): MarketHistory[] {
+  const fences = new Map<boolean, { low: number; high: number }>();
+  for (const hq of [false, true]) {
+    const prices = entries.filter(e => e.hq === hq).map(e => e.pricePerUnit).sort((a, b) => a - b);
+    if (prices.length < 4) continue;
+    const q1 = quantile(prices, 0.25);
+    const q3 = quantile(prices, 0.75);
+    const range = q3 - q1;
+    fences.set(hq, { low: q1 - range * 1.5, high: q3 + range * 1.5 });
+  }
+
+  return entries.filter(e => {
+    const fence = fences.get(e.hq);
+    return !fence || (e.pricePerUnit >= fence.low && e.pricePerUnit <= fence.high);
+  });
+}
+
+function getDayStart(timestamp: number): Date {
+  const date = new Date(timestamp * 1000);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+/**
+ * One point per day from the window start to today, with NQ/HQ median and min price and units sold;
+ * days without sales have null prices so the chart leaves a gap
+ */
+export function aggregateDailyHistory(entries: MarketHistory[], days: number, now = Date.now()): DailyPricePoint[] {
+  const byDay = new Map<number, MarketHistory[]>();
+  for (const entry of entries) {
+    const day = getDayStart(entry.timestamp).getTime();
+    const list = byDay.get(day);
+    if (list) list.push(entry);
+    else byDay.set(day, [entry]);
+  }
+
+  const points: DailyPricePoint[] = [];
+  const cursor = getDayStart(now / 1000);
+  cursor.setDate(cursor.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    const sales = byDay.get(cursor.getTime()) ?? [];
+    const nq = sales.filter(e => !e.hq);
+    const hq = sales.filter(e => e.hq);
+    points.push({
+      date: `${(cursor.getMonth() + 1).toString().padStart(2, '0')}/${cursor.getDate().toString().padStart(2, '0')}`,
+      timestamp: cursor.getTime() / 1000,
+      nqMedian: median(nq.map(e => e.pricePerUnit)),
+      nqMin: nq.length > 0 ? Math.min(...nq.map(e => e.pricePerUnit)) : null,
+      hqMedian: median(hq.map(e => e.pricePerUnit)),
+      hqMin: hq.length > 0 ? Math.min(...hq.map(e => e.pricePerUnit)) : null,
+      nqVolume: nq.reduce((sum, e) => sum + e.quantity, 0),
+      hqVolume: hq.reduce((sum, e) => sum + e.quantity, 0),
+    });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return points;
+}
+
+/**
+ * Sales per world, most units sold first (entries only carry a world name for data center queries)
+ */
+export function aggregateWorldHistory(entries: MarketHistory[], fallbackWorld: string): WorldPriceSummary[] {
+  const byWorld = new Map<string, MarketHistory[]>();
+  for (const entry of entries) {
+    const world = entry.worldName || fallbackWorld;
+    const list = byWorld.get(world);
+    if (list) list.push(entry);
+    else byWorld.set(world, [entry]);
+  }
+
+  return Array.from(byWorld.entries())
+    .map(([worldName, sales]) => ({
+      worldName,
+      sales: sales.length,
+      volume: sales.reduce((sum, e) => sum + e.quantity, 0),
+      median: median(sales.map(e => e.pricePerUnit)) ?? 0,
+      min: sales.reduce((min, e) => Math.min(min, e.pricePerUnit), Infinity),
+    }))
+    .sort((a, b) => b.volume - a.volume);
+}
@@ -0,0 +1,18 @@
+// Text colour class for an item's rarity (classes defined in index.css)
+
+export function getRarityClass(rarity: number): string {
+  switch (rarity) {
+    case 1:
+      return 'rarity-common';
+    case 2:
+      return 'rarity-uncommon';
+    case 3:
+      return 'rarity-rare';
+    case 4:
+      return 'rarity-relic';
+    case 7:
+      return 'rarity-aetherial';
+    default:
+      return 'rarity-common';
+  }
+}
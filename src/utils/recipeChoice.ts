@@ -0,0 +1,66 @@
+// Which of an item's recipes a crafting tree uses: a hand-picked one, or the best fit for the user's preference
+import type { Recipe } from '../types';
+import type { RecipePreference } from '../hooks/useSettings';
+
+export type RecipeSelector = (itemId: number, recipes: Recipe[]) => Recipe | null;
+
+// Used when nothing else is known
+export const firstRecipe: RecipeSelector = (_itemId, recipes) => recipes[0] ?? null;
+
+const CRAFT_TYPE_NAMES: Record<number, string> = {
+  0: '木工',
+  1: '鍛冶',
+  2: '甲冑',
+  3: '雕金',
+  4: '皮革',
+  5: '裁縫',
+  6: '煉金',
+  7: '烹調',
+};
+
+export function getCraftTypeName(craftType: number): string {
+  return CRAFT_TYPE_NAMES[craftType] ?? `${craftType}`;
+}
+
+/**
+ * Why a recipe doesn't fit the preference; empty when it does
+ */
+export function getRecipeIssues(recipe: Recipe, preference: RecipePreference): string[] {
+  const issues: string[] = [];
+  if (preference.avoidUnownedBooks && recipe.secretRecipeBook && !preference.ownedBooks.includes(recipe.secretRecipeBook)) {
+    issues.push('沒有秘籍');
+  }
+  const jobLevel = preference.jobLevels[recipe.craftType] ?? 0;
+  if (preference.preferLeveledJobs && (recipe.classJobLevel ?? 0) > jobLevel) {
+    issues.push(`${getCraftTypeName(recipe.craftType)}等級不足`);
+  }
+  return issues;
+}
+
+/**
+ * Short label for a recipe picker
+ */
+export function describeRecipe(recipe: Recipe): string {
+  const level = recipe.classJobLevel ?? recipe.recipeLevel;
+  const stars = recipe.stars > 0 ? '★'.repeat(recipe.stars) : '';
+  const amount = recipe.resultAmount > 1 ? ` ×${recipe.resultAmount}` : '';
+  return `${recipe.craftTypeName || getCraftTypeName(recipe.craftType)} Lv.${level}${stars}${amount}${recipe.secretRecipeBook ? ' 秘籍' : ''}`;
+}
+
+/**
+ * Hand-picked recipes win; otherwise the first recipe that fits the preference,
+ * or the first recipe at all when none fits (better a tree than none)
+ */
+export function createRecipeSelector(choices: Record<number, number>, preference: RecipePreference): RecipeSelector {
+  return (itemId, recipes) => {
+    if (recipes.length === 0) return null;
+
+    const chosen = choices[itemId];
+    if (chosen !== undefined) {
+      const recipe = recipes.find(r => r.id === chosen);
+      if (recipe) return recipe;
+    }
+
+    return recipes.find(r => getRecipeIssues(r, preference).length === 0) ?? recipes[0];
+  };
+}
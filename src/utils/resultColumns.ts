@@ -0,0 +1,90 @@
+// Column definitions for the results table view
+import type { Item, ResultColumnId, SearchSortKey } from '../types';
+
+export interface ResultColumn {
+  id: ResultColumnId;
+  label: string;
+  group: 'item' | 'equip' | 'market';
+  numeric?: boolean;
+  sortKey?: SearchSortKey;       // Clicking the header sorts by this key
+  fullData?: boolean;            // Reads equipStats beyond the job list, which only the full item data has
+  // Cell value; null renders as "-". The price column is filled from market data instead.
+  value: (item: Item) => string | number | null;
+}
+
+const RARITY_NAMES: Record<number, string> = {
+  1: '普通',
+  2: '綠色',
+  3: '藍色',
+  4: '紫色',
+  7: '粉色',
+};
+
+// Zero means "not applicable" for most equipment numbers
+function positive(value: number | undefined): number | null {
+  return value && value > 0 ? value : null;
+}
+
+export const RESULT_COLUMNS: ResultColumn[] = [
+  { id: 'ilvl', label: '物品等級', group: 'item', numeric: true, sortKey: 'ilvl', value: item => item.itemLevel },
+  { id: 'elvl', label: '裝備等級', group: 'item', numeric: true, sortKey: 'elvl', value: item => positive(item.equipLevel) },
+  { id: 'category', label: '分類', group: 'item', value: item => item.categoryName },
+  { id: 'patch', label: '版本', group: 'item', sortKey: 'patch', value: item => item.patch ?? null },
+  { id: 'rarity', label: '稀有度', group: 'item', sortKey: 'rarity', value: item => RARITY_NAMES[item.rarity] ?? null },
+  { id: 'hq', label: 'HQ', group: 'item', value: item => (item.canBeHq ? '✓' : null) },
+  { id: 'stackSize', label: '堆疊上限', group: 'item', numeric: true, value: item => item.stackSize },
+  { id: 'jobs', label: '職業', group: 'equip', value: item => item.equipStats?.classJobCategoryName ?? null },
+  { id: 'physicalDamage', label: '物理基本性能', group: 'equip', numeric: true, fullData: true, value: item => positive(item.equipStats?.physicalDamage) },
+  { id: 'magicDamage', label: '魔法基本性能', group: 'equip', numeric: true, fullData: true, value: item => positive(item.equipStats?.magicDamage) },
+  {
+    id: 'autoAttack',
+    label: '自動攻擊',
+    group: 'equip',
+    numeric: true,
+    fullData: true,
+    value: item => positive(item.equipStats?.autoAttack)?.toFixed(2) ?? null,
+  },
+  {
+    id: 'delay',
+    label: '攻擊間隔',
+    group: 'equip',
+    numeric: true,
+    fullData: true,
+    value: item => {
+      const delay = positive(item.equipStats?.delay);
+      return delay ? (delay / 1000).toFixed(2) : null;
+    },
+  },
+  { id: 'physicalDefense', label: '物理防禦力', group: 'equip', numeric: true, fullData: true, value: item => positive(item.equipStats?.physicalDefense) },
+  { id: 'magicDefense', label: '魔法防禦力', group: 'equip', numeric: true, fullData: true, value: item => positive(item.equipStats?.magicDefense) },
+  { id: 'blockRate', label: '格擋發動力', group: 'equip', numeric: true, fullData: true, value: item => positive(item.equipStats?.blockRate) },
+  { id: 'blockStrength', label: '格擋性能', group: 'equip', numeric: true, fullData: true, value: item => positive(item.equipStats?.blockStrength) },
+  {
+    id: 'stats',
+    label: '屬性',
+    group: 'equip',
+    fullData: true,
+    value: item => item.equipStats?.stats.map(stat => `${stat.name}+${stat.value}`).join(' ') || null,
+  },
+  { id: 'materiaSlots', label: '魔晶石孔數', group: 'equip', numeric: true, fullData: true, value: item => positive(item.equipStats?.materiaSlots) },
+  { id: 'sellPrice', label: '賣店價', group: 'market', numeric: true, fullData: true, value: item => positive(item.equipStats?.sellPrice) },
+  { id: 'price', label: '市場價格', group: 'market', numeric: true, sortKey: 'price', value: () => null },
+];
+
+export const RESULT_COLUMN_GROUPS: { id: ResultColumn['group']; label: string }[] = [
+  { id: 'item', label: '物品' },
+  { id: 'equip', label: '裝備' },
+  { id: 'market', label: '市場' },
+];
+
+export const DEFAULT_RESULT_COLUMNS: ResultColumnId[] = ['ilvl', 'elvl', 'category', 'patch'];
+
+const COLUMNS_BY_ID = new Map(RESULT_COLUMNS.map(column => [column.id, column]));
+
+export function getResultColumn(id: ResultColumnId): ResultColumn | undefined {
+  return COLUMNS_BY_ID.get(id);
+}
+
+export function isResultColumnId(value: string): value is ResultColumnId {
+  return COLUMNS_BY_ID.has(value as ResultColumnId);
+}
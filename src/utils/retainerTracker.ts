@@ -0,0 +1,121 @@
+// Retainer listings found on the market board, undercut checks and sales matched from history
+import type { MarketData, MarketListing } from '../types';
+import { MARKET_TAX_RATE } from './craftProfit';
+
+// A listing seen under one of the user's retainers, remembered so its sale can be matched later
+export interface TrackedListing {
+  listingID: string;
+  itemId: number;
+  retainerName: string;
+  world: string;
+  hq: boolean;
+  pricePerUnit: number;
+  quantity: number;
+  lastSeen: number;             // ms
+}
+
+export interface RetainerSale {
+  id: string;                   // The listing that sold
+  itemId: number;
+  retainerName: string;
+  world: string;
+  hq: boolean;
+  pricePerUnit: number;
+  quantity: number;
+  buyerName: string;
+  timestamp: number;            // Sale time, ms
+}
+
+export interface RetainerListingStatus {
+  itemId: number;
+  listing: MarketListing;
+  world: string;
+  competitorPrice: number | null;  // Cheapest other seller, same world and quality
+  undercutBy: number | null;       // Gil per unit below ours; null when we're cheapest
+  suggestedPrice: number | null;   // One gil under the cheapest competitor
+}
+
+/**
+ * The user's listings for one item, each compared with other sellers on the same world
+ * (market boards are per world, so a cheaper listing elsewhere in the DC doesn't compete directly)
+ */
+export function findRetainerListings(
+  itemId: number,
+  data: MarketData,
+  retainers: string[],
+  defaultWorld: string
+): RetainerListingStatus[] {
+  const names = new Set(retainers.map(r => r.trim()).filter(Boolean));
+  const listings = data.listings ?? [];
+  const worldOf = (l: MarketListing) => l.worldName ?? defaultWorld;
+
+  return listings
+    .filter(l => names.has(l.retainerName))
+    .map(listing => {
+      const world = worldOf(listing);
+      const competitorPrice = listings
+        .filter(l => !names.has(l.retainerName) && l.hq === listing.hq && worldOf(l) === world)
+        .reduce<number | null>((min, l) => (min === null || l.pricePerUnit < min ? l.pricePerUnit : min), null);
+
+      return {
+        itemId,
+        listing,
+        world,
+        competitorPrice,
+        undercutBy: competitorPrice !== null && competitorPrice < listing.pricePerUnit
+          ? listing.pricePerUnit - competitorPrice
+          : null,
+        suggestedPrice: competitorPrice !== null ? Math.max(1, competitorPrice - 1) : null,
+      };
+    });
+}
+
+/**
+ * Match listings that disappeared since the last check to sales in the item's history:
+ * same world, quality, unit price and quantity
+ * History has no retainer names, so a listing that was simply taken down stays unmatched
+ */
+export function matchSales(
+  gone: TrackedListing[],
+  data: MarketData,
+  defaultWorld: string,
+  knownSaleIds: Set<string>
+): RetainerSale[] {
+  const used = new Set<number>();
+  const sales: RetainerSale[] = [];
+
+  for (const tracked of gone) {
+    if (knownSaleIds.has(tracked.listingID)) continue;
+    const index = (data.recentHistory ?? []).findIndex((sale, i) =>
+      !used.has(i) &&
+      (sale.worldName ?? defaultWorld) === tracked.world &&
+      sale.hq === tracked.hq &&
+      sale.pricePerUnit === tracked.pricePerUnit &&
+      sale.quantity === tracked.quantity
+    );
+    if (index === -1) continue;
+
+    used.add(index);
+    const sale = data.recentHistory[index];
+    sales.push({
+      id: tracked.listingID,
+      itemId: tracked.itemId,
+      retainerName: tracked.retainerName,
+      world: tracked.world,
+      hq: tracked.hq,
+      pricePerUnit: tracked.pricePerUnit,
+      quantity: tracked.quantity,
+      buyerName: sale.buyerName,
+      timestamp: sale.timestamp * 1000,
+    });
+  }
+
+  return sales;
+}
+
+/**
+ * Gil received for a sale after market tax
+ */
+export function getSaleIncome(sale: RetainerSale): number {
+  return Math.floor(sale.pricePerUnit * sale.quantity * (1 - MARKET_TAX_RATE));
+}
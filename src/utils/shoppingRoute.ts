@@ -0,0 +1,174 @@
+// Shopping route planning: assign material purchases to real listings across worlds
+import type { CraftingTreeNode, MarketListing } from '../types';
+import { quoteCheapestBuy } from './listingCost';
+
+export interface ShoppingNeed {
+  itemId: number;
+  quantity: number;
+}
+
+export interface RoutePurchase {
+  itemId: number;
+  listing: MarketListing;
+  cost: number;                 // Whole stack: listings can't be bought partially
+}
+
+export interface RouteStop {
+  world: string;
+  purchases: RoutePurchase[];
+  subtotal: number;
+}
+
+export interface ShoppingRoute {
+  stops: RouteStop[];
+  itemCost: number;
+  travelCost: number;
+  totalCost: number;
+  shortfalls: ShoppingNeed[];   // Quantities the listings couldn't cover
+}
+
+export interface ShoppingRouteOptions {
+  travelPenalty: number;        // Gil-equivalent cost of visiting one more world
+  homeWorld?: string;           // Visiting it costs nothing
+  worldOrder?: string[];        // Route order, e.g. worlds grouped by data center
+}
+
+/**
+ * Materials to buy for a priced tree: at each node, buy it or go down to its materials,
+ * whichever calculateCosts found cheaper; the root itself is crafted when it can be.
+ * Materials with a custom price are left out, they don't come from the market board
+ */
+export function collectPurchaseNeeds(
+  tree: CraftingTreeNode,
+  customPrices: Record<number, number> = {},
+  needs: Map<number, number> = new Map()
+): Map<number, number> {
+  const add = (node: CraftingTreeNode) => {
+    if (customPrices[node.item.id] !== undefined) return;
+    needs.set(node.item.id, (needs.get(node.item.id) ?? 0) + node.quantity);
+  };
+
+  const visit = (node: CraftingTreeNode) => {
+    const custom = customPrices[node.item.id];
+    const buyCost = custom !== undefined
+      ? custom * node.quantity
+      : quoteCheapestBuy(node, node.quantity)?.cost ?? null;
+    if (node.craftCost !== null && (buyCost === null || node.craftCost < buyCost)) {
+      node.children.forEach(visit);
+    } else {
+      add(node);
+    }
+  };
+
+  if (tree.recipe && tree.children.length > 0) {
+    tree.children.forEach(visit);
+  } else {
+    add(tree);
+  }
+  return needs;
+}
+
+/**
+ * Buy whole stacks until the quantity is covered, each time taking the stack with the lowest
+ * cost per unit still needed (so a small remainder isn't filled with a huge cheap stack)
+ */
+function fillNeeds(
+  needs: ShoppingNeed[],
+  listingsByItem: Record<number, MarketListing[]>,
+  allowedWorlds: Set<string>
+): { purchases: RoutePurchase[]; shortfalls: ShoppingNeed[] } {
+  const purchases: RoutePurchase[] = [];
+  const shortfalls: ShoppingNeed[] = [];
+
+  for (const need of needs) {
+    const available = (listingsByItem[need.itemId] ?? []).filter(l => allowedWorlds.has(l.worldName ?? ''));
+    let remaining = need.quantity;
+
+    while (remaining > 0 && available.length > 0) {
+      let bestIndex = 0;
+      let bestRate = Infinity;
+      available.forEach((listing, index) => {
+        const rate = (listing.pricePerUnit * listing.quantity) / Math.min(listing.quantity, remaining);
+        if (rate < bestRate) {
+          bestRate = rate;
+          bestIndex = index;
+        }
+      });
+      const [listing] = available.splice(bestIndex, 1);
+      purchases.push({ itemId: need.itemId, listing, cost: listing.pricePerUnit * listing.quantity });
+      remaining -= listing.quantity;
+    }
+
+    if (remaining > 0) shortfalls.push({ itemId: need.itemId, quantity: remaining });
+  }
+
+  return { purchases, shortfalls };
+}
+
+function summarise(
+  purchases: RoutePurchase[],
+  shortfalls: ShoppingNeed[],
+  { travelPenalty, homeWorld, worldOrder = [] }: ShoppingRouteOptions
+): ShoppingRoute {
+  const byWorld = new Map<string, RoutePurchase[]>();
+  for (const purchase of purchases) {
+    const world = purchase.listing.worldName ?? '';
+    byWorld.set(world, [...(byWorld.get(world) ?? []), purchase]);
+  }
+
+  const rank = (world: string) => {
+    if (world === homeWorld) return -1;
+    const index = worldOrder.indexOf(world);
+    return index === -1 ? worldOrder.length : index;
+  };
+  const stops = Array.from(byWorld.entries())
+    .map(([world, worldPurchases]) => ({
+      world,
+      purchases: worldPurchases,
+      subtotal: worldPurchases.reduce((sum, p) => sum + p.cost, 0),
+    }))
+    .sort((a, b) => rank(a.world) - rank(b.world) || a.world.localeCompare(b.world));
+
+  const itemCost = purchases.reduce((sum, p) => sum + p.cost, 0);
+  const travelCost = stops.filter(s => s.world !== homeWorld).length * travelPenalty;
+  return { stops, itemCost, travelCost, totalCost: itemCost + travelCost, shortfalls };
+}
+
+function countMissing(shortfalls: ShoppingNeed[]): number {
+  return shortfalls.reduce((sum, s) => sum + s.quantity, 0);
+}
+
+/**
+ * Plan where to buy everything: fill from all worlds, then keep dropping the world whose removal
+ * lowers gil plus travel the most, as long as no more units go missing
+ */
+export function planShoppingRoute(
+  needs: ShoppingNeed[],
+  listingsByItem: Record<number, MarketListing[]>,
+  options: ShoppingRouteOptions
+): ShoppingRoute {
+  const worlds = new Set<string>();
+  for (const need of needs) {
+    for (const listing of listingsByItem[need.itemId] ?? []) worlds.add(listing.worldName ?? '');
+  }
+
+  let fill = fillNeeds(needs, listingsByItem, worlds);
+  let best = summarise(fill.purchases, fill.shortfalls, options);
+  const missing = countMissing(best.shortfalls);
+
+  for (;;) {
+    let improved: { route: ShoppingRoute; world: string } | null = null;
+    for (const stop of best.stops) {
+      if (stop.world === options.homeWorld) continue;
+      const allowed = new Set(worlds);
+      allowed.delete(stop.world);
+      fill = fillNeeds(needs, listingsByItem, allowed);
+      if (countMissing(fill.shortfalls) > missing) continue;
+      const route = summarise(fill.purchases, fill.shortfalls, options);
+      if (route.totalCost < (improved?.route ?? best).totalCost) improved = { route, world: stop.world };
+    }
+    if (!improved) return best;
+    worlds.delete(improved.world);
+    best = improved.route;
+  }
+}